@@ -0,0 +1,167 @@
+/**
+ * 认证
+ * 每次连接前解析连接地址和令牌，连接建立后可选发送认证帧并等待确认，
+ * 因认证失败而关闭时刷新一次令牌并立即重试
+ */
+
+import { matchesShape } from './utils.js';
+
+// 消息匹配：消息模板或判断函数
+export type AuthMatcher = Record<string, any> | ((data: any) => boolean);
+
+// 认证配置
+export interface AuthOptions {
+  getUrl?: (refresh: boolean) => string | Promise<string>;   // 每次连接前解析连接地址，refresh 表示上次认证失败
+  getToken?: (refresh: boolean) => string | Promise<string>; // 每次连接前获取令牌，refresh 表示需要刷新令牌
+  tokenParam?: string | false;  // 令牌附加到地址的查询参数名，配置了 authMessage 时默认不附加，否则默认 'token'
+  authMessage?: (token: string | undefined) => any; // 连接建立后发送的认证帧
+  authAck?: AuthMatcher;        // 认证成功帧，默认 { type: 'auth_ok' }
+  authFailure?: AuthMatcher;    // 认证失败帧，默认 { type: 'auth_error' }
+  authTimeout?: number;         // 等待认证结果的超时时间（毫秒）
+  failureCodes?: number[];      // 表示认证失败的关闭代码
+}
+
+/**
+ * 认证管理类
+ */
+export class AuthManager {
+  private options: AuthOptions & { authAck: AuthMatcher; authFailure: AuthMatcher; authTimeout: number; failureCodes: number[] };
+  private token: string | undefined;
+  private needsRefresh = false; // 下次连接是否需要刷新令牌
+  private refreshed = false;    // 本轮认证失败是否已经刷新重试过
+  private rejected = false;     // 是否收到了认证失败帧
+
+  constructor(options: AuthOptions) {
+    this.options = {
+      authAck: { type: 'auth_ok' },
+      authFailure: { type: 'auth_error' },
+      authTimeout: 10000,
+      failureCodes: [4001],
+      ...options
+    };
+  }
+
+  /**
+   * 连接前是否需要异步解析地址
+   */
+  public get hasResolver(): boolean {
+    return !!(this.options.getUrl || this.options.getToken);
+  }
+
+  /**
+   * 连接建立后是否需要认证握手
+   */
+  public get requiresHandshake(): boolean {
+    return !!this.options.authMessage;
+  }
+
+  /**
+   * 等待认证结果的超时时间
+   */
+  public get timeout(): number {
+    return this.options.authTimeout;
+  }
+
+  /**
+   * 关闭连接时使用的认证失败代码
+   */
+  public get failureCode(): number {
+    return this.options.failureCodes[0] ?? 4001;
+  }
+
+  /**
+   * 解析本次连接的地址
+   * @param baseUrl 配置中的地址
+   * @returns 连接地址
+   */
+  public async resolveUrl(baseUrl: string): Promise<string> {
+    const refresh = this.needsRefresh;
+    let url = this.options.getUrl ? await this.options.getUrl(refresh) : baseUrl;
+
+    if (this.options.getToken) {
+      this.token = await this.options.getToken(refresh);
+
+      const param = this.options.tokenParam ?? (this.options.authMessage ? false : 'token');
+      if (param && this.token) {
+        const separator = url.includes('?') ? '&' : '?';
+        url = `${url}${separator}${encodeURIComponent(param)}=${encodeURIComponent(this.token)}`;
+      }
+    }
+
+    return url;
+  }
+
+  /**
+   * 生成认证帧
+   */
+  public handshakeFrame(): any {
+    return this.options.authMessage!(this.token);
+  }
+
+  /**
+   * 判断是否为认证成功帧
+   * @param data 已解析的消息
+   */
+  public isAck(data: any): boolean {
+    return this.matches(this.options.authAck, data);
+  }
+
+  /**
+   * 判断是否为认证失败帧，匹配时记录失败，连接关闭后按认证失败处理
+   * @param data 已解析的消息
+   */
+  public isFailure(data: any): boolean {
+    if (!this.matches(this.options.authFailure, data)) return false;
+    this.rejected = true;
+    return true;
+  }
+
+  /**
+   * 认证成功，重置刷新状态
+   */
+  public handleSuccess(): void {
+    this.needsRefresh = false;
+    this.refreshed = false;
+    this.rejected = false;
+  }
+
+  /**
+   * 关闭代码是否表示认证失败
+   * @param code 关闭代码
+   */
+  public isFailureCode(code: number): boolean {
+    return this.options.failureCodes.includes(code);
+  }
+
+  /**
+   * 连接关闭时判断是否因认证失败需要刷新令牌并立即重试（每轮失败只重试一次）
+   * @param code 关闭代码
+   * @returns 是否需要立即重试
+   */
+  public shouldRetry(code: number): boolean {
+    const failed = this.rejected || this.isFailureCode(code);
+    this.rejected = false;
+    if (!failed) return false;
+
+    this.needsRefresh = true;
+    if (this.refreshed) return false;
+
+    this.refreshed = true;
+    return true;
+  }
+
+  /**
+   * 按消息模板或判断函数匹配消息
+   * @private
+   */
+  private matches(matcher: AuthMatcher, data: any): boolean {
+    if (typeof matcher === 'function') {
+      try {
+        return !!matcher(data);
+      } catch {
+        return false;
+      }
+    }
+    return matchesShape(data, matcher);
+  }
+}
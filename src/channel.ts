@@ -0,0 +1,161 @@
+/**
+ * 频道订阅
+ * 向服务端发送订阅/退订帧，重连后自动恢复订阅，并将收到的消息分发到对应频道
+ */
+
+// 频道消息回调
+export type ChannelHandler<T = any> = (data: T) => void;
+
+// 频道配置
+export interface ChannelOptions {
+  joinMessage?: (channel: string, params?: any) => any; // 生成订阅帧
+  leaveMessage?: (channel: string) => any;              // 生成退订帧
+  channelKey?: string;                                  // 收到的消息中表示频道的字段名
+}
+
+// 订阅句柄
+export interface Subscription {
+  readonly channel: string;
+  unsubscribe(): void;
+}
+
+// 单个频道的订阅信息
+interface ChannelEntry {
+  params?: any;
+  handlers: { handler: ChannelHandler }[]; // 每次 subscribe 对应一项，用于引用计数
+}
+
+// 频道管理回调
+export interface ChannelHooks {
+  join: (channel: string, params: any, frame: any) => boolean;
+  leave: (channel: string, frame: any) => boolean;
+  canSend: () => boolean;
+  onError: (channel: string, error: any) => void;
+}
+
+/**
+ * 频道管理类
+ */
+export class ChannelManager {
+  private channels: Map<string, ChannelEntry> = new Map();
+  private options: Required<ChannelOptions>;
+
+  constructor(options: ChannelOptions, private hooks: ChannelHooks) {
+    this.options = {
+      joinMessage: (channel, params) => (params === undefined
+        ? { type: 'subscribe', channel }
+        : { type: 'subscribe', channel, params }),
+      leaveMessage: channel => ({ type: 'unsubscribe', channel }),
+      channelKey: 'channel',
+      ...options
+    };
+  }
+
+  /**
+   * 当前订阅的频道列表
+   */
+  public get active(): string[] {
+    return Array.from(this.channels.keys());
+  }
+
+  /**
+   * 订阅频道
+   * @param channel 频道名称
+   * @param handler 消息回调
+   * @param params 订阅参数，会传给 joinMessage
+   */
+  public subscribe(channel: string, handler: ChannelHandler, params?: any): Subscription {
+    let entry = this.channels.get(channel);
+    if (!entry) {
+      entry = { params, handlers: [] };
+      this.channels.set(channel, entry);
+
+      // 第一个订阅者才需要通知服务端，未连接时等待连接建立后统一订阅
+      if (this.hooks.canSend()) {
+        this.hooks.join(channel, params, this.options.joinMessage(channel, params));
+      }
+    }
+
+    const ref = { handler };
+    entry.handlers.push(ref);
+
+    let active = true;
+    return {
+      channel,
+      unsubscribe: () => {
+        if (!active) return;
+        active = false;
+        this.release(channel, ref);
+      }
+    };
+  }
+
+  /**
+   * 退订频道
+   * @param channel 频道名称
+   * @param handler 可选的回调函数，如不提供则移除该频道的所有订阅
+   */
+  public unsubscribe(channel: string, handler?: ChannelHandler): void {
+    const entry = this.channels.get(channel);
+    if (!entry) return;
+
+    entry.handlers
+      .filter(ref => !handler || ref.handler === handler)
+      .forEach(ref => this.release(channel, ref));
+  }
+
+  /**
+   * 连接建立后重新订阅所有频道
+   */
+  public resubscribeAll(): void {
+    this.channels.forEach((entry, channel) => {
+      this.hooks.join(channel, entry.params, this.options.joinMessage(channel, entry.params));
+    });
+  }
+
+  /**
+   * 将消息分发给对应频道的订阅者
+   * @param data 已解析的消息
+   * @returns 是否有频道处理了该消息
+   */
+  public dispatch(data: any): boolean {
+    if (!data || typeof data !== 'object') return false;
+
+    const channel = data[this.options.channelKey];
+    const entry = channel !== undefined ? this.channels.get(channel) : undefined;
+    if (!entry) return false;
+
+    entry.handlers.slice().forEach(ref => {
+      try {
+        ref.handler(data);
+      } catch (error) {
+        this.hooks.onError(channel, error);
+      }
+    });
+    return true;
+  }
+
+  /**
+   * 清除所有订阅（不通知服务端）
+   */
+  public clear(): void {
+    this.channels.clear();
+  }
+
+  /**
+   * 释放一个订阅，最后一个订阅者退订时通知服务端
+   * @private
+   */
+  private release(channel: string, ref: { handler: ChannelHandler }): void {
+    const entry = this.channels.get(channel);
+    if (!entry) return;
+
+    entry.handlers = entry.handlers.filter(item => item !== ref);
+    if (entry.handlers.length > 0) return;
+
+    this.channels.delete(channel);
+    if (this.hooks.canSend()) {
+      this.hooks.leave(channel, this.options.leaveMessage(channel));
+    }
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * 时钟
+ * SupaSocket 实例内的计时（心跳、各种超时、重连、流量控制、队列过期、重发、文件传输、地址切换和指标）都通过时钟完成，
+ * 测试时可以传入 supa-simple-socket/testing 的 ManualClock 手动推进时间
+ */
+
+// 定时器句柄
+export type TimerHandle = ReturnType<typeof setTimeout>;
+
+// 时钟接口
+export interface Clock {
+  now(): number;                                                  // 当前时间（毫秒）
+  setTimeout(callback: () => void, delay: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+  setInterval(callback: () => void, interval: number): TimerHandle;
+  clearInterval(handle: TimerHandle): void;
+}
+
+// 使用 Date.now 和全局定时器的默认时钟
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delay) => setTimeout(callback, delay),
+  clearTimeout: handle => clearTimeout(handle),
+  setInterval: (callback, interval) => setInterval(callback, interval),
+  clearInterval: handle => clearInterval(handle)
+};
@@ -0,0 +1,675 @@
+/**
+ * 消息编解码器
+ * 内置 JSON、MessagePack 和 CBOR 编解码器，也可以实现 Codec 接口自定义
+ */
+
+// 编码后的原始数据
+export type EncodedMessage = string | ArrayBuffer | Uint8Array;
+
+// 编解码器接口
+export interface Codec {
+  name: string;
+  binary: boolean; // 编码结果是否为二进制，二进制编解码器需要 binaryType 为 arraybuffer
+  encode(data: any): EncodedMessage;
+  decode(raw: EncodedMessage): any;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * 将原始数据转为 Uint8Array
+ * @private
+ */
+function toBytes(raw: EncodedMessage): Uint8Array {
+  if (typeof raw === 'string') return textEncoder.encode(raw);
+  if (raw instanceof Uint8Array) return raw;
+  return new Uint8Array(raw);
+}
+
+/**
+ * 可自动扩容的字节写入器
+ * @private
+ */
+class ByteWriter {
+  private buffer = new Uint8Array(256);
+  private view = new DataView(this.buffer.buffer);
+  private offset = 0;
+
+  public uint8(value: number): void {
+    this.ensure(1);
+    this.view.setUint8(this.offset, value);
+    this.offset += 1;
+  }
+
+  public uint16(value: number): void {
+    this.ensure(2);
+    this.view.setUint16(this.offset, value);
+    this.offset += 2;
+  }
+
+  public uint32(value: number): void {
+    this.ensure(4);
+    this.view.setUint32(this.offset, value);
+    this.offset += 4;
+  }
+
+  // 写入 64 位无符号整数（仅支持安全整数范围）
+  public uint64(value: number): void {
+    this.uint32(Math.floor(value / 0x100000000));
+    this.uint32(value >>> 0);
+  }
+
+  public int8(value: number): void {
+    this.ensure(1);
+    this.view.setInt8(this.offset, value);
+    this.offset += 1;
+  }
+
+  public int16(value: number): void {
+    this.ensure(2);
+    this.view.setInt16(this.offset, value);
+    this.offset += 2;
+  }
+
+  public int32(value: number): void {
+    this.ensure(4);
+    this.view.setInt32(this.offset, value);
+    this.offset += 4;
+  }
+
+  public float64(value: number): void {
+    this.ensure(8);
+    this.view.setFloat64(this.offset, value);
+    this.offset += 8;
+  }
+
+  public bytes(value: Uint8Array): void {
+    this.ensure(value.length);
+    this.buffer.set(value, this.offset);
+    this.offset += value.length;
+  }
+
+  public finish(): Uint8Array {
+    return this.buffer.slice(0, this.offset);
+  }
+
+  private ensure(size: number): void {
+    if (this.offset + size <= this.buffer.length) return;
+    let length = this.buffer.length * 2;
+    while (length < this.offset + size) length *= 2;
+    const next = new Uint8Array(length);
+    next.set(this.buffer);
+    this.buffer = next;
+    this.view = new DataView(next.buffer);
+  }
+}
+
+/**
+ * 字节读取器
+ * @private
+ */
+class ByteReader {
+  private view: DataView;
+  public offset = 0;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  public get done(): boolean {
+    return this.offset >= this.bytes.length;
+  }
+
+  public uint8(): number {
+    this.check(1);
+    return this.view.getUint8(this.offset++);
+  }
+
+  public uint16(): number {
+    this.check(2);
+    const value = this.view.getUint16(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  public uint32(): number {
+    this.check(4);
+    const value = this.view.getUint32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  public uint64(): number {
+    return this.uint32() * 0x100000000 + this.uint32();
+  }
+
+  public int8(): number {
+    this.check(1);
+    return this.view.getInt8(this.offset++);
+  }
+
+  public int16(): number {
+    this.check(2);
+    const value = this.view.getInt16(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  public int32(): number {
+    this.check(4);
+    const value = this.view.getInt32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  public int64(): number {
+    return this.int32() * 0x100000000 + this.uint32();
+  }
+
+  public float16(): number {
+    const half = this.uint16();
+    const exponent = (half >> 10) & 0x1f;
+    const mantissa = half & 0x3ff;
+    const sign = half & 0x8000 ? -1 : 1;
+    if (exponent === 0) return sign * Math.pow(2, -14) * (mantissa / 1024);
+    if (exponent === 0x1f) return mantissa ? NaN : sign * Infinity;
+    return sign * Math.pow(2, exponent - 15) * (1 + mantissa / 1024);
+  }
+
+  public float32(): number {
+    this.check(4);
+    const value = this.view.getFloat32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  public float64(): number {
+    this.check(8);
+    const value = this.view.getFloat64(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  public bytesOf(length: number): Uint8Array {
+    this.check(length);
+    const value = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  public text(length: number): string {
+    return textDecoder.decode(this.bytesOf(length));
+  }
+
+  private check(size: number): void {
+    if (this.offset + size > this.bytes.length) {
+      throw new Error('数据不完整，无法解码');
+    }
+  }
+}
+
+/**
+ * 将二进制类数据转为 Uint8Array，其他数据返回 null
+ * @private
+ */
+function asBinary(value: any): Uint8Array | null {
+  if (value instanceof Uint8Array) return value;
+  if (value instanceof ArrayBuffer) return new Uint8Array(value);
+  if (ArrayBuffer.isView(value)) return new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+  return null;
+}
+
+/**
+ * 获取对象中需要编码的键值对（与 JSON 一致，忽略 undefined 和函数）
+ * @private
+ */
+function entriesOf(value: Record<string, any>): [string, any][] {
+  return Object.keys(value)
+    .filter(key => value[key] !== undefined && typeof value[key] !== 'function')
+    .map(key => [key, value[key]] as [string, any]);
+}
+
+/**
+ * 写入解码得到的键值对，__proto__ 等键作为普通属性保存，不会修改对象的原型
+ * @private
+ */
+function setEntry(target: Record<string, any>, key: any, value: any): void {
+  Object.defineProperty(target, String(key), { value, enumerable: true, writable: true, configurable: true });
+}
+
+/**
+ * MessagePack 扩展类型数据
+ * 解码时时间戳扩展（类型 -1）转为 Date，其他扩展类型保留为该对象，编码时原样写回
+ */
+export class MessagePackExtension {
+  constructor(public type: number, public data: Uint8Array) {}
+}
+
+/**
+ * JSON 编解码器
+ */
+export const JsonCodec: Codec = {
+  name: 'json',
+  binary: false,
+  encode(data: any): EncodedMessage {
+    return JSON.stringify(data);
+  },
+  decode(raw: EncodedMessage): any {
+    return JSON.parse(typeof raw === 'string' ? raw : textDecoder.decode(toBytes(raw)));
+  }
+};
+
+/**
+ * MessagePack 编码
+ * @private
+ */
+function packValue(writer: ByteWriter, value: any): void {
+  if (value === null || value === undefined) {
+    writer.uint8(0xc0);
+    return;
+  }
+
+  if (typeof value === 'boolean') {
+    writer.uint8(value ? 0xc3 : 0xc2);
+    return;
+  }
+
+  if (typeof value === 'number') {
+    if (Number.isSafeInteger(value)) {
+      if (value >= 0) {
+        if (value < 0x80) writer.uint8(value);
+        else if (value <= 0xff) { writer.uint8(0xcc); writer.uint8(value); }
+        else if (value <= 0xffff) { writer.uint8(0xcd); writer.uint16(value); }
+        else if (value <= 0xffffffff) { writer.uint8(0xce); writer.uint32(value); }
+        else { writer.uint8(0xcf); writer.uint64(value); }
+      } else {
+        if (value >= -0x20) writer.int8(value);
+        else if (value >= -0x80) { writer.uint8(0xd0); writer.int8(value); }
+        else if (value >= -0x8000) { writer.uint8(0xd1); writer.int16(value); }
+        else if (value >= -0x80000000) { writer.uint8(0xd2); writer.int32(value); }
+        else { writer.uint8(0xcb); writer.float64(value); }
+      }
+    } else {
+      writer.uint8(0xcb);
+      writer.float64(value);
+    }
+    return;
+  }
+
+  if (typeof value === 'string') {
+    const bytes = textEncoder.encode(value);
+    const length = bytes.length;
+    if (length < 0x20) writer.uint8(0xa0 | length);
+    else if (length <= 0xff) { writer.uint8(0xd9); writer.uint8(length); }
+    else if (length <= 0xffff) { writer.uint8(0xda); writer.uint16(length); }
+    else { writer.uint8(0xdb); writer.uint32(length); }
+    writer.bytes(bytes);
+    return;
+  }
+
+  const binary = asBinary(value);
+  if (binary) {
+    const length = binary.length;
+    if (length <= 0xff) { writer.uint8(0xc4); writer.uint8(length); }
+    else if (length <= 0xffff) { writer.uint8(0xc5); writer.uint16(length); }
+    else { writer.uint8(0xc6); writer.uint32(length); }
+    writer.bytes(binary);
+    return;
+  }
+
+  if (value instanceof MessagePackExtension) {
+    packExt(writer, value);
+    return;
+  }
+
+  if (typeof value.toJSON === 'function') {
+    packValue(writer, value.toJSON());
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    const length = value.length;
+    if (length < 0x10) writer.uint8(0x90 | length);
+    else if (length <= 0xffff) { writer.uint8(0xdc); writer.uint16(length); }
+    else { writer.uint8(0xdd); writer.uint32(length); }
+    value.forEach(item => packValue(writer, item));
+    return;
+  }
+
+  if (typeof value === 'object') {
+    const entries = entriesOf(value);
+    const length = entries.length;
+    if (length < 0x10) writer.uint8(0x80 | length);
+    else if (length <= 0xffff) { writer.uint8(0xde); writer.uint16(length); }
+    else { writer.uint8(0xdf); writer.uint32(length); }
+    entries.forEach(([key, item]) => {
+      packValue(writer, key);
+      packValue(writer, item);
+    });
+    return;
+  }
+
+  throw new Error(`MessagePack 不支持的数据类型: ${typeof value}`);
+}
+
+/**
+ * MessagePack 解码
+ * @private
+ */
+function unpackValue(reader: ByteReader): any {
+  const byte = reader.uint8();
+
+  if (byte < 0x80) return byte;
+  if (byte >= 0xe0) return byte - 0x100;
+  if ((byte & 0xf0) === 0x80) return unpackMap(reader, byte & 0x0f);
+  if ((byte & 0xf0) === 0x90) return unpackArray(reader, byte & 0x0f);
+  if ((byte & 0xe0) === 0xa0) return reader.text(byte & 0x1f);
+
+  switch (byte) {
+    case 0xc0: return null;
+    case 0xc2: return false;
+    case 0xc3: return true;
+    case 0xc4: return reader.bytesOf(reader.uint8());
+    case 0xc5: return reader.bytesOf(reader.uint16());
+    case 0xc6: return reader.bytesOf(reader.uint32());
+    case 0xc7: return unpackExt(reader, reader.uint8());
+    case 0xc8: return unpackExt(reader, reader.uint16());
+    case 0xc9: return unpackExt(reader, reader.uint32());
+    case 0xca: return reader.float32();
+    case 0xcb: return reader.float64();
+    case 0xcc: return reader.uint8();
+    case 0xcd: return reader.uint16();
+    case 0xce: return reader.uint32();
+    case 0xcf: return reader.uint64();
+    case 0xd0: return reader.int8();
+    case 0xd1: return reader.int16();
+    case 0xd2: return reader.int32();
+    case 0xd3: return reader.int64();
+    case 0xd4: return unpackExt(reader, 1);
+    case 0xd5: return unpackExt(reader, 2);
+    case 0xd6: return unpackExt(reader, 4);
+    case 0xd7: return unpackExt(reader, 8);
+    case 0xd8: return unpackExt(reader, 16);
+    case 0xd9: return reader.text(reader.uint8());
+    case 0xda: return reader.text(reader.uint16());
+    case 0xdb: return reader.text(reader.uint32());
+    case 0xdc: return unpackArray(reader, reader.uint16());
+    case 0xdd: return unpackArray(reader, reader.uint32());
+    case 0xde: return unpackMap(reader, reader.uint16());
+    case 0xdf: return unpackMap(reader, reader.uint32());
+    default:
+      throw new Error(`MessagePack 不支持的类型标记: 0x${byte.toString(16)}`);
+  }
+}
+
+function unpackArray(reader: ByteReader, length: number): any[] {
+  const result: any[] = [];
+  for (let i = 0; i < length; i++) {
+    result.push(unpackValue(reader));
+  }
+  return result;
+}
+
+function unpackMap(reader: ByteReader, length: number): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (let i = 0; i < length; i++) {
+    const key = unpackValue(reader);
+    setEntry(result, key, unpackValue(reader));
+  }
+  return result;
+}
+
+/**
+ * MessagePack 扩展类型编码，定长的 fixext 优先
+ * @private
+ */
+function packExt(writer: ByteWriter, ext: MessagePackExtension): void {
+  const length = ext.data.length;
+  const fixed: Record<number, number> = { 1: 0xd4, 2: 0xd5, 4: 0xd6, 8: 0xd7, 16: 0xd8 };
+  if (fixed[length]) writer.uint8(fixed[length]);
+  else if (length <= 0xff) { writer.uint8(0xc7); writer.uint8(length); }
+  else if (length <= 0xffff) { writer.uint8(0xc8); writer.uint16(length); }
+  else { writer.uint8(0xc9); writer.uint32(length); }
+  writer.int8(ext.type);
+  writer.bytes(ext.data);
+}
+
+/**
+ * MessagePack 扩展类型解码
+ * @private
+ */
+function unpackExt(reader: ByteReader, length: number): any {
+  const type = reader.int8();
+  const data = reader.bytesOf(length);
+  return type === -1 ? unpackTimestamp(data) : new MessagePackExtension(type, data);
+}
+
+/**
+ * 时间戳扩展解码，支持 32、64、96 位三种格式（精度为毫秒）
+ * @private
+ */
+function unpackTimestamp(data: Uint8Array): Date {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let seconds: number;
+  let nanoseconds = 0;
+  if (data.length === 4) {
+    seconds = view.getUint32(0);
+  } else if (data.length === 8) {
+    const high = view.getUint32(0);
+    nanoseconds = high >>> 2;
+    seconds = (high & 0x3) * 0x100000000 + view.getUint32(4);
+  } else if (data.length === 12) {
+    nanoseconds = view.getUint32(0);
+    seconds = view.getInt32(4) * 0x100000000 + view.getUint32(8);
+  } else {
+    throw new Error(`MessagePack 无效的时间戳长度: ${data.length}`);
+  }
+  return new Date(seconds * 1000 + Math.floor(nanoseconds / 1e6));
+}
+
+/**
+ * MessagePack 编解码器
+ */
+export const MessagePackCodec: Codec = {
+  name: 'msgpack',
+  binary: true,
+  encode(data: any): EncodedMessage {
+    const writer = new ByteWriter();
+    packValue(writer, data);
+    return writer.finish();
+  },
+  decode(raw: EncodedMessage): any {
+    return unpackValue(new ByteReader(toBytes(raw)));
+  }
+};
+
+/**
+ * 写入 CBOR 头部（主类型 + 长度/数值）
+ * @private
+ */
+function cborHead(writer: ByteWriter, major: number, value: number): void {
+  const prefix = major << 5;
+  if (value < 24) writer.uint8(prefix | value);
+  else if (value <= 0xff) { writer.uint8(prefix | 24); writer.uint8(value); }
+  else if (value <= 0xffff) { writer.uint8(prefix | 25); writer.uint16(value); }
+  else if (value <= 0xffffffff) { writer.uint8(prefix | 26); writer.uint32(value); }
+  else { writer.uint8(prefix | 27); writer.uint64(value); }
+}
+
+/**
+ * CBOR 编码
+ * @private
+ */
+function cborEncodeValue(writer: ByteWriter, value: any): void {
+  if (value === null || value === undefined) {
+    writer.uint8(0xf6);
+    return;
+  }
+
+  if (typeof value === 'boolean') {
+    writer.uint8(value ? 0xf5 : 0xf4);
+    return;
+  }
+
+  if (typeof value === 'number') {
+    if (Number.isSafeInteger(value)) {
+      if (value >= 0) cborHead(writer, 0, value);
+      else cborHead(writer, 1, -1 - value);
+    } else {
+      writer.uint8(0xfb);
+      writer.float64(value);
+    }
+    return;
+  }
+
+  if (typeof value === 'string') {
+    const bytes = textEncoder.encode(value);
+    cborHead(writer, 3, bytes.length);
+    writer.bytes(bytes);
+    return;
+  }
+
+  const binary = asBinary(value);
+  if (binary) {
+    cborHead(writer, 2, binary.length);
+    writer.bytes(binary);
+    return;
+  }
+
+  if (typeof value.toJSON === 'function') {
+    cborEncodeValue(writer, value.toJSON());
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    cborHead(writer, 4, value.length);
+    value.forEach(item => cborEncodeValue(writer, item));
+    return;
+  }
+
+  if (typeof value === 'object') {
+    const entries = entriesOf(value);
+    cborHead(writer, 5, entries.length);
+    entries.forEach(([key, item]) => {
+      cborEncodeValue(writer, key);
+      cborEncodeValue(writer, item);
+    });
+    return;
+  }
+
+  throw new Error(`CBOR 不支持的数据类型: ${typeof value}`);
+}
+
+// 不定长数据的结束标记
+const CBOR_BREAK = {};
+
+/**
+ * 读取 CBOR 头部中的长度/数值，不定长时返回 -1
+ * @private
+ */
+function cborReadLength(reader: ByteReader, info: number): number {
+  if (info < 24) return info;
+  if (info === 24) return reader.uint8();
+  if (info === 25) return reader.uint16();
+  if (info === 26) return reader.uint32();
+  if (info === 27) return reader.uint64();
+  if (info === 31) return -1;
+  throw new Error(`CBOR 无效的附加信息: ${info}`);
+}
+
+/**
+ * CBOR 解码
+ * @private
+ */
+function cborDecodeValue(reader: ByteReader): any {
+  const byte = reader.uint8();
+  const major = byte >> 5;
+  const info = byte & 0x1f;
+
+  if (major === 7) {
+    switch (info) {
+      case 20: return false;
+      case 21: return true;
+      case 22: return null;
+      case 23: return undefined;
+      case 25: return reader.float16();
+      case 26: return reader.float32();
+      case 27: return reader.float64();
+      case 31: return CBOR_BREAK;
+      default:
+        if (info < 24) return info;
+        if (info === 24) return reader.uint8();
+        throw new Error(`CBOR 不支持的简单值: ${info}`);
+    }
+  }
+
+  const length = cborReadLength(reader, info);
+
+  switch (major) {
+    case 0:
+      return length;
+    case 1:
+      return -1 - length;
+    case 2:
+    case 3: {
+      if (length >= 0) {
+        return major === 2 ? reader.bytesOf(length) : reader.text(length);
+      }
+      // 不定长字节串/文本串由多个定长片段组成
+      const chunks: Uint8Array[] = [];
+      for (;;) {
+        const chunk = cborDecodeValue(reader);
+        if (chunk === CBOR_BREAK) break;
+        chunks.push(typeof chunk === 'string' ? textEncoder.encode(chunk) : chunk);
+      }
+      const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+      const joined = new Uint8Array(total);
+      let offset = 0;
+      chunks.forEach(chunk => {
+        joined.set(chunk, offset);
+        offset += chunk.length;
+      });
+      return major === 2 ? joined : textDecoder.decode(joined);
+    }
+    case 4: {
+      const result: any[] = [];
+      for (let i = 0; length < 0 || i < length; i++) {
+        const item = cborDecodeValue(reader);
+        if (length < 0 && item === CBOR_BREAK) break;
+        result.push(item);
+      }
+      return result;
+    }
+    case 5: {
+      const result: Record<string, any> = {};
+      for (let i = 0; length < 0 || i < length; i++) {
+        const key = cborDecodeValue(reader);
+        if (length < 0 && key === CBOR_BREAK) break;
+        setEntry(result, key, cborDecodeValue(reader));
+      }
+      return result;
+    }
+    case 6:
+      // 标签：忽略标签号，返回被标记的数据
+      return cborDecodeValue(reader);
+    default:
+      throw new Error(`CBOR 不支持的主类型: ${major}`);
+  }
+}
+
+/**
+ * CBOR 编解码器
+ */
+export const CborCodec: Codec = {
+  name: 'cbor',
+  binary: true,
+  encode(data: any): EncodedMessage {
+    const writer = new ByteWriter();
+    cborEncodeValue(writer, data);
+    return writer.finish();
+  },
+  decode(raw: EncodedMessage): any {
+    return cborDecodeValue(new ByteReader(toBytes(raw)));
+  }
+};
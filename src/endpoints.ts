@@ -0,0 +1,438 @@
+/**
+ * 多地址切换
+ * 每次连接前按策略选择地址，连续失败的地址进入冷却期，
+ * 连接到备用地址后定期检查首选地址，恢复后切换回去
+ */
+
+import { WebSocketLike } from './runtime.js';
+import { Clock, TimerHandle, systemClock } from './clock.js';
+
+// 地址来源：地址列表或异步解析函数（例如服务发现）
+export type EndpointSource = string[] | (() => string[] | Promise<string[]>);
+
+// 选择策略
+export type EndpointStrategy = 'failover' | 'round-robin' | 'random' | 'lowest-latency';
+
+// 切换原因
+export type EndpointChangeReason =
+  | 'initial'    // 首次连接
+  | 'failure'    // 当前地址连接失败
+  | 'rotation'   // 轮询策略切换到下一个地址
+  | 'latency'    // 其他地址的时延更低
+  | 'recovered'  // 首选地址已恢复
+  | 'removed';   // 当前地址不在新解析的地址列表中
+
+// 地址切换配置
+export interface EndpointOptions {
+  strategy?: EndpointStrategy;  // 选择策略，默认按顺序故障转移
+  failureThreshold?: number;    // 连续失败多少次后进入冷却期
+  cooldown?: number;            // 冷却时间（毫秒），冷却期内不会被选择（所有地址都在冷却时除外）
+  recheckInterval?: number;     // 连接到非首选地址时检查首选地址的间隔（毫秒），0 表示不检查
+  probe?: (url: string) => Promise<number>; // 测量地址的时延，默认建立一次 WebSocket 连接并计时
+  probeTimeout?: number;        // 默认测量方式的超时时间（毫秒）
+}
+
+// 地址状态
+export interface EndpointStatus {
+  url: string;
+  healthy: boolean;            // 是否不在冷却期
+  failures: number;            // 连续失败次数
+  cooldownUntil: number | null; // 冷却结束时间
+  latency: number | null;      // 最近一次测量的时延
+}
+
+// 地址切换的回调
+export interface EndpointHooks {
+  onChange: (from: string | null, to: string, reason: EndpointChangeReason) => void;
+  onRecover: (url: string, reason: EndpointChangeReason) => void; // 检查到更合适的地址，需要断开并重新连接
+  onError: (error: any) => void;
+  createSocket: (url: string) => WebSocketLike;
+}
+
+// 时延更低的地址至少要快这么多才会切换，避免在时延接近的地址之间来回切换
+const LATENCY_SWITCH_RATIO = 0.8;
+
+/**
+ * 地址管理类
+ */
+export class EndpointManager {
+  private options: Required<Omit<EndpointOptions, 'probe'>> & Pick<EndpointOptions, 'probe'>;
+  private urls: string[] = [];
+  private states: Map<string, { failures: number; cooldownUntil: number | null; latency: number | null }> = new Map();
+  private currentUrl: string | null = null;
+  private pending: { url: string; reason: EndpointChangeReason } | null = null; // 检查后确定的下一个地址
+  private recheckTimer: TimerHandle | null = null;
+  private connected = false; // 当前地址是否已连接
+
+  /**
+   * @param source 地址列表或解析函数
+   * @param options 切换配置
+   * @param hooks 切换回调
+   * @param clock 冷却、检查和测量使用的时钟
+   */
+  constructor(
+    private source: EndpointSource,
+    options: EndpointOptions,
+    private hooks: EndpointHooks,
+    private clock: Clock = systemClock
+  ) {
+    this.options = {
+      strategy: 'failover',
+      failureThreshold: 3,
+      cooldown: 30000,
+      recheckInterval: 60000,
+      probeTimeout: 5000,
+      ...options
+    };
+    if (Array.isArray(source)) {
+      this.urls = source.slice();
+    }
+  }
+
+  /**
+   * 当前使用的地址
+   */
+  public get current(): string | null {
+    return this.currentUrl;
+  }
+
+  /**
+   * 所有地址的状态
+   */
+  public get status(): EndpointStatus[] {
+    const now = this.clock.now();
+    return this.urls.map(url => {
+      const state = this.state(url);
+      return {
+        url,
+        healthy: state.cooldownUntil === null || state.cooldownUntil <= now,
+        failures: state.failures,
+        cooldownUntil: state.cooldownUntil,
+        latency: state.latency
+      };
+    });
+  }
+
+  /**
+   * 选择本次连接的地址
+   * @returns 连接地址
+   */
+  public async select(): Promise<string> {
+    await this.resolve();
+    if (this.urls.length === 0) {
+      throw new Error('没有可用的连接地址');
+    }
+
+    const previous = this.currentUrl;
+    let next: string;
+    let reason: EndpointChangeReason;
+
+    if (this.pending && this.urls.includes(this.pending.url)) {
+      ({ url: next, reason } = this.pending);
+    } else if (previous === null) {
+      next = await this.choose(null);
+      reason = 'initial';
+    } else if (!this.urls.includes(previous)) {
+      next = await this.choose(null);
+      reason = 'removed';
+    } else if (this.state(previous).failures > 0) {
+      next = await this.choose(previous);
+      reason = 'failure';
+    } else if (this.options.strategy === 'round-robin') {
+      next = this.after(previous, this.candidates());
+      reason = 'rotation';
+    } else {
+      // 当前地址正常，继续使用
+      next = previous;
+      reason = 'initial';
+    }
+    this.pending = null;
+
+    this.currentUrl = next;
+    if (next !== previous) {
+      this.hooks.onChange(previous, next, reason);
+    }
+    return next;
+  }
+
+  /**
+   * 当前地址连接成功
+   */
+  public reportSuccess(): void {
+    if (!this.currentUrl) return;
+    const state = this.state(this.currentUrl);
+    state.failures = 0;
+    state.cooldownUntil = null;
+    this.connected = true;
+    this.scheduleRecheck();
+  }
+
+  /**
+   * 当前地址连接失败，连续失败达到阈值时进入冷却期
+   */
+  public reportFailure(): void {
+    this.connected = false;
+    this.stopRecheck();
+    if (!this.currentUrl) return;
+    const state = this.state(this.currentUrl);
+    state.failures++;
+    if (state.failures >= this.options.failureThreshold) {
+      state.cooldownUntil = this.clock.now() + this.options.cooldown;
+    }
+  }
+
+  /**
+   * 连接断开，停止检查首选地址
+   */
+  public disconnected(): void {
+    this.connected = false;
+    this.stopRecheck();
+  }
+
+  /**
+   * 释放资源
+   */
+  public dispose(): void {
+    this.connected = false;
+    this.stopRecheck();
+    this.pending = null;
+  }
+
+  /**
+   * 重新解析地址列表，解析失败时继续使用上次的列表
+   * @private
+   */
+  private async resolve(): Promise<void> {
+    if (Array.isArray(this.source)) return;
+    try {
+      const urls = await this.source();
+      if (Array.isArray(urls) && urls.length > 0) {
+        this.urls = urls.slice();
+      }
+    } catch (error) {
+      if (this.urls.length === 0) throw error;
+      this.hooks.onError(error);
+    }
+  }
+
+  /**
+   * 按策略选择一个地址
+   * @param failed 连接失败的地址，尽量不再选择
+   * @private
+   */
+  private async choose(failed: string | null): Promise<string> {
+    const candidates = this.candidates();
+    const others = failed ? candidates.filter(url => url !== failed) : candidates;
+    const pool = others.length > 0 ? others : candidates;
+
+    switch (this.options.strategy) {
+      case 'random':
+        return pool[Math.floor(Math.random() * pool.length)];
+      case 'lowest-latency': {
+        const fastest = await this.fastest(pool);
+        if (fastest) return fastest;
+        break;
+      }
+    }
+
+    // 故障转移和轮询：按顺序使用失败地址之后的下一个地址
+    return failed ? this.after(failed, candidates) : pool[0];
+  }
+
+  /**
+   * 可选择的地址：不在冷却期的地址，全部在冷却期时按冷却结束时间排序
+   * @private
+   */
+  private candidates(): string[] {
+    const now = this.clock.now();
+    const healthy = this.urls.filter(url => {
+      const { cooldownUntil } = this.state(url);
+      return cooldownUntil === null || cooldownUntil <= now;
+    });
+    if (healthy.length > 0) return healthy;
+
+    return this.urls.slice().sort((a, b) => this.state(a).cooldownUntil! - this.state(b).cooldownUntil!);
+  }
+
+  /**
+   * 按地址列表的顺序获取指定地址之后的下一个候选地址
+   * @private
+   */
+  private after(url: string, candidates: string[]): string {
+    const index = this.urls.indexOf(url);
+    for (let i = 1; i <= this.urls.length; i++) {
+      const next = this.urls[(index + i) % this.urls.length];
+      if (candidates.includes(next)) return next;
+    }
+    return candidates[0];
+  }
+
+  /**
+   * 测量所有地址的时延，返回最快的地址，全部失败时返回 null
+   * @private
+   */
+  private async fastest(urls: string[]): Promise<string | null> {
+    const results = await Promise.all(urls.map(url => this.measure(url)));
+    let best: string | null = null;
+    let bestLatency = Infinity;
+    results.forEach((latency, index) => {
+      if (latency !== null && latency < bestLatency) {
+        best = urls[index];
+        bestLatency = latency;
+      }
+    });
+    return best;
+  }
+
+  /**
+   * 测量地址的时延，失败时计为一次失败
+   * @private
+   */
+  private async measure(url: string): Promise<number | null> {
+    const state = this.state(url);
+    try {
+      const latency = await (this.options.probe ? this.options.probe(url) : this.probe(url));
+      state.latency = latency;
+      return latency;
+    } catch (error) {
+      state.latency = null;
+      state.failures++;
+      if (state.failures >= this.options.failureThreshold) {
+        state.cooldownUntil = this.clock.now() + this.options.cooldown;
+      }
+      return null;
+    }
+  }
+
+  /**
+   * 默认的时延测量：建立一次 WebSocket 连接，计算连接建立的时间
+   * @private
+   */
+  private probe(url: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const start = this.clock.now();
+      let socket: WebSocketLike;
+      try {
+        socket = this.hooks.createSocket(url);
+      } catch (error) {
+        reject(error);
+        return;
+      }
+
+      const timer = this.clock.setTimeout(() => finish(new Error('测量超时')), this.options.probeTimeout);
+      const finish = (error?: Error) => {
+        this.clock.clearTimeout(timer);
+        socket.onopen = socket.onerror = socket.onclose = null;
+        try {
+          socket.close();
+        } catch (e) {
+          // 忽略关闭错误
+        }
+        if (error) {
+          reject(error);
+        } else {
+          resolve(this.clock.now() - start);
+        }
+      };
+
+      socket.onopen = () => finish();
+      socket.onerror = () => finish(new Error('测量连接失败'));
+      socket.onclose = () => finish(new Error('测量连接已关闭'));
+    });
+  }
+
+  /**
+   * 连接到非首选地址时，定期检查是否有更合适的地址
+   * @private
+   */
+  private scheduleRecheck(): void {
+    this.stopRecheck();
+    const { strategy, recheckInterval } = this.options;
+    if (recheckInterval <= 0 || (strategy !== 'failover' && strategy !== 'lowest-latency')) return;
+    if (strategy === 'failover' && this.urls[0] === this.currentUrl) return;
+
+    this.recheckTimer = this.clock.setTimeout(() => {
+      this.recheckTimer = null;
+      this.recheck().then(found => {
+        if (!found) this.scheduleRecheck();
+      });
+    }, recheckInterval);
+  }
+
+  /**
+   * 检查更合适的地址，找到时通知重新连接
+   * @returns 是否找到
+   * @private
+   */
+  private async recheck(): Promise<boolean> {
+    const current = this.currentUrl;
+    if (!current) return false;
+
+    if (this.options.strategy === 'failover') {
+      // 按顺序测量当前地址之前、已过冷却期的地址，第一个可以连接的就是首选地址
+      const now = this.clock.now();
+      const preferred = this.urls.slice(0, this.urls.indexOf(current)).filter(url => {
+        const { cooldownUntil } = this.state(url);
+        return cooldownUntil === null || cooldownUntil <= now;
+      });
+      for (const url of preferred) {
+        if (await this.measure(url) !== null) {
+          return this.switchTo(current, url, 'recovered');
+        }
+      }
+      return false;
+    }
+
+    const candidates = this.candidates();
+    const latencies = await Promise.all(candidates.map(url => this.measure(url)));
+    const currentLatency = latencies[candidates.indexOf(current)];
+    let best: string | null = null;
+    let bestLatency = Infinity;
+    latencies.forEach((latency, index) => {
+      if (latency !== null && latency < bestLatency) {
+        best = candidates[index];
+        bestLatency = latency;
+      }
+    });
+
+    if (!best || best === current) return false;
+    if (currentLatency !== null && currentLatency !== undefined && bestLatency > currentLatency * LATENCY_SWITCH_RATIO) {
+      return false;
+    }
+    return this.switchTo(current, best, 'latency');
+  }
+
+  /**
+   * 记录下一个地址并通知重新连接
+   * @private
+   */
+  private switchTo(current: string, url: string, reason: EndpointChangeReason): boolean {
+    // 检查期间已断开或切换了地址
+    if (!this.connected || this.currentUrl !== current) return false;
+    this.pending = { url, reason };
+    this.hooks.onRecover(url, reason);
+    return true;
+  }
+
+  /**
+   * 停止检查
+   * @private
+   */
+  private stopRecheck(): void {
+    if (this.recheckTimer) {
+      this.clock.clearTimeout(this.recheckTimer);
+      this.recheckTimer = null;
+    }
+  }
+
+  /**
+   * 获取或创建地址状态
+   * @private
+   */
+  private state(url: string) {
+    if (!this.states.has(url)) {
+      this.states.set(url, { failures: 0, cooldownUntil: null, latency: null });
+    }
+    return this.states.get(url)!;
+  }
+}
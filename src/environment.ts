@@ -0,0 +1,109 @@
+/**
+ * 运行环境感知
+ * 监听浏览器的网络状态（online/offline）和页面可见性（visibilitychange）
+ */
+
+// 页面隐藏时的心跳处理方式
+export type HiddenHeartbeatMode = 'slow' | 'suspend';
+
+// 环境感知配置
+export interface EnvironmentOptions {
+  network?: boolean;                     // 离线时暂停重连，恢复在线时立即重连
+  visibility?: boolean;                  // 页面隐藏时降低或暂停心跳
+  hiddenHeartbeat?: HiddenHeartbeatMode; // 页面隐藏时的心跳处理方式
+  hiddenHeartbeatInterval?: number;      // slow 模式下的心跳间隔（毫秒）
+  pingOnVisible?: boolean;               // 页面恢复可见时是否立即发送心跳确认连接
+}
+
+// 环境变化回调
+export interface EnvironmentHooks {
+  onOnline: () => void;
+  onOffline: () => void;
+  onHidden: () => void;
+  onVisible: () => void;
+}
+
+/**
+ * 环境感知类
+ */
+export class EnvironmentMonitor {
+  private options: Required<EnvironmentOptions>;
+  private listeners: { target: EventTarget; type: string; listener: () => void }[] = [];
+
+  constructor(options: EnvironmentOptions, private hooks: EnvironmentHooks) {
+    this.options = {
+      network: true,
+      visibility: true,
+      hiddenHeartbeat: 'slow',
+      hiddenHeartbeatInterval: 120000,
+      pingOnVisible: true,
+      ...options
+    };
+
+    if (this.options.network && typeof window !== 'undefined' && typeof window.addEventListener === 'function') {
+      this.listen(window, 'online', () => this.hooks.onOnline());
+      this.listen(window, 'offline', () => this.hooks.onOffline());
+    }
+
+    if (this.options.visibility && typeof document !== 'undefined' && typeof document.addEventListener === 'function') {
+      this.listen(document, 'visibilitychange', () => {
+        if (document.visibilityState === 'hidden') {
+          this.hooks.onHidden();
+        } else {
+          this.hooks.onVisible();
+        }
+      });
+    }
+  }
+
+  /**
+   * 当前是否在线（无法判断时视为在线）
+   */
+  public get isOnline(): boolean {
+    if (!this.options.network || typeof navigator === 'undefined' || typeof navigator.onLine !== 'boolean') {
+      return true;
+    }
+    return navigator.onLine;
+  }
+
+  /**
+   * 当前页面是否隐藏
+   */
+  public get isHidden(): boolean {
+    if (!this.options.visibility || typeof document === 'undefined') {
+      return false;
+    }
+    return document.visibilityState === 'hidden';
+  }
+
+  /**
+   * 页面隐藏时的心跳间隔，0 表示暂停心跳
+   */
+  public get hiddenHeartbeatInterval(): number {
+    return this.options.hiddenHeartbeat === 'suspend' ? 0 : this.options.hiddenHeartbeatInterval;
+  }
+
+  /**
+   * 页面恢复可见时是否立即发送心跳
+   */
+  public get pingOnVisible(): boolean {
+    return this.options.pingOnVisible;
+  }
+
+  /**
+   * 移除所有监听
+   */
+  public dispose(): void {
+    this.listeners.forEach(({ target, type, listener }) => target.removeEventListener(type, listener));
+    this.listeners = [];
+  }
+
+  /**
+   * 添加监听并记录，便于移除
+   * @private
+   */
+  private listen(target: EventTarget, type: string, listener: () => void): void {
+    target.addEventListener(type, listener);
+    this.listeners.push({ target, type, listener });
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * 错误类型
+ * 所有错误都继承 SupaSocketError，通过稳定的 code 区分，原始错误保存在 cause 中；
+ * type 字段保留旧版 error 事件的 { type, error } 格式，便于迁移
+ */
+
+import { RequestErrorCode } from './rpc.js';
+import { MiddlewareDirection } from './middleware.js';
+import { ValidationError } from './validation.js';
+import { FileTransferError } from './transfer.js';
+import { BinarySource } from './runtime.js';
+
+// 错误代码
+export type SupaSocketErrorCode =
+  | 'CONNECTION_FAILED'   // 连接出错或无法创建连接
+  | 'CONNECTION_TIMEOUT'  // 连接超时
+  | 'RECONNECT_FAILED'    // 放弃重连
+  | 'CLOSED'              // 连接已关闭或实例已销毁
+  | 'PROTOCOL_CLOSE'      // 连接因异常的关闭代码断开
+  | 'HANDSHAKE_FAILED'    // 认证失败、认证超时或无法解析令牌
+  | 'SEND_FAILED'         // 发送失败
+  | 'DECODE_FAILED'       // 收到的消息无法处理
+  | 'MIDDLEWARE_FAILED'   // 中间件出错
+  | 'VALIDATION_FAILED'   // 消息校验失败
+  | 'STORAGE_FAILED'      // 队列或事件ID存储出错
+  | 'ENDPOINT_FAILED'     // 无法解析地址列表
+  | 'STREAM_OVERFLOW'     // 消息流缓冲区已满
+  | 'TRANSFER_FAILED'     // 文件传输失败
+  | 'WAIT_TIMEOUT'        // ready()/waitFor()/close() 等待超时
+  | RequestErrorCode;     // 请求失败
+
+// 错误的附加信息
+export interface SupaSocketErrorOptions {
+  cause?: unknown;  // 原始错误
+  data?: any;       // 相关的消息
+}
+
+/**
+ * 错误基类
+ */
+export class SupaSocketError extends Error {
+  public readonly cause?: unknown;
+  public readonly data?: any;
+
+  constructor(
+    public readonly code: SupaSocketErrorCode,
+    public readonly type: string,
+    message: string,
+    options: SupaSocketErrorOptions = {}
+  ) {
+    super(message);
+    this.name = 'SupaSocketError';
+    this.cause = options.cause;
+    this.data = options.data;
+  }
+
+  /**
+   * 旧版 { type, error } 格式中的 error：原始错误，没有时为错误本身
+   */
+  public get error(): unknown {
+    return this.cause ?? this;
+  }
+}
+
+// 连接错误代码
+export type ConnectionErrorCode = 'RECONNECT_FAILED' | 'CONNECTION_TIMEOUT' | 'CLOSED';
+
+/**
+ * 连接错误，ready()/connect() 无法等到连接建立时抛出
+ */
+export class ConnectionError extends SupaSocketError {
+  declare public readonly code: ConnectionErrorCode;
+
+  constructor(code: ConnectionErrorCode, message: string, public detail?: any, cause?: unknown) {
+    super(code, 'connectionError', message, { cause });
+    this.name = 'ConnectionError';
+  }
+}
+
+/**
+ * 连接超时
+ */
+export class ConnectionTimeoutError extends ConnectionError {
+  declare public readonly code: 'CONNECTION_TIMEOUT';
+
+  constructor(public readonly url: string, public readonly timeout: number | undefined) {
+    super('CONNECTION_TIMEOUT', `连接超时: ${url}`, { url, timeout });
+    this.name = 'ConnectionTimeoutError';
+  }
+}
+
+/**
+ * 连接出错（WebSocket 的 error 事件）或无法创建连接
+ */
+export class ConnectionFailedError extends SupaSocketError {
+  declare public readonly code: 'CONNECTION_FAILED';
+  declare public readonly type: 'connectionError' | 'initError';
+
+  constructor(message: string, type: 'connectionError' | 'initError', cause?: unknown) {
+    super('CONNECTION_FAILED', type, message, { cause });
+    this.name = 'ConnectionFailedError';
+  }
+}
+
+/**
+ * 等待超时（ready、waitFor、close、sendAsync 等），name 与 DOMException 的 TimeoutError 相同
+ */
+export class TimeoutError extends SupaSocketError {
+  declare public readonly code: 'WAIT_TIMEOUT';
+
+  constructor(public readonly timeout: number, message: string = '等待超时') {
+    super('WAIT_TIMEOUT', 'timeoutError', message, { data: { timeout } });
+    this.name = 'TimeoutError';
+  }
+}
+
+// 关闭代码说明
+export interface CloseCodeInfo {
+  name: string;
+  description: string;
+  normal: boolean;  // 是否为正常关闭
+}
+
+// RFC 6455 第 7.4.1 节定义的关闭代码
+export const CLOSE_CODES: Record<number, CloseCodeInfo> = {
+  1000: { name: 'NORMAL_CLOSURE', description: '正常关闭', normal: true },
+  1001: { name: 'GOING_AWAY', description: '终端离开（服务端关闭或页面跳转）', normal: true },
+  1002: { name: 'PROTOCOL_ERROR', description: '协议错误', normal: false },
+  1003: { name: 'UNSUPPORTED_DATA', description: '收到不支持的数据类型', normal: false },
+  1005: { name: 'NO_STATUS_RECEIVED', description: '没有收到关闭代码', normal: true },
+  1006: { name: 'ABNORMAL_CLOSURE', description: '连接异常断开', normal: false },
+  1007: { name: 'INVALID_PAYLOAD', description: '消息数据与类型不符', normal: false },
+  1008: { name: 'POLICY_VIOLATION', description: '违反策略', normal: false },
+  1009: { name: 'MESSAGE_TOO_BIG', description: '消息过大', normal: false },
+  1010: { name: 'MANDATORY_EXTENSION', description: '服务端不支持客户端要求的扩展', normal: false },
+  1011: { name: 'INTERNAL_ERROR', description: '服务端内部错误', normal: false },
+  1012: { name: 'SERVICE_RESTART', description: '服务重启', normal: false },
+  1013: { name: 'TRY_AGAIN_LATER', description: '服务暂时过载', normal: false },
+  1014: { name: 'BAD_GATEWAY', description: '网关错误', normal: false },
+  1015: { name: 'TLS_HANDSHAKE', description: 'TLS 握手失败', normal: false }
+};
+
+/**
+ * 获取关闭代码的说明
+ * @param code 关闭代码
+ */
+export function describeCloseCode(code: number): CloseCodeInfo {
+  if (CLOSE_CODES[code]) return CLOSE_CODES[code];
+  if (code >= 4000 && code <= 4999) {
+    return { name: 'APPLICATION', description: `应用自定义关闭代码 ${code}`, normal: false };
+  }
+  if (code >= 3000 && code <= 3999) {
+    return { name: 'REGISTERED', description: `已注册的关闭代码 ${code}`, normal: false };
+  }
+  return { name: 'UNKNOWN', description: `未知关闭代码 ${code}`, normal: false };
+}
+
+/**
+ * 连接因异常的关闭代码断开
+ */
+export class ProtocolCloseError extends SupaSocketError {
+  declare public readonly code: 'PROTOCOL_CLOSE';
+  public readonly closeName: string;
+
+  constructor(
+    public readonly closeCode: number,
+    public readonly closeReason: string,
+    public readonly wasClean: boolean
+  ) {
+    const info = describeCloseCode(closeCode);
+    super('PROTOCOL_CLOSE', 'closeError', `连接关闭: ${closeCode} ${info.description}${closeReason ? ` (${closeReason})` : ''}`);
+    this.name = 'ProtocolCloseError';
+    this.closeName = info.name;
+  }
+}
+
+/**
+ * 认证失败、认证超时或无法解析连接地址和令牌
+ */
+export class HandshakeError extends SupaSocketError {
+  declare public readonly code: 'HANDSHAKE_FAILED';
+
+  constructor(message: string, options: SupaSocketErrorOptions = {}) {
+    super('HANDSHAKE_FAILED', 'authError', message, options);
+    this.name = 'HandshakeError';
+  }
+}
+
+/**
+ * 发送失败
+ */
+export class SendError extends SupaSocketError {
+  declare public readonly code: 'SEND_FAILED';
+  declare public readonly type: 'sendError' | 'fileSendError';
+  public readonly file?: BinarySource;  // 发送失败的文件
+
+  constructor(message: string, options: SupaSocketErrorOptions & { file?: BinarySource } = {}) {
+    super('SEND_FAILED', options.file ? 'fileSendError' : 'sendError', message, options);
+    this.name = 'SendError';
+    this.file = options.file;
+  }
+}
+
+/**
+ * 收到的消息无法处理（解码或分发出错）
+ */
+export class DecodeError extends SupaSocketError {
+  declare public readonly code: 'DECODE_FAILED';
+
+  constructor(message: string, public readonly raw: any, cause?: unknown) {
+    super('DECODE_FAILED', 'messageError', message, { cause });
+    this.name = 'DecodeError';
+  }
+}
+
+/**
+ * 中间件出错
+ */
+export class MiddlewareError extends SupaSocketError {
+  declare public readonly code: 'MIDDLEWARE_FAILED';
+
+  constructor(public readonly direction: MiddlewareDirection, cause: unknown, data: any) {
+    super('MIDDLEWARE_FAILED', 'middlewareError', `中间件处理错误(${direction})`, { cause, data });
+    this.name = 'MiddlewareError';
+  }
+}
+
+/**
+ * 队列或事件ID存储出错
+ */
+export class StorageError extends SupaSocketError {
+  declare public readonly code: 'STORAGE_FAILED';
+  declare public readonly type: 'queueStorageError' | 'resumeStorageError';
+
+  constructor(type: 'queueStorageError' | 'resumeStorageError', cause: unknown) {
+    super('STORAGE_FAILED', type, type === 'queueStorageError' ? '消息队列存储错误' : '事件ID存储错误', { cause });
+    this.name = 'StorageError';
+  }
+}
+
+/**
+ * 无法解析地址列表
+ */
+export class EndpointError extends SupaSocketError {
+  declare public readonly code: 'ENDPOINT_FAILED';
+
+  constructor(cause: unknown) {
+    super('ENDPOINT_FAILED', 'endpointError', '解析地址列表失败', { cause });
+    this.name = 'EndpointError';
+  }
+}
+
+// error 事件的数据，通过 code 区分
+export type SupaSocketErrorEvent =
+  | ConnectionFailedError
+  | ConnectionTimeoutError
+  | ProtocolCloseError
+  | HandshakeError
+  | SendError
+  | DecodeError
+  | MiddlewareError
+  | ValidationError
+  | StorageError
+  | EndpointError
+  | FileTransferError;
@@ -0,0 +1,252 @@
+/**
+ * 发送流量控制
+ * 根据 WebSocket 的 bufferedAmount 判断是否拥塞：超过高水位后暂停发送，降到低水位以下时恢复并触发 drain；
+ * 可选的令牌桶限制每秒发送的消息数和字节数，避免触发服务端的限流断开
+ */
+
+import { Clock, TimerHandle, systemClock } from './clock.js';
+
+// 速率限制配置
+export interface RateLimitOptions {
+  messagesPerSecond?: number;  // 每秒最多发送的消息数
+  bytesPerSecond?: number;     // 每秒最多发送的字节数
+  burst?: number;              // 允许突发的时长（秒），令牌桶容量为速率 × burst，默认 1
+}
+
+// 流量控制配置
+export interface FlowControlOptions {
+  highWaterMark?: number;      // bufferedAmount 超过该值时暂停发送（字节），默认 1MB
+  lowWaterMark?: number;       // 暂停后 bufferedAmount 降到该值以下时恢复发送（字节），默认 256KB
+  checkInterval?: number;      // 等待缓冲区排空时检查 bufferedAmount 的间隔（毫秒），默认 50
+  rateLimit?: RateLimitOptions;
+}
+
+// 流量控制回调
+export interface FlowHooks {
+  bufferedAmount: () => number;
+  onDrain: (bufferedAmount: number) => void;  // 拥塞解除
+  onWritable: () => void;                     // 可以继续发送（拥塞解除或令牌恢复）
+}
+
+/**
+ * 令牌桶
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updated: number;
+
+  /**
+   * @param rate 每秒补充的令牌数
+   * @param capacity 桶容量
+   * @param threshold 令牌不少于该值时允许发送（字节桶为 0，允许一次发送超过剩余令牌）
+   * @param clock 计时使用的时钟
+   */
+  constructor(private rate: number, private capacity: number, private threshold: number, private clock: Clock = systemClock) {
+    this.tokens = capacity;
+    this.updated = clock.now();
+  }
+
+  /**
+   * 当前是否允许发送
+   */
+  public get ready(): boolean {
+    this.refill();
+    return this.tokens >= this.threshold;
+  }
+
+  /**
+   * 距离允许发送还需等待的时间（毫秒）
+   */
+  public get waitTime(): number {
+    this.refill();
+    return this.tokens >= this.threshold ? 0 : Math.ceil(((this.threshold - this.tokens) / this.rate) * 1000);
+  }
+
+  /**
+   * 消耗令牌
+   * @param amount 消耗的数量
+   */
+  public take(amount: number): void {
+    this.refill();
+    this.tokens -= amount;
+  }
+
+  /**
+   * 按经过的时间补充令牌
+   * @private
+   */
+  private refill(): void {
+    const now = this.clock.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updated) / 1000) * this.rate);
+    this.updated = now;
+  }
+}
+
+/**
+ * 流量控制类
+ */
+export class FlowController {
+  private options: Required<Omit<FlowControlOptions, 'rateLimit'>>;
+  private messageBucket: TokenBucket | null = null;
+  private byteBucket: TokenBucket | null = null;
+  private congested = false;
+  private timer: TimerHandle | null = null;
+  private writableWaiters: Set<() => void> = new Set();
+  private drainWaiters: Set<() => void> = new Set();
+
+  /**
+   * @param options 流量控制配置
+   * @param hooks 流量控制回调
+   * @param clock 计时使用的时钟
+   */
+  constructor(options: FlowControlOptions, private hooks: FlowHooks, private clock: Clock = systemClock) {
+    this.options = {
+      highWaterMark: options.highWaterMark ?? 1024 * 1024,
+      lowWaterMark: options.lowWaterMark ?? 256 * 1024,
+      checkInterval: options.checkInterval ?? 50
+    };
+
+    const { messagesPerSecond, bytesPerSecond, burst = 1 } = options.rateLimit || {};
+    if (messagesPerSecond && messagesPerSecond > 0) {
+      this.messageBucket = new TokenBucket(messagesPerSecond, Math.max(1, messagesPerSecond * burst), 1, clock);
+    }
+    if (bytesPerSecond && bytesPerSecond > 0) {
+      this.byteBucket = new TokenBucket(bytesPerSecond, bytesPerSecond * burst, 0, clock);
+    }
+  }
+
+  /**
+   * 当前是否可以发送：未拥塞且没有超过速率限制
+   */
+  public get writable(): boolean {
+    return !this.isCongested() && this.rateReady();
+  }
+
+  /**
+   * 缓冲区是否已降到低水位以下
+   */
+  public get drained(): boolean {
+    return this.hooks.bufferedAmount() <= this.options.lowWaterMark;
+  }
+
+  /**
+   * 记录一次发送，消耗令牌并检查是否拥塞
+   * @param bytes 发送的字节数
+   */
+  public recordSent(bytes: number): void {
+    this.messageBucket?.take(1);
+    this.byteBucket?.take(bytes);
+
+    // 拥塞后持续检查，排空时触发 drain
+    if (this.isCongested()) {
+      this.schedule();
+    }
+  }
+
+  /**
+   * 可以发送时调用一次
+   * @param callback 回调函数
+   * @returns 取消等待的函数
+   */
+  public whenWritable(callback: () => void): () => void {
+    this.writableWaiters.add(callback);
+    this.schedule();
+    return () => this.writableWaiters.delete(callback);
+  }
+
+  /**
+   * 缓冲区降到低水位以下时调用一次
+   * @param callback 回调函数
+   * @returns 取消等待的函数
+   */
+  public whenDrained(callback: () => void): () => void {
+    this.drainWaiters.add(callback);
+    this.schedule();
+    return () => this.drainWaiters.delete(callback);
+  }
+
+  /**
+   * 安排下一次检查，可以发送时调用 onWritable
+   */
+  public schedule(): void {
+    if (this.timer) return;
+
+    const delay = this.isCongested() || this.drainWaiters.size > 0
+      ? this.options.checkInterval
+      : Math.max(this.messageBucket?.waitTime ?? 0, this.byteBucket?.waitTime ?? 0);
+    this.timer = this.clock.setTimeout(() => this.check(), delay);
+  }
+
+  /**
+   * 停止检查并清除拥塞状态（连接关闭时调用），等待者在下次 schedule 时继续检查
+   */
+  public reset(): void {
+    if (this.timer) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.congested = false;
+  }
+
+  /**
+   * 停止检查并立即通知所有等待者（替换为新的流量控制时调用），等待者需要在新实例上重新检查
+   */
+  public release(): void {
+    this.reset();
+    const waiters = [...Array.from(this.drainWaiters), ...Array.from(this.writableWaiters)];
+    this.drainWaiters.clear();
+    this.writableWaiters.clear();
+    waiters.forEach(callback => callback());
+  }
+
+  /**
+   * 检查缓冲区和令牌，通知等待者
+   * @private
+   */
+  private check(): void {
+    this.timer = null;
+
+    if (this.drained && this.drainWaiters.size > 0) {
+      const waiters = Array.from(this.drainWaiters);
+      this.drainWaiters.clear();
+      waiters.forEach(callback => callback());
+    }
+
+    if (this.writable) {
+      const waiters = Array.from(this.writableWaiters);
+      this.writableWaiters.clear();
+      this.hooks.onWritable();
+      waiters.forEach(callback => callback());
+    } else {
+      this.schedule();
+      return;
+    }
+
+    if (this.drainWaiters.size > 0 || this.writableWaiters.size > 0) {
+      this.schedule();
+    }
+  }
+
+  /**
+   * 根据水位更新拥塞状态，拥塞解除时触发 onDrain
+   * @private
+   */
+  private isCongested(): boolean {
+    const buffered = this.hooks.bufferedAmount();
+    if (!this.congested && buffered >= this.options.highWaterMark) {
+      this.congested = true;
+    } else if (this.congested && buffered <= this.options.lowWaterMark) {
+      this.congested = false;
+      this.hooks.onDrain(buffered);
+    }
+    return this.congested;
+  }
+
+  /**
+   * 是否有足够的令牌
+   * @private
+   */
+  private rateReady(): boolean {
+    return (!this.messageBucket || this.messageBucket.ready) && (!this.byteBucket || this.byteBucket.ready);
+  }
+}
@@ -3,31 +3,245 @@
  * 支持心跳机制、断点重连、事件订阅等功能
  */
 
+import { RequestManager, RequestOptions, RequestError, RequestErrorCode, defaultIsErrorReply } from './rpc.js';
+import {
+  MessageQueue,
+  QueueOptions,
+  QueueStorage,
+  QueuedMessage,
+  QueuePriority,
+  QueueOverflowPolicy,
+  QueueFlushResult,
+  SendOptions,
+  QueueDropReason,
+  MemoryQueueStorage,
+  LocalStorageQueueStorage,
+  IndexedDBQueueStorage,
+  FileQueueStorage,
+  estimateSize
+} from './queue.js';
+import { ReliableDelivery, ReliableOptions, DeliveryFailureReason } from './reliable.js';
+import { matchesShape } from './utils.js';
+import { Codec, EncodedMessage, JsonCodec, MessagePackCodec, MessagePackExtension, CborCodec } from './codec.js';
+import { ChannelManager, ChannelOptions, ChannelHandler, Subscription } from './channel.js';
+import {
+  createReconnectStrategy,
+  ReconnectStrategy,
+  ReconnectStrategyFn,
+  ReconnectStrategyConfig,
+  CloseCodePolicy,
+  JitterMode,
+  fixedDelay,
+  linearBackoff,
+  exponentialBackoff
+} from './reconnect.js';
+import { EnvironmentMonitor, EnvironmentOptions, HiddenHeartbeatMode } from './environment.js';
+import { AuthManager, AuthOptions, AuthMatcher } from './auth.js';
+import { ResumeManager, ResumeOptions, ResumeStorage, LocalStorageResumeStorage, EventId } from './resume.js';
+import { createWaiter, WaitOptions, WaiterControl, abortReason } from './lifecycle.js';
+import {
+  SupaSocketError,
+  SupaSocketErrorCode,
+  SupaSocketErrorOptions,
+  SupaSocketErrorEvent,
+  ConnectionError,
+  ConnectionErrorCode,
+  ConnectionTimeoutError,
+  ConnectionFailedError,
+  ProtocolCloseError,
+  HandshakeError,
+  SendError,
+  DecodeError,
+  MiddlewareError,
+  StorageError,
+  EndpointError,
+  TimeoutError,
+  CloseCodeInfo,
+  CLOSE_CODES,
+  describeCloseCode
+} from './errors.js';
+import {
+  MessageStream,
+  StreamOptions,
+  StreamOverflowPolicy,
+  StreamOverflowError,
+  StreamSubscription,
+  Observer
+} from './stream.js';
+import { MiddlewarePipeline, Middleware, MiddlewareContext, MiddlewareDirection, MiddlewareStage } from './middleware.js';
+import { LatencyTracker, LatencySample } from './latency.js';
+import {
+  EndpointManager,
+  EndpointOptions,
+  EndpointSource,
+  EndpointStrategy,
+  EndpointStatus,
+  EndpointChangeReason
+} from './endpoints.js';
+import { SocketLogger, Logger, LoggerOptions, LogLevel, LogLocale, LogContext, LogCode, LOG_MESSAGES, formatLogMessage } from './logger.js';
+import {
+  FileTransfer,
+  FileTransferOptions,
+  FileTransferState,
+  FileTransferFailure,
+  FileTransferError,
+  FileReceiver,
+  FileReceiveOptions,
+  FileReceiveProgress,
+  ReceivedFile,
+  ChecksumAlgorithm,
+  ChunkHeader,
+  encodeChunkFrame,
+  decodeChunkFrame,
+  isFileControlFrame
+} from './transfer.js';
+import { FlowController, FlowControlOptions, RateLimitOptions } from './flow.js';
+import { Clock, TimerHandle, systemClock } from './clock.js';
+import {
+  READY_STATE,
+  WebSocketLike,
+  WebSocketConstructor,
+  WebSocketClientOptions,
+  BinarySource,
+  createWebSocket,
+  isBinary,
+  toUint8Array
+} from './runtime.js';
+import {
+  MetricsCollector,
+  MetricsSink,
+  MetricAttributes,
+  SocketStats,
+  MessageTypeStats,
+  SessionInfo,
+  RequestInfo,
+  OpenTelemetryAdapter,
+  OtelTracer,
+  OtelMeter,
+  OtelSpan
+} from './metrics.js';
+import { SharedConnection, SharedOptions, SharedRole, SharedMessage, OutgoingSharedMessage } from './shared.js';
+import {
+  MessageValidator,
+  ValidationOptions,
+  ValidationError,
+  ValidationIssue,
+  Validator,
+  ValidatorMap,
+  StandardSchemaV1
+} from './validation.js';
+
 // 回调函数类型定义
 type EventCallback<T = any> = (data: T) => void;
 
-// 预定义常用事件类型
-type BuiltInEvents = 'open' | 'message' | 'close' | 'error' | 'reconnect' | 'statusChange' | 'connectionTimeout' | 'heartbeatTimeout' | 'reconnectFailed' | 'reconnecting' | string;
-
 // 增强的 SocketMessage 接口，支持泛型
 export interface SocketMessage<T = any> {
   type: string;
   payload: T; // 使用泛型指定消息的具体数据类型
+  id?: string; // 请求/响应关联ID
+}
+
+// 状态变化事件数据
+export interface StatusChangeEvent {
+  newState: ConnectionState;
+  oldState: ConnectionState;
+  newStateName: string;
+  oldStateName: string;
+}
+
+// 内置事件及其数据类型
+export interface BuiltInEventMap {
+  open: Event;
+  message: any;
+  close: CloseEvent;
+  error: SupaSocketErrorEvent;
+  statusChange: StatusChangeEvent;
+  connectionTimeout: { url: string; timeout: number | undefined };
+  heartbeatTimeout: { time: number; missed: number };
+  latency: LatencySample;
+  reconnectFailed: { attempts: number; limit: number | undefined; reason: 'limit' | 'closeCode'; code?: number };
+  reconnecting: { attempt: number; limit: number | undefined; delay: number; reason: string };
+  queueDrop: { data: any; priority: QueuePriority; reason: QueueDropReason };
+  queueFlush: { results: QueueFlushResult[]; sent: number; failed: number; remaining: number };
+  delivered: { seq: number; data: Record<string, any> };
+  deliveryFailed: { seq: number; data: Record<string, any>; reason: DeliveryFailureReason };
+  invalidMessage: { data: any; issues: ValidationIssue[] };
+  online: { time: number };
+  offline: { time: number };
+  hidden: { time: number };
+  visible: { time: number };
+  gap: { from: number; to: number; missing: number };
+  endpointChange: { from: string | null; to: string; reason: EndpointChangeReason };
+  fileProgress: { transferId: string; fileName: string; sent: number; total: number; progress: number };
+  drain: { bufferedAmount: number };
 }
 
+// 预定义常用事件类型
+type BuiltInEvents = keyof BuiltInEventMap;
+
+// 内置事件名，收到的消息 type 与之相同时改为触发 message:<type>，避免被当作内置事件
+const BUILT_IN_EVENTS: Record<BuiltInEvents, true> = {
+  open: true, message: true, close: true, error: true, statusChange: true, connectionTimeout: true,
+  heartbeatTimeout: true, latency: true, reconnectFailed: true, reconnecting: true, queueDrop: true,
+  queueFlush: true, delivered: true, deliveryFailed: true, invalidMessage: true, online: true,
+  offline: true, hidden: true, visible: true, gap: true, endpointChange: true, fileProgress: true, drain: true
+};
+
+// 消息类型映射：消息 type -> payload 类型
+export type MessageMap = Record<string, any>;
+
+// 指定 type 的消息
+export type TypedMessage<K extends string, P> = SocketMessage<P> & { type: K };
+
+// 收到的消息，未指定消息映射时不做限制
+export type InboundMessage<TIn extends MessageMap, K extends keyof TIn = keyof TIn> =
+  string extends keyof TIn
+    ? any
+    : { [P in K & string]: TypedMessage<P, TIn[P]> }[K & string];
+
+// 发送的消息，未指定消息映射时不做限制
+export type OutboundMessage<TOut extends MessageMap> =
+  string extends keyof TOut
+    ? any
+    : { [P in keyof TOut & string]: TypedMessage<P, TOut[P]> }[keyof TOut & string];
+
+// SupaSocket 可监听的事件：内置事件 + 按 type 分发的消息事件
+export type SupaSocketEventMap<TIn extends MessageMap = MessageMap> =
+  BuiltInEventMap & { [K in keyof TIn]: InboundMessage<TIn, K> };
+
+// 内部事件总线使用的事件映射，消息事件的 type 在运行时才能确定
+type InternalEventMap = BuiltInEventMap & Record<string, any>;
+
 // 状态变化回调
 type StatusChangeCallback = (newState: ConnectionState, oldState: ConnectionState) => void;
 
+// sendAsync 的选项：发送选项和等待选项，超时时间为整个发送过程的总时间
+interface SendAsyncOptions extends SendOptions, WaitOptions {}
+
+// 主标签页代发的可靠消息来源：标签页和该标签页内的消息编号
+interface RelayOrigin {
+  tabId: string;
+  id: number;
+}
+
 // 配置选项接口
-interface SupaSocketOptions {
-  url: string;
-  reconnectLimit?: number;  // 最大重连次数
+interface SupaSocketOptions<TIn extends MessageMap = MessageMap, TOut extends MessageMap = MessageMap> {
+  url?: string;                // 连接地址，与 urls 二选一
+  urls?: EndpointSource;       // 多个连接地址或异步解析函数，按 endpoints.strategy 选择
+  endpoints?: EndpointOptions; // 多地址的选择策略、冷却和首选地址检查
+  reconnectLimit?: number;  // 最大重连次数，Infinity 表示无限重试
   reconnectInterval?: number;  // 重连间隔（毫秒）
   heartbeatInterval?: number;  // 心跳间隔（毫秒）
   heartbeatTimeout?: number;   // 心跳超时时间（毫秒）
+  heartbeatMaxMissed?: number; // 连续多少次未收到心跳响应才判定心跳超时
+  heartbeatSkipOnTraffic?: boolean; // 一个心跳间隔内收到过其他消息时跳过本次心跳
   autoReconnect?: boolean;     // 是否自动重连
+  autoConnect?: boolean;       // 是否在创建实例时自动连接，为 false 时需要调用 connect()
   debug?: boolean;             // 是否开启调试日志
+  logger?: Logger | LoggerOptions; // 日志输出（pino、winston、console 等）或日志配置
   protocols?: string | string[]; // WebSocket协议
+  WebSocketImpl?: WebSocketConstructor; // WebSocket 实现（如 Node.js 的 ws），默认使用全局 WebSocket
+  clientOptions?: WebSocketClientOptions; // 传给 WebSocket 实现的连接选项（请求头、agent、TLS 选项），浏览器会忽略
   binaryType?: BinaryType;     // 二进制数据类型
   onOpen?: (event: Event) => void; // 连接打开时的回调
   onClose?: (event: CloseEvent) => void; // 连接关闭时的回调
@@ -35,10 +249,28 @@ interface SupaSocketOptions {
   onStatusChange?: StatusChangeCallback; // 状态变化的回调
   pingMessage?: any;          // 自定义心跳消息
   pongMessage?: any;          // 自定义心跳响应消息
-  autoParseMessage?: boolean; // 是否自动解析JSON消息
+  autoParseMessage?: boolean; // 是否自动解析(解码)消息
   maxReconnectDelay?: number; // 最大重连延迟(指数退避策略)
   retryOnError?: boolean;     // 错误时是否重试
   connectionTimeout?: number; // 连接超时时间(毫秒)
+  requestTimeout?: number;    // request() 默认超时时间(毫秒)
+  requestIdKey?: string;      // 请求关联ID字段名
+  retainRequestsOnReconnect?: boolean; // 断线重连后是否保留未完成的请求并重发
+  isErrorReply?: (data: any) => boolean; // 判断回复是否为错误帧
+  queue?: QueueOptions;       // 发送队列配置
+  reliable?: ReliableOptions; // 可靠投递配置（确认帧格式、重发超时等）
+  codec?: Codec;              // 消息编解码器，默认使用JSON
+  channels?: ChannelOptions;  // 频道订阅配置（订阅/退订帧格式、频道字段名）
+  validation?: ValidationOptions<TIn, TOut>; // 按消息type校验收发消息
+  reconnectStrategy?: ReconnectStrategy; // 重连策略，默认为 1.5 倍指数退避
+  closeCodePolicy?: CloseCodePolicy;     // 按关闭代码决定是否重连/立即重连
+  environment?: EnvironmentOptions;      // 网络状态和页面可见性感知（浏览器）
+  shared?: boolean | SharedOptions;      // 同源标签页共享一个连接（浏览器）
+  auth?: AuthOptions;                    // 认证：连接前解析地址和令牌、认证握手、认证失败时刷新令牌
+  resume?: ResumeOptions;                // 断线续传：记录事件ID，重连后请求补发并去重
+  metrics?: MetricsSink;                 // 指标输出：计数、耗时、连接会话和请求 span
+  flowControl?: FlowControlOptions;      // 发送流量控制：bufferedAmount 高低水位和速率限制
+  clock?: Clock;                         // 实例内所有计时使用的时钟，测试时可以传入 ManualClock
 }
 
 // 连接状态枚举
@@ -50,12 +282,16 @@ enum ConnectionState {
   RECONNECTING = 4,
 }
 
-// 为 EventBus 类添加泛型支持
-class EventBus<T = any> {
-  private events: Map<BuiltInEvents, EventCallback<T>[]> = new Map();
+// 为 EventBus 类添加泛型支持，TEvents 为事件名到事件数据类型的映射
+class EventBus<TEvents extends Record<string, any> = Record<string, any>> {
+  private events: Map<keyof TEvents, EventCallback[]> = new Map();
+  private taps: Array<(event: keyof TEvents, data: any) => void> = []; // 监听所有事件，不受 clear() 影响
+  private internal: Map<keyof TEvents, Set<EventCallback>> = new Map(); // ready/waitFor/stream 等内部监听，不受 off()/clear() 影响
+  
+  constructor(private onError: (event: string, error: any) => void) {}
   
   // 添加事件监听器
-  public on(event: BuiltInEvents, callback: EventCallback<T>): void {
+  public on<K extends keyof TEvents>(event: K, callback: EventCallback<TEvents[K]>): void {
     if (!this.events.has(event)) {
       this.events.set(event, []);
     }
@@ -63,7 +299,7 @@ class EventBus<T = any> {
   }
   
   // 移除事件监听器
-  public off(event: BuiltInEvents, callback?: EventCallback<T>): void {
+  public off<K extends keyof TEvents>(event: K, callback?: EventCallback<TEvents[K]>): void {
     if (!this.events.has(event)) {
       return;
     }
@@ -80,29 +316,53 @@ class EventBus<T = any> {
   }
   
   // 触发事件
-  public emit(event: BuiltInEvents, data: T): void {
-    if (!this.events.has(event)) {
-      return;
-    }
+  public emit<K extends keyof TEvents>(event: K, data: TEvents[K]): void {
+    this.taps.forEach(tap => {
+      try {
+        tap(event, data);
+      } catch (error) {
+        this.onError(String(event), error);
+      }
+    });
     
-    const callbacks = this.events.get(event)!;
+    const callbacks = [...(this.events.get(event) || []), ...(this.internal.get(event) || [])];
     callbacks.forEach(callback => {
       try {
         callback(data);
       } catch (error) {
-        console.error(`[EventBus] Error in event handler for ${event}:`, error);
+        this.onError(String(event), error);
       }
     });
   }
   
+  // 添加内部监听器，返回移除监听的函数
+  public listen<K extends keyof TEvents>(event: K, callback: EventCallback<TEvents[K]>): () => void {
+    if (!this.internal.has(event)) {
+      this.internal.set(event, new Set());
+    }
+    this.internal.get(event)!.add(callback);
+    return () => {
+      const callbacks = this.internal.get(event);
+      callbacks?.delete(callback);
+      if (callbacks && callbacks.size === 0) {
+        this.internal.delete(event);
+      }
+    };
+  }
+  
+  // 添加监听所有事件的内部监听器
+  public tap(listener: (event: keyof TEvents, data: any) => void): void {
+    this.taps.push(listener);
+  }
+  
   // 检查是否有事件监听器
-  public hasListeners(event: BuiltInEvents): boolean {
+  public hasListeners(event: keyof TEvents): boolean {
     return this.events.has(event) && this.events.get(event)!.length > 0;
   }
   
   // 获取所有注册的事件
-  public getEvents(): BuiltInEvents[] {
-    return Array.from(this.events.keys());
+  public getEvents(): string[] {
+    return Array.from(this.events.keys()).map(String);
   }
   
   // 清除所有事件监听器
@@ -116,6 +376,8 @@ class ConnectionManager {
   private _state: ConnectionState = ConnectionState.CLOSED;
   private statusChangeCallbacks: StatusChangeCallback[] = [];
   
+  constructor(private onError: (error: any) => void) {}
+  
   public get state(): ConnectionState {
     return this._state;
   }
@@ -133,7 +395,7 @@ class ConnectionManager {
       try {
         callback(newState, oldState);
       } catch (error) {
-        console.error('[ConnectionManager] Error in status change callback:', error);
+        this.onError(error);
       }
     });
   }
@@ -149,32 +411,75 @@ class ConnectionManager {
 
 /**
  * SupaSocket主类
+ * @typeParam TIn 收到的消息映射（type -> payload），用于 on/once/off 的类型检查
+ * @typeParam TOut 发送的消息映射（type -> payload），用于 send 的类型检查
  */
-export default class SupaSocket {
-  private ws: WebSocket | null = null;
+export default class SupaSocket<TIn extends MessageMap = MessageMap, TOut extends MessageMap = MessageMap> {
+  private ws: WebSocketLike | null = null;
   private reconnectCount = 0;
-  private heartbeatTimer: NodeJS.Timeout | null = null;
-  private heartbeatTimeoutTimer: NodeJS.Timeout | null = null;
-  private connectionTimeoutTimer: NodeJS.Timeout | null = null;
-  private connectionManager = new ConnectionManager();
-  private eventBus = new EventBus();
-  private messageQueue: any[] = []; // 消息队列，用于存储连接建立前的消息
+  private heartbeatTimer: TimerHandle | null = null;
+  private heartbeatTimeoutTimer: TimerHandle | null = null;
+  private connectionTimeoutTimer: TimerHandle | null = null;
+  private connectionManager = new ConnectionManager(error => this.log('STATUS_CALLBACK_ERROR', { error }));
+  private eventBus = new EventBus<InternalEventMap>((event, error) => this.log('LISTENER_ERROR', { event, error }));
+  private messageQueue: MessageQueue; // 消息队列，用于存储连接建立前的消息
+  private reliable: ReliableDelivery; // 可靠投递，保存未确认的消息
+  private channels: ChannelManager; // 频道订阅管理
+  private validator: MessageValidator | null = null; // 消息校验
   private lastMessageTime = 0; // 最后一次收到消息的时间
   private explicitClose = false; // 是否是手动关闭的连接
-  private currentBackoff = 0; // 当前重连延迟(指数退避)
+  private reconnectTimer: TimerHandle | null = null; // 等待中的重连
+  private lastCloseEvent: CloseEvent | null = null; // 最后一次连接关闭事件
+  private reconnectStrategy: ReconnectStrategyFn; // 重连延迟计算
+  private environment: EnvironmentMonitor | null = null; // 网络状态和页面可见性感知
+  private requestManager: RequestManager; // 请求/响应管理
+  private shared: SharedConnection | null = null; // 跨标签页共享连接
+  private remoteSubscriptions: Map<string, Map<string, Subscription>> = new Map(); // 其他标签页的频道订阅
+  private relayedReliable: Set<string> = new Set(); // 主标签页代发中的可靠消息（标签页:编号），用于去重
+  private sharedPending: Map<number, any> = new Map(); // 从标签页交给主标签页、尚未确认的可靠消息
+  private sharedSendId = 0; // 从标签页可靠消息的编号
+  private sharedLeader: string | null = null; // 从标签页当前的主标签页
+  private pageHideListener: (() => void) | null = null;
+  private auth: AuthManager | null = null; // 认证管理
+  private authTimer: TimerHandle | null = null; // 等待认证结果的超时
+  private authPending = false; // 是否正在等待认证结果
+  private authOpenEvent: Event | null = null; // 认证完成前暂存的open事件
+  private connectAttempt = 0; // 连接序号，用于丢弃过期的异步地址解析结果
+  private resolvingUrl = false; // 是否正在等待地址和令牌的解析
+  private resume: ResumeManager | null = null; // 断线续传
+  private resumeRestoring: Promise<void> | null = null; // 正在从存储中恢复事件ID，完成前不建立连接
+  private waiters: Set<() => void> = new Set(); // 等待中的 Promise，销毁实例时结束
+  private streams: Set<() => void> = new Set(); // 未结束的消息流，关闭或销毁时结束
+  private middleware = new MiddlewarePipeline(); // 收发消息的中间件
+  private latencyTracker = new LatencyTracker(() => this.clock.now()); // 心跳往返时延
+  private missedHeartbeats = 0; // 连续未收到响应的心跳次数
+  private lastTrafficTime = 0; // 最后一次收到心跳响应以外的消息的时间
+  private metrics: MetricsCollector; // 连接指标
+  private disconnectReason: string | null = null; // 非关闭帧导致的重连原因（心跳超时、连接超时等）
+  private logger!: SocketLogger; // 日志输出
+  private endpoints: EndpointManager | null = null; // 多地址切换
+  private endpointSwitch = false; // 是否正在切换到更合适的地址
+  private closeErrorReported = false; // 本次关闭的原因已经作为错误触发过（认证失败等）
+  private transfers: Map<string, FileTransfer> = new Map(); // 未结束的文件发送
+  private fileReceiver: FileReceiver | null = null; // 文件接收
+  private flow!: FlowController; // 发送流量控制
+  private clock: Clock; // 计时使用的时钟
 
   /**
    * 构造函数
    * @param options 配置选项
    */
-  constructor(private options: SupaSocketOptions) {
+  constructor(private options: SupaSocketOptions<TIn, TOut>) {
     // 设置默认选项
     this.options = {
       reconnectLimit: 5,
       reconnectInterval: 5000,
       heartbeatInterval: 30000,
       heartbeatTimeout: 5000,
+      heartbeatMaxMissed: 1,
+      heartbeatSkipOnTraffic: false,
       autoReconnect: true,
+      autoConnect: true,
       debug: false,
       autoParseMessage: true,
       maxReconnectDelay: 30000, // 最大30秒重连延迟
@@ -182,12 +487,140 @@ export default class SupaSocket {
       connectionTimeout: 10000, // 10秒连接超时
       pingMessage: { type: 'ping', time: 0 },
       pongMessage: { type: 'pong' },
+      requestTimeout: 10000, // 10秒请求超时
+      requestIdKey: 'id',
+      retainRequestsOnReconnect: false,
       ...options
     };
     
+    // 初始化时钟和日志
+    this.clock = this.options.clock || systemClock;
+    this.logger = this.createLogger();
+    
+    if (!this.options.url && !this.options.urls) {
+      throw new Error('必须设置 url 或 urls');
+    }
+    
+    // 初始化多地址切换
+    this.endpoints = this.createEndpoints();
+    
+    // 初始化重连策略
+    this.reconnectStrategy = this.createReconnectStrategy();
+    
+    // 初始化发送流量控制
+    this.flow = this.createFlowController();
+    
+    // 初始化连接指标，通过事件统计连接会话、重连、心跳超时和错误
+    this.metrics = new MetricsCollector(this.options.metrics, () => this.currentUrl, this.clock);
+    this.eventBus.tap((event, data) => this.metrics.handleEvent(String(event), data));
+    
+    // 初始化请求管理
+    this.requestManager = new RequestManager({
+      idKey: this.options.requestIdKey || 'id',
+      defaultTimeout: this.options.requestTimeout ?? 10000,
+      retainOnReconnect: !!this.options.retainRequestsOnReconnect,
+      isErrorReply: this.options.isErrorReply || defaultIsErrorReply,
+      clock: this.clock
+    }, frame => this.sendMessage(frame));
+    
+    // 初始化发送队列
+    this.messageQueue = new MessageQueue(this.options.queue || {}, {
+      onDrop: (message, reason) => {
+        this.log('QUEUE_DROP', { reason });
+        this.eventBus.emit('queueDrop', { data: message.data, priority: message.priority, reason });
+      },
+      onError: (error) => {
+        this.log('QUEUE_STORAGE_ERROR', { error });
+        this.eventBus.emit('error', new StorageError('queueStorageError', error));
+      }
+    }, this.clock);
+    
+    // 初始化可靠投递
+    this.reliable = new ReliableDelivery(this.options.reliable || {}, {
+      transmit: frame => this.transmit(frame),
+      canSend: () => this.isSocketOpen(),
+      onDelivered: (seq, frame, origin?: RelayOrigin) => {
+        // 代发的消息通知来源标签页，由它触发事件
+        if (origin) {
+          this.relayedReliable.delete(`${origin.tabId}:${origin.id}`);
+          this.postShared({ kind: 'delivered', to: origin.tabId, id: origin.id, seq, data: frame });
+          return;
+        }
+        this.eventBus.emit('delivered', { seq, data: frame });
+      },
+      onFailed: (seq, frame, reason, origin?: RelayOrigin) => {
+        this.log('DELIVERY_FAILED', { seq, reason });
+        if (origin) {
+          this.relayedReliable.delete(`${origin.tabId}:${origin.id}`);
+          this.postShared({ kind: 'deliveryFailed', to: origin.tabId, id: origin.id, seq, data: frame, reason });
+          return;
+        }
+        this.eventBus.emit('deliveryFailed', { seq, data: frame, reason });
+      }
+    }, this.clock);
+    
+    // 初始化频道订阅
+    this.channels = new ChannelManager(this.options.channels || {}, {
+      join: (channel, params, frame) => this.isFollower
+        ? this.postShared({ kind: 'join', channel, params })
+        : this.transmit(frame),
+      leave: (channel, frame) => this.isFollower
+        ? this.postShared({ kind: 'leave', channel })
+        : this.transmit(frame),
+      canSend: () => this.isSocketOpen(),
+      onError: (channel, error) => this.log('CHANNEL_HANDLER_ERROR', { channel, error })
+    });
+    
+    // 初始化消息校验
+    if (this.options.validation) {
+      this.validator = new MessageValidator(this.options.validation);
+    }
+    
+    // 初始化认证
+    if (this.options.auth) {
+      this.auth = new AuthManager(this.options.auth);
+    }
+    
+    // 初始化断线续传，恢复上次记录的事件ID
+    if (this.options.resume) {
+      this.resume = new ResumeManager(this.options.resume, {
+        onGap: (from, to) => {
+          this.log('RESUME_GAP', { from, to });
+          this.eventBus.emit('gap', { from, to, missing: to - from + 1 });
+        },
+        onError: (error) => {
+          this.log('RESUME_STORAGE_ERROR', { error });
+          this.eventBus.emit('error', new StorageError('resumeStorageError', error));
+        }
+      });
+      this.resumeRestoring = this.resume.restore().then(() => {
+        this.resumeRestoring = null;
+      });
+    }
+    
+    // 初始化环境感知
+    if (this.options.environment) {
+      this.environment = new EnvironmentMonitor(this.options.environment, {
+        onOnline: () => this.handleOnline(),
+        onOffline: () => this.handleOffline(),
+        onHidden: () => this.handleVisibilityChange(true),
+        onVisible: () => this.handleVisibilityChange(false)
+      });
+    }
+    
+    // 恢复上次未发送的消息，恢复完成前新消息留在队列中，之后按顺序发送
+    this.messageQueue.restore().then(count => {
+      if (count > 0) {
+        this.log('QUEUE_RESTORED', { count });
+      }
+      if (this.isSocketOpen()) {
+        this.processMessageQueue();
+      }
+    });
+    
     // 注册连接状态变化回调
     this.connectionManager.onStatusChange((newState, oldState) => {
-      this.log(`状态变化: ${ConnectionState[oldState]} -> ${ConnectionState[newState]}`);
+      this.log('STATE_CHANGE', { from: ConnectionState[oldState], to: ConnectionState[newState] });
       
       // 调用用户自定义的状态变化回调
       if (this.options.onStatusChange) {
@@ -201,10 +634,17 @@ export default class SupaSocket {
         newStateName: ConnectionState[newState],
         oldStateName: ConnectionState[oldState]
       });
+      
+      // 共享模式下同步给其他标签页
+      if (this.shared?.role === 'leader') {
+        this.shared.post({ kind: 'state', state: newState });
+      }
     });
 
     // 初始化连接
-    this.connect();
+    if (this.options.autoConnect) {
+      this.startConnection();
+    }
     
     // 暴露ConnectionState枚举
     Object.defineProperty(this, 'ConnectionState', {
@@ -248,7 +688,7 @@ export default class SupaSocket {
    */
   public get timeSinceLastMessage(): number {
     if (this.lastMessageTime === 0) return 0;
-    return Date.now() - this.lastMessageTime;
+    return this.clock.now() - this.lastMessageTime;
   }
   
   /**
@@ -265,137 +705,396 @@ export default class SupaSocket {
     return this.reconnectCount;
   }
 
+  /**
+   * 获取最近一次心跳的往返时延(ms)，尚未测量时为 null
+   */
+  public get latency(): number | null {
+    return this.latencyTracker.latency;
+  }
+  
+  /**
+   * 获取平滑往返时延(ms)，尚未测量时为 null
+   */
+  public get smoothedRtt(): number | null {
+    return this.latencyTracker.srtt;
+  }
+
+  /**
+   * 获取当前使用的连接地址
+   */
+  public get currentUrl(): string {
+    return this.endpoints?.current ?? this.options.url ?? '';
+  }
+  
+  /**
+   * 获取所有连接地址的状态（需要设置 urls）
+   */
+  public get endpointStatus(): EndpointStatus[] {
+    return this.endpoints ? this.endpoints.status : [];
+  }
+  
+  /**
+   * 获取等待回复的请求数
+   */
+  public get pendingRequests(): number {
+    return this.requestManager.size;
+  }
+  
+  /**
+   * 获取队列中等待发送的消息数
+   */
+  public get queueLength(): number {
+    return this.messageQueue.length;
+  }
+  
+  /**
+   * 获取WebSocket缓冲区中尚未发出的字节数
+   */
+  public get bufferedAmount(): number {
+    return this.isFollower ? 0 : this.ws?.bufferedAmount ?? 0;
+  }
+  
+  /**
+   * 是否可以立即发送（已连接、发送缓冲区未拥塞且没有超过速率限制）
+   */
+  public get writable(): boolean {
+    return this.isSocketOpen() && this.flow.writable && this.messageQueue.length === 0;
+  }
+  
+  /**
+   * 获取等待服务端确认的可靠消息数
+   */
+  public get unackedMessages(): number {
+    return this.reliable.size;
+  }
+  
+  /**
+   * 获取当前订阅的频道列表
+   */
+  public get subscriptions(): string[] {
+    return this.channels.active;
+  }
+  
+  /**
+   * 获取收到的最后一个事件ID（需要开启 resume）
+   */
+  public get lastEventId(): EventId | undefined {
+    return this.resume?.lastId;
+  }
+  
+  /**
+   * 获取共享模式下当前标签页的角色，未启用共享模式时为 null
+   */
+  public get sharedRole(): SharedRole | null {
+    return this.shared ? this.shared.role : null;
+  }
+  
+  /**
+   * 是否为共享模式下的从标签页（没有自己的WebSocket）
+   * @private
+   */
+  private get isFollower(): boolean {
+    return !!this.shared && this.shared.role !== 'leader';
+  }
+
   /**
    * 连接WebSocket
    * @private
    */
-  private connect(): void {
+  private startConnection(): void {
+    // 共享模式下只有主标签页建立连接
+    if (this.options.shared && SharedConnection.isSupported && this.shared?.role !== 'leader') {
+      this.joinShared();
+      return;
+    }
+    
     // 清除之前的连接超时计时器
     if (this.connectionTimeoutTimer) {
-      clearTimeout(this.connectionTimeoutTimer);
+      this.clock.clearTimeout(this.connectionTimeoutTimer);
       this.connectionTimeoutTimer = null;
     }
     
     this.connectionManager.state = ConnectionState.CONNECTING;
-    this.log('正在连接...');
+    this.log('CONNECTING');
     this.explicitClose = false;
-
+    
+    const attempt = ++this.connectAttempt;
+    // 连接超时包括等待 getUrl / getToken 的时间
+    this.startConnectionTimeout();
+    
+    // 每次连接前选择地址、解析地址和令牌，第一次连接还要等待恢复事件ID
+    if (this.endpoints || this.auth?.hasResolver || this.resumeRestoring) {
+      this.resolvingUrl = true;
+      this.resolveConnectionUrl().then(url => {
+        // 等待期间已关闭、已超时或已发起新的连接
+        if (attempt !== this.connectAttempt || this.explicitClose) return;
+        this.resolvingUrl = false;
+        this.openSocket(url);
+      }, (error: EndpointError | HandshakeError) => {
+        if (attempt !== this.connectAttempt || this.explicitClose) return;
+        this.resolvingUrl = false;
+        if (this.connectionTimeoutTimer) {
+          this.clock.clearTimeout(this.connectionTimeoutTimer);
+          this.connectionTimeoutTimer = null;
+        }
+        this.log(error instanceof EndpointError ? 'ENDPOINT_RESOLVE_FAILED' : 'URL_RESOLVE_FAILED', { error: error.cause });
+        this.connectionManager.state = ConnectionState.CLOSED;
+        this.eventBus.emit('error', error);
+        
+        if (this.options.autoReconnect) {
+          this.disconnectReason = error.type;
+          this.performReconnect();
+        }
+      });
+      return;
+    }
+    
+    this.openSocket(this.options.url!);
+  }
+  
+  /**
+   * 开始连接超时计时：超时时仍在解析地址则放弃本次解析，仍在握手则关闭连接，之后按重连设置重试
+   * @private
+   */
+  private startConnectionTimeout(): void {
+    const timeout = this.options.connectionTimeout;
+    if (!timeout || timeout <= 0) return;
+    
+    this.connectionTimeoutTimer = this.clock.setTimeout(() => {
+      this.connectionTimeoutTimer = null;
+      const resolving = this.resolvingUrl;
+      const ws = this.ws;
+      if (!resolving && !(ws && ws.readyState === READY_STATE.CONNECTING)) return;
+      
+      const url = this.currentUrl;
+      this.log('CONNECTION_TIMEOUT', { timeout });
+      this.eventBus.emit('connectionTimeout', { url, timeout });
+      this.eventBus.emit('error', new ConnectionTimeoutError(url, timeout));
+      
+      if (resolving) {
+        // 丢弃之后才返回的地址和令牌
+        this.resolvingUrl = false;
+        this.connectAttempt++;
+      } else {
+        ws!.close();
+      }
+      this.disconnectReason = 'connectionTimeout';
+      this.handleConnectionFailure();
+    }, timeout);
+  }
+  
+  /**
+   * 解析本次连接的地址：等待恢复事件ID，先按策略选择地址，再由认证解析地址和令牌
+   * @returns 连接地址，失败时拒绝为 EndpointError 或 HandshakeError
+   * @private
+   */
+  private resolveConnectionUrl(): Promise<string> {
+    const restored = this.resumeRestoring || Promise.resolve();
+    const endpoint = restored.then(() => this.endpoints
+      ? this.endpoints.select().catch(error => Promise.reject(new EndpointError(error)))
+      : this.options.url!);
+    
+    return endpoint.then(url => this.auth?.hasResolver
+      ? this.auth.resolveUrl(url).catch(error => Promise.reject(new HandshakeError('解析连接地址失败', { cause: error })))
+      : url);
+  }
+  
+  /**
+   * 创建发送流量控制
+   * @private
+   */
+  private createFlowController(): FlowController {
+    return new FlowController(this.options.flowControl || {}, {
+      bufferedAmount: () => this.isFollower ? 0 : this.ws?.bufferedAmount ?? 0,
+      onDrain: bufferedAmount => {
+        this.log('FLOW_DRAIN', { bufferedAmount });
+        this.eventBus.emit('drain', { bufferedAmount });
+      },
+      onWritable: () => {
+        // 继续发送因拥塞或限速留在队列中的消息和未完成的文件
+        if (this.isSocketOpen() && this.messageQueue.length > 0) {
+          this.processMessageQueue();
+        }
+        this.transfers.forEach(transfer => transfer.handleDrain());
+      }
+    }, this.clock);
+  }
+  
+  /**
+   * 创建多地址切换
+   * @private
+   */
+  private createEndpoints(): EndpointManager | null {
+    const { urls } = this.options;
+    if (!urls) return null;
+    
+    return new EndpointManager(urls, this.options.endpoints || {}, {
+      onChange: (from, to, reason) => {
+        this.log('ENDPOINT_CHANGE', { from, to, reason });
+        this.eventBus.emit('endpointChange', { from, to, reason });
+      },
+      onRecover: (url, reason) => this.switchEndpoint(url, reason),
+      onError: (error) => {
+        this.log('ENDPOINT_RESOLVE_FAILED', { error });
+        this.eventBus.emit('error', new EndpointError(error));
+      },
+      createSocket: url => this.createSocket(url)
+    }, this.clock);
+  }
+  
+  /**
+   * 使用配置的 WebSocket 实现创建连接
+   * @param url 连接地址
+   * @private
+   */
+  private createSocket(url: string): WebSocketLike {
+    return createWebSocket(url, this.options.protocols, this.options.WebSocketImpl, this.options.clientOptions);
+  }
+  
+  /**
+   * 断开当前连接并立即连接到更合适的地址
+   * @param url 新地址
+   * @param reason 切换原因
+   * @private
+   */
+  private switchEndpoint(url: string, reason: EndpointChangeReason): void {
+    if (!this.ws || this.ws.readyState !== READY_STATE.OPEN) return;
+    
+    this.log('ENDPOINT_SWITCH', { to: url, reason });
+    this.endpointSwitch = true;
+    try {
+      this.ws.close(1000, 'endpoint switch');
+    } catch (e) {
+      this.endpointSwitch = false;
+      this.log('CLOSE_FAILED', { error: e });
+    }
+  }
+  
+  /**
+   * 建立WebSocket连接
+   * @param url 连接地址
+   * @private
+   */
+  private openSocket(url: string): void {
+    let opened = false;
+    let authConfirmed = false; // 没有认证帧时是否已收到服务端消息
     try {
-      this.ws = new WebSocket(this.options.url, this.options.protocols);
+      this.ws = this.createSocket(url);
       
-      // 设置二进制数据类型
+      // 设置二进制数据类型，二进制编解码器需要同步读取 ArrayBuffer
       if (this.options.binaryType) {
         this.ws.binaryType = this.options.binaryType;
+      } else if (this.options.codec?.binary || this.fileReceiver) {
+        this.ws.binaryType = 'arraybuffer';
       }
       
-      // 设置连接超时
-      if (this.options.connectionTimeout && this.options.connectionTimeout > 0) {
-        this.connectionTimeoutTimer = setTimeout(() => {
-          this.log('连接超时');
-          this.eventBus.emit('connectionTimeout', { 
-            url: this.options.url, 
-            timeout: this.options.connectionTimeout 
-          });
-          
-          if (this.ws && this.ws.readyState === WebSocket.CONNECTING) {
-            this.ws.close();
-            this.handleConnectionFailure();
-          }
-        }, this.options.connectionTimeout);
-      }
-
       this.ws.onopen = (event) => {
         // 清除连接超时计时器
         if (this.connectionTimeoutTimer) {
-          clearTimeout(this.connectionTimeoutTimer);
+          this.clock.clearTimeout(this.connectionTimeoutTimer);
           this.connectionTimeoutTimer = null;
         }
         
-        this.connectionManager.state = ConnectionState.OPEN;
-        this.log('连接成功');
-      this.reconnectCount = 0; // 重置重连计数器
-        this.currentBackoff = 0; // 重置退避计数
+        opened = true;
+        this.endpoints?.reportSuccess();
         
-        // 处理连接成功后的消息队列
-        this.processMessageQueue();
+        // 需要认证时先发送认证帧，收到确认后才算连接成功
+        if (this.auth?.requiresHandshake) {
+          this.startAuthHandshake(event);
+          return;
+        }
         
-        // 启动心跳检测
-      this.startHeartbeat();
+        // 没有认证帧时，服务端可能在连接建立后立即以认证失败代码关闭，收到第一条消息才视为认证通过
+        this.handleOpen(event);
+      };
+
+      this.ws.onmessage = (event) => {
+        this.lastMessageTime = this.clock.now(); // 更新最后收到消息的时间
         
-        // 调用用户定义的onOpen回调
-        if (this.options.onOpen) {
-          this.options.onOpen(event);
+        if (this.auth && !this.auth.requiresHandshake && !authConfirmed) {
+          authConfirmed = true;
+          this.auth.handleSuccess();
         }
         
-        // 触发自定义open事件
-        this.eventBus.emit('open', event);
-    };
-
-    this.ws.onmessage = (event) => {
-        this.lastMessageTime = Date.now(); // 更新最后收到消息的时间
+        // 文件数据块直接交给文件接收，不经过解码和中间件
+        if (this.fileReceiver && typeof event.data !== 'string' && this.fileReceiver.handleChunk(event.data)) {
+          this.metrics.recordReceived(event.data, estimateSize(event.data));
+          this.lastTrafficTime = this.clock.now();
+          return;
+        }
+        
+        const bytes = estimateSize(event.data);
+        
+        // 有中间件时依次经过 raw 阶段（解码前）、解码、message 阶段后再处理
+        if (this.middleware.has('inbound')) {
+          this.middleware.run('inbound', event.data, {
+            convert: raw => this.decodeFrame(raw, bytes),
+            deliver: (data, raw) => this.handleInboundMessage(data, raw),
+            onError: (error, data) => this.handleMiddlewareError('inbound', error, data),
+            onCodecError: (error, raw) => this.handleDecodeError(error, raw, bytes)
+          });
+          return;
+        }
         
+        let data: any;
         try {
-          let data = event.data;
-          
-          // 自动解析JSON消息
-          if (this.options.autoParseMessage && typeof data === 'string') {
-            try {
-              data = JSON.parse(data);
-            } catch (e) {
-              // 如果不是有效的JSON，保持原样
-              this.log('消息不是有效的JSON格式，保持原始格式');
-            }
-          }
-          
-          // 检查是否是心跳响应
-          if (this.isPongMessage(data)) {
-            this.log('收到心跳响应');
-            this.resetHeartbeatTimeout();
-            return;
-          }
-          
-          // 触发message事件
-          this.eventBus.emit('message', data);
-          
-          // 对于JSON对象，如果有type字段，也触发对应type的事件
-          if (data && typeof data === 'object' && data.type) {
-            this.eventBus.emit(data.type, data);
-          }
+          data = this.decodeFrame(event.data, bytes);
         } catch (error) {
-          this.log('消息处理错误', error);
-          this.eventBus.emit('error', { type: 'messageError', error, raw: event.data });
+          this.handleDecodeError(error, event.data, bytes);
+          return;
         }
+        this.handleInboundMessage(data, event.data);
       };
 
       this.ws.onclose = (event) => {
         // 清除连接超时计时器
         if (this.connectionTimeoutTimer) {
-          clearTimeout(this.connectionTimeoutTimer);
+          this.clock.clearTimeout(this.connectionTimeoutTimer);
           this.connectionTimeoutTimer = null;
         }
         
-        this.connectionManager.state = ConnectionState.CLOSED;
-        this.log(`连接关闭: ${event.code} ${event.reason}`);
+        this.clearAuthHandshake();
+        
+        // 未能建立连接时记为该地址失败
+        if (opened) {
+          this.endpoints?.disconnected();
+        } else {
+          this.endpoints?.reportFailure();
+        }
         
-        // 清理心跳定时器
-        this.clearHeartbeatTimers();
+        const willReconnect = !this.explicitClose && !!this.options.autoReconnect;
+        this.handleClose(event, willReconnect);
         
-        // 调用用户定义的onClose回调
-        if (this.options.onClose) {
-          this.options.onClose(event);
+        // 连接建立后因异常的关闭代码断开时触发对应的错误
+        const closeError = opened && !this.explicitClose && !this.closeErrorReported ? this.closeError(event) : null;
+        this.closeErrorReported = false;
+        if (closeError) {
+          this.eventBus.emit('error', closeError);
         }
         
-        // 触发自定义close事件
-        this.eventBus.emit('close', event);
+        // 共享模式下通知其他标签页
+        if (this.shared?.role === 'leader') {
+          this.shared.post({ kind: 'close', code: event.code, reason: event.reason, wasClean: event.wasClean, willReconnect });
+        }
+        
+        // 切换地址时立即连接到新地址
+        const switching = this.endpointSwitch;
+        this.endpointSwitch = false;
         
-        // 如果不是手动关闭且需要自动重连
-        if (!this.explicitClose && this.options.autoReconnect) {
+        // 认证失败时刷新令牌并立即重试一次，不消耗重连次数
+        if (willReconnect && switching) {
+          this.startConnection();
+        } else if (willReconnect && this.auth?.shouldRetry(event.code)) {
+          this.log('AUTH_RETRY');
+          this.startConnection();
+        } else if (willReconnect) {
+          // 如果不是手动关闭且需要自动重连
           this.performReconnect();
         }
-    };
+      };
 
-    this.ws.onerror = (error) => {
-        this.log('连接错误', error);
+      this.ws.onerror = (error) => {
+        this.log('CONNECTION_ERROR', { error });
         
         // 调用用户定义的onError回调
         if (this.options.onError) {
@@ -403,85 +1102,705 @@ export default class SupaSocket {
         }
         
         // 触发自定义error事件
-        this.eventBus.emit('error', error);
+        this.eventBus.emit('error', new ConnectionFailedError('连接错误', 'connectionError', error));
         
         // 如果在连接中出错，可能需要处理连接失败
-        if (this.ws && this.ws.readyState === WebSocket.CONNECTING && this.options.retryOnError) {
+        if (this.ws && this.ws.readyState === READY_STATE.CONNECTING && this.options.retryOnError) {
+          this.disconnectReason = 'error';
           this.handleConnectionFailure();
         }
       };
     } catch (error) {
-      this.log('连接初始化失败', error);
+      this.log('CONNECTION_INIT_FAILED', { error });
+      if (this.connectionTimeoutTimer) {
+        this.clock.clearTimeout(this.connectionTimeoutTimer);
+        this.connectionTimeoutTimer = null;
+      }
+      this.endpoints?.reportFailure();
       this.connectionManager.state = ConnectionState.CLOSED;
-      this.eventBus.emit('error', { type: 'initError', error });
+      this.eventBus.emit('error', new ConnectionFailedError('连接初始化失败', 'initError', error));
       
       // 如果需要自动重连
       if (this.options.autoReconnect) {
+        this.disconnectReason = 'initError';
         this.performReconnect();
       }
     }
   }
   
   /**
-   * 处理连接失败
+   * 连接建立后的处理（共享模式下从标签页收到主标签页的连接成功通知时也会调用）
+   * @param event open事件
    * @private
    */
-  private handleConnectionFailure(): void {
-    // 清除当前WebSocket对象
-    this.ws = null;
+  private handleOpen(event: Event): void {
+    this.connectionManager.state = ConnectionState.OPEN;
+    this.log('CONNECTED');
+    this.reconnectCount = 0; // 重置重连计数器
+    this.lastCloseEvent = null;
     
-    // 如果需要自动重连
-    if (this.options.autoReconnect) {
-      this.performReconnect();
-    } else {
-      this.connectionManager.state = ConnectionState.CLOSED;
+    // 请求服务端补发断线期间的消息（从标签页由主标签页负责）
+    const resumeFrame = this.isFollower ? null : this.resume?.resumeFrame();
+    if (resumeFrame) {
+      this.log('RESUME_SENT');
+      this.transmit(resumeFrame);
+    }
+    
+    // 恢复频道订阅
+    this.channels.resubscribeAll();
+    
+    // 先重发未确认的可靠消息，再处理普通队列
+    this.reliable.resendAll();
+    
+    // 未完成的文件发送重新握手，从接收方确认的位置继续
+    this.transfers.forEach(transfer => transfer.handleOpen());
+    
+    // 重发断线前保留的请求
+    this.requestManager.resendRetained();
+    
+    // 处理连接成功后的消息队列
+    this.processMessageQueue();
+    
+    // 启动心跳检测
+    this.startHeartbeat();
+    
+    // 调用用户定义的onOpen回调
+    if (this.options.onOpen) {
+      this.options.onOpen(event);
     }
+    
+    // 触发自定义open事件
+    this.eventBus.emit('open', event);
   }
   
   /**
-   * 判断消息是否为心跳响应
-   * @param data 接收到的消息数据
+   * 发送认证帧并等待认证结果，期间消息留在队列中
+   * @param event open事件，认证成功后再触发
    * @private
    */
-  private isPongMessage(data: any): boolean {
-    if (!data) return false;
+  private startAuthHandshake(event: Event): void {
+    this.authPending = true;
+    this.authOpenEvent = event;
+    this.log('AUTH_SENT');
+    this.transmit(this.auth!.handshakeFrame());
     
-    // 如果是字符串，尝试解析为JSON
-    if (typeof data === 'string') {
-      try {
-        data = JSON.parse(data);
-      } catch (e) {
-        return false; // 不是有效的JSON
-      }
-    }
-    
-    // 如果配置了自定义的pong消息检查
-    const pongMessage = this.options.pongMessage;
-    if (pongMessage && typeof pongMessage === 'object') {
-      // 检查所有的pongMessage键值是否匹配
-      return Object.keys(pongMessage).every(key => 
-        data[key] !== undefined && data[key] === pongMessage[key]
-      );
-    }
-    
-    // 默认检查type: 'pong'
+    this.authTimer = this.clock.setTimeout(() => {
+      this.authTimer = null;
+      this.log('AUTH_TIMEOUT');
+      this.eventBus.emit('error', new HandshakeError('认证超时'));
+      this.closeErrorReported = true;
+      this.ws?.close();
+    }, this.auth!.timeout);
+  }
+  
+  /**
+   * 认证成功，完成连接
+   * @private
+   */
+  private completeAuthHandshake(): void {
+    const event = this.authOpenEvent!;
+    this.clearAuthHandshake();
+    this.auth!.handleSuccess();
+    this.log('AUTH_SUCCESS');
+    this.handleOpen(event);
+  }
+  
+  /**
+   * 认证失败，以认证失败代码关闭连接
+   * @param data 认证失败帧
+   * @private
+   */
+  private failAuthHandshake(data: any): void {
+    this.clearAuthHandshake();
+    this.log('AUTH_FAILED', { data });
+    this.eventBus.emit('error', new HandshakeError('认证失败', { data }));
+    this.closeErrorReported = true;
+    this.ws?.close(this.auth!.failureCode, 'auth failed');
+  }
+  
+  /**
+   * 清除认证等待状态
+   * @private
+   */
+  private clearAuthHandshake(): void {
+    if (this.authTimer) {
+      this.clock.clearTimeout(this.authTimer);
+      this.authTimer = null;
+    }
+    this.authPending = false;
+    this.authOpenEvent = null;
+  }
+  
+  /**
+   * 处理收到的消息：认证结果、心跳响应、确认帧、去重，之后分发
+   * @param data 解码并经过中间件处理的消息
+   * @param raw 原始消息数据
+   * @private
+   */
+  private handleInboundMessage(data: any, raw: any): void {
+    try {
+      // 等待认证结果
+      if (this.authPending) {
+        if (this.auth!.isAck(data)) {
+          this.completeAuthHandshake();
+          return;
+        }
+        if (this.auth!.isFailure(data)) {
+          this.failAuthHandshake(data);
+          return;
+        }
+      }
+      
+      // 检查是否是心跳响应
+      if (this.isPongMessage(data)) {
+        this.log('PONG_RECEIVED');
+        this.resetHeartbeatTimeout();
+        this.handlePong(data);
+        return;
+      }
+      
+      this.lastTrafficTime = this.clock.now();
+      
+      // 检查是否是可靠投递的确认帧
+      if (this.reliable.isAck(data)) {
+        this.reliable.handleAck(data);
+        return;
+      }
+      
+      // 文件传输的控制帧
+      if (isFileControlFrame(data) && this.handleFileControl(data)) {
+        return;
+      }
+      
+      // 丢弃续传时服务端重复发送的消息
+      if (this.resume && !this.resume.accept(data)) {
+        this.log('MESSAGE_DUPLICATE');
+        return;
+      }
+      
+      // 共享模式下转发给其他标签页
+      if (this.shared?.role === 'leader') {
+        this.shared.post({ kind: 'message', data });
+      }
+      
+      this.dispatchMessage(data);
+    } catch (error) {
+      this.log('MESSAGE_ERROR', { error });
+      this.eventBus.emit('error', new DecodeError('消息处理错误', raw, error));
+    }
+  }
+  
+  /**
+   * 解码收到的帧（开启 autoParseMessage 时）并记录接收统计
+   * @param raw 原始帧
+   * @param bytes 原始帧的字节数
+   * @returns 解码后的消息，解码失败时抛出错误
+   * @private
+   */
+  private decodeFrame(raw: any, bytes: number): any {
+    const data = this.options.autoParseMessage ? this.decodeMessage(raw) : raw;
+    this.metrics.recordReceived(data, bytes);
+    return data;
+  }
+  
+  /**
+   * 解码失败，该帧被丢弃
+   * @private
+   */
+  private handleDecodeError(error: any, raw: any, bytes: number): void {
+    this.metrics.recordReceived(raw, bytes);
+    this.log('MESSAGE_ERROR', { error });
+    this.eventBus.emit('error', new DecodeError('消息解码失败', raw, error));
+  }
+  
+  /**
+   * 中间件出错，该帧被丢弃
+   * @private
+   */
+  private handleMiddlewareError(direction: MiddlewareDirection, error: any, data: any): void {
+    this.log('MIDDLEWARE_ERROR', { direction, error });
+    this.eventBus.emit('error', new MiddlewareError(direction, error, data));
+  }
+  
+  /**
+   * 分发已解码的消息（心跳响应和确认帧之外的消息）
+   * @param data 已解码的消息
+   * @private
+   */
+  private dispatchMessage(data: any): void {
+    // 校验消息，无效消息只触发 invalidMessage 事件
+    if (this.validator) {
+      const result = this.validator.checkInbound(data);
+      if (!result.valid) {
+        this.log('MESSAGE_INVALID', { issues: result.issues });
+        this.eventBus.emit('invalidMessage', { data, issues: result.issues });
+        return;
+      }
+      data = result.data;
+    }
+    
+    // 如果是某个请求的回复，解析对应的Promise，不再作为普通消息分发
+    if (this.requestManager.handleReply(data)) {
+      return;
+    }
+    
+    // 分发给订阅了对应频道的处理函数
+    this.channels.dispatch(data);
+    
+    // 触发message事件
+    this.eventBus.emit('message', data);
+    
+    // 对于JSON对象，如果有type字段，也触发对应type的事件；与内置事件同名时触发 message:<type>
+    if (data && typeof data === 'object' && data.type) {
+      const type = String(data.type);
+      this.eventBus.emit(Object.prototype.hasOwnProperty.call(BUILT_IN_EVENTS, type) ? `message:${type}` : type, data);
+    }
+  }
+  
+  /**
+   * 连接关闭后的处理（不包括重连）
+   * @param event 关闭事件
+   * @param willReconnect 之后是否会自动重连
+   * @private
+   */
+  private handleClose(event: CloseEvent, willReconnect: boolean): void {
+    this.lastCloseEvent = event;
+    this.connectionManager.state = ConnectionState.CLOSED;
+    this.log('CONNECTION_CLOSED', { closeCode: event.code, reason: event.reason });
+    
+    // 清理心跳定时器
+    this.clearHeartbeatTimers();
+    this.missedHeartbeats = 0;
+    this.latencyTracker.clearOutstanding();
+    this.flow.reset();
+    
+    // 结束未完成的请求（需要重连时保留可重发的请求）
+    this.requestManager.handleClose(willReconnect);
+    
+    // 暂停可靠消息的重发，不再重连时标记为投递失败
+    this.reliable.pause();
+    if (!willReconnect) {
+      this.reliable.failAll('closed');
+    }
+    
+    // 文件发送等待重连，不再重连时中止
+    this.transfers.forEach(transfer => willReconnect ? transfer.handleClose() : transfer.fail('closed'));
+    
+    // 调用用户定义的onClose回调
+    if (this.options.onClose) {
+      this.options.onClose(event);
+    }
+    
+    // 触发自定义close事件
+    this.eventBus.emit('close', event);
+  }
+  
+  /**
+   * 加入共享连接，由选举结果决定是建立连接还是使用主标签页的连接
+   * @private
+   */
+  private joinShared(): void {
+    this.explicitClose = false;
+    
+    // 已加入时向主标签页获取当前连接状态
+    if (this.shared) {
+      this.postShared({ kind: 'hello' });
+      return;
+    }
+    
+    const sharedOptions = typeof this.options.shared === 'object' ? this.options.shared : {};
+    this.connectionManager.state = ConnectionState.CONNECTING;
+    this.log('SHARED_JOIN');
+    
+    // 默认按地址区分共享连接，使用地址列表时按列表区分
+    const key = this.options.url ?? (Array.isArray(this.options.urls) ? this.options.urls.join(',') : 'endpoints');
+    this.shared = new SharedConnection(sharedOptions.name || `supa-socket:${key}`, sharedOptions, {
+      onRoleChange: role => this.handleSharedRole(role),
+      onMessage: message => this.handleSharedMessage(message)
+    }, this.clock);
+    
+    // 标签页关闭时退出共享，主标签页退出后由其他标签页接任
+    if (typeof window !== 'undefined' && typeof window.addEventListener === 'function') {
+      this.pageHideListener = () => this.leaveShared();
+      window.addEventListener('pagehide', this.pageHideListener);
+    }
+  }
+  
+  /**
+   * 退出共享连接
+   * @private
+   */
+  private leaveShared(): void {
+    if (!this.shared) return;
+    
+    if (this.pageHideListener) {
+      window.removeEventListener('pagehide', this.pageHideListener);
+      this.pageHideListener = null;
+    }
+    
+    if (this.shared.role === 'leader') {
+      // 释放其他标签页的频道订阅，并通知它们等待新的主标签页
+      this.remoteSubscriptions.forEach(subs => subs.forEach(sub => sub.unsubscribe()));
+      this.remoteSubscriptions.clear();
+      this.shared.post({ kind: 'close', code: 1001, reason: 'leader left', wasClean: true, willReconnect: true });
+    }
+    
+    this.shared.dispose();
+    this.shared = null;
+    this.sharedPending.clear();
+    this.sharedLeader = null;
+  }
+  
+  /**
+   * 共享模式下的角色变化
+   * @param role 新角色
+   * @private
+   */
+  private handleSharedRole(role: SharedRole): void {
+    if (role === 'leader') {
+      this.log('SHARED_LEADER');
+      // 交给原主标签页、尚未确认的可靠消息改由本标签页投递
+      this.sharedPending.forEach(data => this.reliable.send(data));
+      this.sharedPending.clear();
+      this.sharedLeader = null;
+      this.startConnection();
+    } else if (role === 'follower') {
+      this.log('SHARED_FOLLOWER');
+      this.releaseLeaderSocket();
+      this.postShared({ kind: 'hello' });
+    }
+  }
+  
+  /**
+   * 主标签页降级为从标签页（同时出现两个主标签页）时关闭自己的连接，之后由新的主标签页代理收发
+   * 本标签页未确认的可靠消息交给新的主标签页，代发的消息由来源标签页重新交给新的主标签页
+   * @private
+   */
+  private releaseLeaderSocket(): void {
+    const ws = this.ws;
+    if (!ws) return;
+    
+    this.log('SHARED_DEMOTED');
+    this.ws = null;
+    ws.onopen = ws.onmessage = ws.onclose = ws.onerror = null;
+    try {
+      ws.close(1000, 'shared leader demoted');
+    } catch (e) {
+      this.log('CLOSE_FAILED', { error: e });
+    }
+    
+    if (this.connectionTimeoutTimer) {
+      this.clock.clearTimeout(this.connectionTimeoutTimer);
+      this.connectionTimeoutTimer = null;
+    }
+    this.clearAuthHandshake();
+    this.cancelReconnect();
+    this.handleClose(this.createCloseEvent(1000, 'shared leader demoted', true), true);
+    
+    // 连接已关闭，释放代理的订阅时不会发送退订帧
+    this.remoteSubscriptions.forEach(subs => subs.forEach(sub => sub.unsubscribe()));
+    this.remoteSubscriptions.clear();
+    this.relayedReliable.clear();
+    this.reliable.takeAll()
+      .filter(entry => !entry.origin)
+      .forEach(entry => this.sharedPending.set(++this.sharedSendId, entry.frame));
+    
+    this.connectionManager.state = ConnectionState.RECONNECTING;
+  }
+  
+  /**
+   * 处理其他标签页发来的消息
+   * @param message 共享消息
+   * @private
+   */
+  private handleSharedMessage(message: SharedMessage): void {
+    // 主标签页：代理从标签页的发送和订阅
+    if (this.shared?.role === 'leader') {
+      switch (message.kind) {
+        case 'hello':
+          this.postShared({ kind: 'state', state: this.connectionManager.state });
+          break;
+        case 'send':
+          if (message.reliable && message.id !== undefined) {
+            this.relayReliable(message.from, message.id, message.data);
+          } else {
+            this.sendMessage(message.data, { reliable: message.reliable });
+          }
+          break;
+        case 'join':
+          this.joinRemote(message.from, message.channel, message.params);
+          break;
+        case 'leave':
+          this.remoteSubscriptions.get(message.from)?.get(message.channel)?.unsubscribe();
+          this.remoteSubscriptions.get(message.from)?.delete(message.channel);
+          break;
+        case 'bye':
+          this.remoteSubscriptions.get(message.from)?.forEach(sub => sub.unsubscribe());
+          this.remoteSubscriptions.delete(message.from);
+          break;
+      }
+      return;
+    }
+    
+    // 从标签页：主标签页变化后，把尚未确认的可靠消息重新交给新的主标签页（主标签页按编号去重）
+    if (message.kind === 'state' && message.from !== this.sharedLeader) {
+      this.sharedLeader = message.from;
+      this.sharedPending.forEach((data, id) => this.postShared({ kind: 'send', data, reliable: true, id }));
+    }
+    
+    // 从标签页：同步主标签页的连接状态和收到的消息
+    switch (message.kind) {
+      case 'delivered':
+      case 'deliveryFailed':
+        if (message.to !== this.shared?.tabId || !this.sharedPending.delete(message.id)) break;
+        if (message.kind === 'delivered') {
+          this.eventBus.emit('delivered', { seq: message.seq, data: message.data });
+        } else {
+          this.log('DELIVERY_FAILED', { seq: message.seq, reason: message.reason });
+          this.eventBus.emit('deliveryFailed', { seq: message.seq, data: message.data, reason: message.reason });
+        }
+        break;
+      case 'state':
+        if (message.state === ConnectionState.OPEN) {
+          if (!this.isConnected) {
+            this.handleOpen(new Event('open'));
+          }
+        } else {
+          this.connectionManager.state = message.state;
+        }
+        break;
+      case 'close':
+        this.handleClose(this.createCloseEvent(message.code, message.reason, message.wasClean), message.willReconnect);
+        if (message.willReconnect) {
+          this.connectionManager.state = ConnectionState.RECONNECTING;
+        }
+        break;
+      case 'message':
+        this.lastMessageTime = this.clock.now();
+        // 记录事件ID，成为主标签页后用于续传
+        this.resume?.accept(message.data);
+        try {
+          this.dispatchMessage(message.data);
+        } catch (error) {
+          this.log('MESSAGE_ERROR', { error });
+          this.eventBus.emit('error', new DecodeError('消息处理错误', message.data, error));
+        }
+        break;
+    }
+  }
+  
+  /**
+   * 主标签页代发其他标签页的可靠消息，重复转交的同一条消息只发送一次
+   * @param tabId 来源标签页
+   * @param id 来源标签页内的消息编号
+   * @param data 消息对象
+   * @private
+   */
+  private relayReliable(tabId: string, id: number, data: any): void {
+    const key = `${tabId}:${id}`;
+    if (this.relayedReliable.has(key)) return;
+    
+    this.relayedReliable.add(key);
+    const origin: RelayOrigin = { tabId, id };
+    this.reliable.send(data, origin);
+  }
+  
+  /**
+   * 主标签页退出时放弃代发的可靠消息，不通知失败，由来源标签页交给新的主标签页
+   * @private
+   */
+  private releaseRelayed(): void {
+    this.reliable.takeAll(origin => origin !== undefined);
+    this.relayedReliable.clear();
+  }
+  
+  /**
+   * 主标签页代理其他标签页的频道订阅，同一标签页重复订阅只计一次
+   * @private
+   */
+  private joinRemote(tabId: string, channel: string, params?: any): void {
+    let subs = this.remoteSubscriptions.get(tabId);
+    if (!subs) {
+      subs = new Map();
+      this.remoteSubscriptions.set(tabId, subs);
+    }
+    
+    if (!subs.has(channel)) {
+      subs.set(channel, this.channels.subscribe(channel, () => {}, params));
+    }
+  }
+  
+  /**
+   * 向其他标签页发送消息
+   * @param message 共享消息
+   * @returns 是否发送成功
+   * @private
+   */
+  private postShared(message: OutgoingSharedMessage): boolean {
+    if (!this.shared) return false;
+    
+    try {
+      this.shared.post(message);
+      return true;
+    } catch (error) {
+      // 无法结构化克隆的数据（如函数）不能跨标签页传递
+      this.log('SHARED_POST_FAILED', { error });
+      this.eventBus.emit('error', new SendError('发送到主标签页失败', { cause: error, data: (message as any).data }));
+      return false;
+    }
+  }
+  
+  /**
+   * 按 RFC 6455 的关闭代码创建对应的错误，正常关闭时返回 null
+   * @param event 关闭事件
+   * @private
+   */
+  private closeError(event: CloseEvent): ProtocolCloseError | HandshakeError | null {
+    if (describeCloseCode(event.code).normal) {
+      return null;
+    }
+    
+    const error = new ProtocolCloseError(event.code, event.reason, event.wasClean);
+    // 认证失败代码和 TLS 握手失败视为握手错误
+    if (event.code === 1015 || this.auth?.isFailureCode(event.code)) {
+      return new HandshakeError('认证失败', { cause: error });
+    }
+    return error;
+  }
+  
+  /**
+   * 最后一次连接关闭对应的错误
+   * @private
+   */
+  private lastCloseError(): SupaSocketError | undefined {
+    return (this.lastCloseEvent && this.closeError(this.lastCloseEvent)) || undefined;
+  }
+  
+  /**
+   * 创建关闭事件（非浏览器环境没有 CloseEvent 时使用普通对象）
+   * @private
+   */
+  private createCloseEvent(code: number, reason: string, wasClean: boolean): CloseEvent {
+    if (typeof CloseEvent !== 'undefined') {
+      return new CloseEvent('close', { code, reason, wasClean });
+    }
+    return { type: 'close', code, reason, wasClean } as CloseEvent;
+  }
+  
+  /**
+   * 处理连接失败
+   * @private
+   */
+  private handleConnectionFailure(): void {
+    // 清除当前WebSocket对象
+    this.ws = null;
+    
+    // 如果需要自动重连
+    if (this.options.autoReconnect) {
+      this.performReconnect();
+    } else {
+      this.connectionManager.state = ConnectionState.CLOSED;
+    }
+  }
+  
+  /**
+   * 使用编解码器解码收到的消息
+   * @param raw 原始消息数据
+   * @returns 解码后的消息，解码失败时返回原始数据
+   * @private
+   */
+  private decodeMessage(raw: any): any {
+    const codec = this.options.codec;
+    
+    // 文本帧：使用文本编解码器，二进制编解码器下按JSON解析
+    if (typeof raw === 'string') {
+      const textCodec = codec && !codec.binary ? codec : JsonCodec;
+      try {
+        return textCodec.decode(raw);
+      } catch (e) {
+        // 默认的JSON解析下，不像JSON的纯文本保持原样；自定义编解码器或格式错误的JSON视为解码失败
+        if (textCodec === JsonCodec && !/^\s*[[{]/.test(raw)) {
+          this.log('MESSAGE_NOT_JSON');
+          return raw;
+        }
+        this.log('MESSAGE_DECODE_FAILED', { codec: textCodec.name });
+        throw e;
+      }
+    }
+    
+    // 二进制帧：仅在配置了二进制编解码器时解码（ArrayBuffer、Buffer 或 ws 的 fragments）
+    const bytes = codec && codec.binary ? toUint8Array(raw) : null;
+    if (codec && bytes) {
+      try {
+        return codec.decode(bytes);
+      } catch (e) {
+        this.log('MESSAGE_DECODE_FAILED', { codec: codec.name });
+        throw e;
+      }
+    }
+    
+    return raw;
+  }
+  
+  /**
+   * 判断消息是否为心跳响应
+   * @param data 接收到的消息数据
+   * @private
+   */
+  private isPongMessage(data: any): boolean {
+    if (!data) return false;
+    
+    // 如果是字符串，尝试解析为JSON
+    if (typeof data === 'string') {
+      try {
+        data = JSON.parse(data);
+      } catch (e) {
+        return false; // 不是有效的JSON
+      }
+    }
+    
+    // 如果配置了自定义的pong消息检查
+    const pongMessage = this.options.pongMessage;
+    if (pongMessage && typeof pongMessage === 'object') {
+      // 检查所有的pongMessage键值是否匹配
+      return matchesShape(data, pongMessage);
+    }
+    
+    // 默认检查type: 'pong'
     return data && typeof data === 'object' && data.type === 'pong';
   }
 
   /**
    * 处理消息队列
+   * @returns 每条消息的发送结果
    * @private
    */
-  private processMessageQueue(): void {
-    if (this.messageQueue.length > 0) {
-      this.log(`处理队列中的 ${this.messageQueue.length} 条消息`);
-      
-      // 发送所有排队的消息
-      this.messageQueue.forEach(msg => this.send(msg));
-      
-      // 清空队列
-      this.messageQueue = [];
+  private processMessageQueue(): QueueFlushResult[] {
+    if (this.messageQueue.length === 0 || this.messageQueue.isRestoring) {
+      return [];
     }
+    
+    this.log('QUEUE_FLUSH', { count: this.messageQueue.length });
+    
+    // 按优先级顺序发送，连接断开、发送缓冲区拥塞或超过速率限制时停止，剩余消息留在队列中
+    const results = this.messageQueue.flush(
+      data => this.transmit(data),
+      () => this.isSocketOpen() && this.flow.writable
+    );
+    if (this.messageQueue.length > 0 && this.isSocketOpen()) {
+      this.flow.schedule();
+    }
+    
+    const failed = results.filter(result => !result.success).length;
+    this.metrics.recordQueueDepth(this.messageQueue.length);
+    this.eventBus.emit('queueFlush', {
+      results,
+      sent: results.length - failed,
+      failed,
+      remaining: this.messageQueue.length
+    });
+    
+    return results;
   }
 
   /**
@@ -491,24 +1810,68 @@ export default class SupaSocket {
   private startHeartbeat(): void {
     this.clearHeartbeatTimers();
     
+    // 从标签页由主标签页负责心跳
+    if (this.isFollower) {
+      return;
+    }
+    
     if (!this.options.heartbeatInterval || this.options.heartbeatInterval <= 0) {
       return;
     }
     
-    this.log('启动心跳检测');
-    this.heartbeatTimer = setInterval(() => {
-      // 创建心跳消息，如果是对象类型，添加时间戳
-      let pingMessage = this.options.pingMessage;
-      if (typeof pingMessage === 'object' && pingMessage !== null) {
-        pingMessage = { ...pingMessage, time: Date.now() };
-      }
-      
-      this.log('发送心跳包');
-      this.send(pingMessage);
-      
-      // 设置心跳超时检测
-      this.startHeartbeatTimeout();
-    }, this.options.heartbeatInterval);
+    // 页面隐藏时使用较长的心跳间隔或暂停心跳
+    const interval = this.environment?.isHidden
+      ? this.environment.hiddenHeartbeatInterval
+      : this.options.heartbeatInterval;
+    
+    if (interval <= 0) {
+      return;
+    }
+    
+    this.log('HEARTBEAT_START');
+    this.heartbeatTimer = this.clock.setInterval(() => this.heartbeatTick(interval), interval);
+  }
+  
+  /**
+   * 定时心跳
+   * @param interval 当前的心跳间隔
+   * @private
+   */
+  private heartbeatTick(interval: number): void {
+    // 一个心跳间隔内收到过其他消息，说明连接正常，跳过本次心跳
+    if (this.options.heartbeatSkipOnTraffic && this.clock.now() - this.lastTrafficTime < interval) {
+      this.log('HEARTBEAT_SKIPPED');
+      this.missedHeartbeats = 0;
+      this.resetHeartbeatTimeout();
+      return;
+    }
+    
+    this.sendPing();
+  }
+  
+  /**
+   * 发送心跳包并启动超时检测
+   * 心跳包直接写入连接，不进入发送队列，也不会被持久化
+   * @private
+   */
+  private sendPing(): void {
+    if (!this.isSocketOpen()) {
+      return;
+    }
+    
+    // 创建心跳消息，如果是对象类型，添加时间戳
+    const time = this.clock.now();
+    let pingMessage = this.options.pingMessage;
+    if (typeof pingMessage === 'object' && pingMessage !== null) {
+      pingMessage = { ...pingMessage, time };
+    }
+    this.latencyTracker.pingSent(time);
+    
+    this.log('PING_SENT');
+    this.transmit(pingMessage);
+    
+    // 设置心跳超时检测
+    this.startHeartbeatTimeout();
   }
 
   /**
@@ -516,139 +1879,592 @@ export default class SupaSocket {
    * @private
    */
   private startHeartbeatTimeout(): void {
+    // 上一个心跳还在等待响应时不重新计时
     if (this.heartbeatTimeoutTimer) {
-      clearTimeout(this.heartbeatTimeoutTimer);
+      return;
     }
     
     if (!this.options.heartbeatTimeout || this.options.heartbeatTimeout <= 0) {
       return;
     }
 
-    this.heartbeatTimeoutTimer = setTimeout(() => {
-      this.log('心跳超时，重新连接');
-      this.eventBus.emit('heartbeatTimeout', { time: Date.now() });
+    this.heartbeatTimeoutTimer = this.clock.setTimeout(() => {
+      this.heartbeatTimeoutTimer = null;
+      this.missedHeartbeats++;
+      
+      // 未达到允许的连续丢失次数时继续等待下一次心跳
+      const maxMissed = Math.max(1, this.options.heartbeatMaxMissed ?? 1);
+      if (this.missedHeartbeats < maxMissed) {
+        this.log('HEARTBEAT_MISSED', { missed: this.missedHeartbeats, maxMissed });
+        return;
+      }
+      
+      this.log('HEARTBEAT_TIMEOUT');
+      this.eventBus.emit('heartbeatTimeout', { time: this.clock.now(), missed: this.missedHeartbeats });
+      this.missedHeartbeats = 0;
       
       // 关闭当前连接并重连
       if (this.ws) {
         try {
           this.ws.close();
         } catch (e) {
-          this.log('关闭连接时出错', e);
+          this.log('CLOSE_FAILED', { error: e });
+        }
+      }
+      
+      if (this.options.autoReconnect) {
+        this.disconnectReason = 'heartbeatTimeout';
+        this.performReconnect();
+      }
+    }, this.options.heartbeatTimeout);
+  }
+
+  /**
+   * 收到心跳响应：计算往返时延
+   * @param data 心跳响应
+   * @private
+   */
+  private handlePong(data: any): void {
+    this.missedHeartbeats = 0;
+    
+    const sample = this.latencyTracker.pongReceived(data && typeof data === 'object' ? data.time : undefined);
+    if (sample) {
+      this.log('LATENCY', { rtt: sample.rtt, srtt: sample.srtt });
+      this.eventBus.emit('latency', sample);
+    }
+  }
+  
+  /**
+   * 重置心跳超时
+   * @private
+   */
+  private resetHeartbeatTimeout(): void {
+    if (this.heartbeatTimeoutTimer) {
+      this.clock.clearTimeout(this.heartbeatTimeoutTimer);
+      this.heartbeatTimeoutTimer = null;
+    }
+  }
+
+  /**
+   * 清理心跳定时器
+   * @private
+   */
+  private clearHeartbeatTimers(): void {
+    if (this.heartbeatTimer) {
+      this.clock.clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    
+    if (this.heartbeatTimeoutTimer) {
+      this.clock.clearTimeout(this.heartbeatTimeoutTimer);
+      this.heartbeatTimeoutTimer = null;
+    }
+  }
+
+  /**
+   * 断点重连
+   * @private
+   */
+  private performReconnect(): void {
+    // 重连原因只对本次调用有效
+    const reason = this.disconnectReason
+      ?? (this.lastCloseEvent ? `close:${this.lastCloseEvent.code}` : 'unknown');
+    this.disconnectReason = null;
+    
+    // 已经有等待中的重连（例如 onerror 和 onclose 先后触发），不重复计数；从标签页由主标签页负责重连
+    if (this.reconnectTimer || this.isFollower) {
+      return;
+    }
+    
+    // 离线时暂停重连，等待 online 事件，不消耗重连次数
+    if (this.environment && !this.environment.isOnline) {
+      this.log('RECONNECT_PAUSED');
+      this.connectionManager.state = ConnectionState.RECONNECTING;
+      return;
+    }
+    
+    const { reconnectLimit } = this.options;
+    const limit = reconnectLimit ?? 5;
+    
+    if (this.reconnectCount >= limit) {
+      this.log('RECONNECT_LIMIT', { limit });
+      this.failReconnect('limit');
+      return;
+    }
+    
+    // 根据重连策略计算延迟，返回 null 表示不再重连
+    const delay = this.reconnectStrategy(this.reconnectCount + 1, this.lastCloseEvent);
+    if (delay === null) {
+      this.log('RECONNECT_CLOSE_CODE');
+      this.failReconnect('closeCode');
+      return;
+    }
+
+    this.connectionManager.state = ConnectionState.RECONNECTING;
+    this.reconnectCount++;
+    
+    this.log('RECONNECTING', { limit, delay, reason });
+    this.eventBus.emit('reconnecting', { 
+      attempt: this.reconnectCount, 
+      limit: reconnectLimit,
+      delay,
+      reason
+    });
+
+    this.reconnectTimer = this.clock.setTimeout(() => {
+      this.reconnectTimer = null;
+      this.startConnection();
+    }, delay);
+  }
+  
+  /**
+   * 放弃重连，结束所有等待中的请求和可靠消息
+   * @param reason 放弃原因
+   * @private
+   */
+  private failReconnect(reason: 'limit' | 'closeCode'): void {
+    this.requestManager.rejectAll('重连失败');
+    this.reliable.failAll('closed');
+    this.transfers.forEach(transfer => transfer.fail('closed'));
+    this.eventBus.emit('reconnectFailed', { 
+      attempts: this.reconnectCount, 
+      limit: this.options.reconnectLimit,
+      reason,
+      code: this.lastCloseEvent?.code
+    });
+  }
+  
+  /**
+   * 网络恢复在线：重置重连次数并立即重连
+   * @private
+   */
+  private handleOnline(): void {
+    this.log('NETWORK_ONLINE');
+    this.eventBus.emit('online', { time: this.clock.now() });
+    
+    if (
+      this.explicitClose ||
+      !this.options.autoReconnect ||
+      this.isSocketOpen() ||
+      this.connectionManager.state === ConnectionState.CONNECTING
+    ) {
+      return;
+    }
+    
+    this.cancelReconnect();
+    this.reconnectCount = 0;
+    this.startConnection();
+  }
+  
+  /**
+   * 网络离线：取消等待中的重连
+   * @private
+   */
+  private handleOffline(): void {
+    this.log('NETWORK_OFFLINE');
+    this.eventBus.emit('offline', { time: this.clock.now() });
+    
+    if (this.reconnectTimer) {
+      this.cancelReconnect();
+      this.log('RECONNECT_PAUSED');
+    }
+  }
+  
+  /**
+   * 页面可见性变化：调整心跳，恢复可见时立即确认连接
+   * @param hidden 页面是否隐藏
+   * @private
+   */
+  private handleVisibilityChange(hidden: boolean): void {
+    this.log(hidden ? 'PAGE_HIDDEN' : 'PAGE_VISIBLE');
+    this.eventBus.emit(hidden ? 'hidden' : 'visible', { time: this.clock.now() });
+    
+    if (!this.isConnected || this.isFollower) {
+      return;
+    }
+    
+    this.startHeartbeat();
+    
+    if (!hidden && this.environment?.pingOnVisible) {
+      this.sendPing();
+    }
+  }
+  
+  /**
+   * 取消等待中的重连
+   * @private
+   */
+  private cancelReconnect(): void {
+    if (this.reconnectTimer) {
+      this.clock.clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+  
+  /**
+   * 根据配置创建重连策略
+   * @private
+   */
+  private createReconnectStrategy(): ReconnectStrategyFn {
+    return createReconnectStrategy(
+      this.options.reconnectStrategy,
+      {
+        initialDelay: this.options.reconnectInterval ?? 5000,
+        maxDelay: this.options.maxReconnectDelay ?? 30000
+      },
+      this.options.closeCodePolicy
+    );
+  }
+
+  /**
+   * 发送消息
+   * @param data 要发送的数据
+   * @param options 发送选项（优先级、有效期），仅在消息进入队列时生效
+   * @returns 是否发送成功
+   */
+  public send(
+    data: OutboundMessage<TOut> | string | ArrayBuffer | ArrayBufferView | Blob,
+    options?: SendOptions
+  ): boolean {
+    const checked = this.validateOutbound(data);
+    return checked.valid ? this.sendMessage(checked.data, options) : false;
+  }
+  
+  /**
+   * 校验要发送的消息，所有公开的发送方法共用；无效消息直接失败，不进入队列
+   * @param data 要发送的消息
+   * @returns 校验结果，通过时 data 为校验后的消息（Standard Schema 可能转换 payload）
+   * @private
+   */
+  private validateOutbound(data: any): { valid: true; data: any } | { valid: false; error: ValidationError } {
+    if (!this.validator) {
+      return { valid: true, data };
+    }
+    
+    const result = this.validator.checkOutbound(data);
+    if (result.valid) {
+      return result;
+    }
+    
+    const error = new ValidationError('outbound', data?.type, result.issues, data);
+    this.log('OUTBOUND_INVALID', { issues: result.issues });
+    this.eventBus.emit('error', error);
+    return { valid: false, error };
+  }
+  
+  /**
+   * 发送消息并等待发送缓冲区排空
+   * 未连接时先等待连接就绪，拥塞或超过速率限制时等待可以发送，发送后等待 bufferedAmount 降到低水位以下
+   * @param data 要发送的数据
+   * @param options 发送选项和等待选项
+   * @returns Promise，消息已写入连接且缓冲区已排空时解析；消息未通过校验时以 ValidationError 拒绝
+   */
+  public async sendAsync(
+    data: OutboundMessage<TOut> | string | ArrayBuffer | ArrayBufferView | Blob,
+    options: SendAsyncOptions = {}
+  ): Promise<void> {
+    const checked = this.validateOutbound(data);
+    if (!checked.valid) {
+      throw checked.error;
+    }
+    
+    const { timeout, signal, ...sendOptions } = options;
+    const deadline = timeout && timeout > 0 ? this.clock.now() + timeout : 0;
+    const remaining = (): WaitOptions => ({
+      signal,
+      timeout: deadline ? Math.max(1, deadline - this.clock.now()) : undefined
+    });
+    
+    await this.ready(remaining());
+    
+    // 等待拥塞解除、令牌恢复，并且队列中之前的消息已经发出
+    await this.waitOn<void>(({ resolve }) => {
+      let remove = () => {};
+      const check = () => {
+        if (this.writable || !this.isSocketOpen()) {
+          resolve();
+        } else {
+          remove = this.flow.whenWritable(check);
+        }
+      };
+      check();
+      return () => remove();
+    }, remaining());
+    
+    // 有发送中间件时等待中间件处理完成，被丢弃或写入失败时拒绝
+    const written = await this.waitOn<boolean>(({ resolve }) => {
+      this.sendMessage(checked.data, sendOptions, resolve);
+      return () => {};
+    }, remaining());
+    if (!written) {
+      throw new SendError('发送消息失败', { data });
+    }
+    
+    // 等待缓冲区降到低水位以下
+    await this.waitOn<void>(({ resolve, reject }) => {
+      const removeClose = this.eventBus.listen('close', () => reject(new SendError('发送过程中连接断开', { data })));
+      let remove = () => {};
+      const check = () => {
+        if (this.flow.drained) {
+          resolve();
+        } else {
+          remove = this.flow.whenDrained(check);
+        }
+      };
+      check();
+      return () => {
+        remove();
+        removeClose();
+      };
+    }, remaining());
+  }
+  
+  /**
+   * 发送消息（不做消息类型检查，供内部协议帧使用）
+   * @param data 要发送的数据
+   * @param options 发送选项
+   * @param onWritten 直接发送时在实际写出后调用，加入队列或可靠发送时立即调用
+   * @returns 是否发送成功
+   * @private
+   */
+  private sendMessage(data: any, options?: SendOptions, onWritten?: (sent: boolean) => void): boolean {
+    // 可靠投递的消息由重发缓冲区负责发送和重连后的重发
+    if (options?.reliable) {
+      const accepted = this.sendReliable(data);
+      onWritten?.(accepted);
+      return accepted;
+    }
+    
+    // 如果连接已打开，直接发送
+    if (this.isSocketOpen()) {
+      // 发送缓冲区拥塞或超过速率限制时加入队列，可以发送时按顺序发出
+      if (!this.flow.writable || this.messageQueue.length > 0 || this.messageQueue.isRestoring) {
+        this.log('SEND_THROTTLED');
+        const accepted = this.enqueue(data, options);
+        this.flow.schedule();
+        onWritten?.(accepted);
+        return accepted;
+      }
+      return this.transmit(data, onWritten);
+    } 
+    // 如果连接正在建立中或重连中，加入队列
+    else if (
+      this.connectionManager.state === ConnectionState.CONNECTING || 
+      this.connectionManager.state === ConnectionState.RECONNECTING ||
+      this.messageQueue.queueWhenClosed
+    ) {
+      this.log('SEND_QUEUED');
+      const accepted = this.enqueue(data, options);
+      onWritten?.(accepted);
+      return accepted;
+    } 
+    // 连接已关闭
+    else {
+      this.log('SEND_CLOSED');
+      this.eventBus.emit('error', new SendError('连接已关闭', { data }));
+      onWritten?.(false);
+      return false;
+    }
+  }
+  
+  /**
+   * 通过WebSocket实际发送消息
+   * @param data 要发送的数据
+   * @param onWritten 实际写出（或确定失败）后的回调，有发送中间件时在中间件处理完成后调用
+   * @returns 是否发送成功；有发送中间件时表示已接收，被丢弃或失败时通知请求和可靠投递
+   * @private
+   */
+  private transmit(data: any, onWritten?: (sent: boolean) => void): boolean {
+    this.requestManager.markSent(data);
+    
+    // 从标签页交给主标签页发送
+    if (this.isFollower) {
+      const posted = this.postShared({ kind: 'send', data });
+      onWritten?.(posted);
+      return posted;
+    }
+    
+    if (!this.middleware.has('outbound')) {
+      const sent = this.writeFrame(data);
+      onWritten?.(sent);
+      return sent;
+    }
+    
+    // 依次经过 message 阶段、编码、raw 阶段（编码后）后再写入
+    const ws = this.ws;
+    this.middleware.run('outbound', data, {
+      convert: message => this.prepareMessage(message),
+      deliver: (message, frame) => {
+        // 处理期间连接已断开或已重连时不写入新的连接，请求和可靠消息由重连后的重发负责
+        if (this.ws !== ws || !this.isSocketOpen()) {
+          this.log('SEND_STALE');
+          this.eventBus.emit('error', new SendError('中间件处理期间连接已断开', { data }));
+          return false;
         }
+        return this.writeFrame(message, frame);
+      },
+      onError: (error, message) => this.handleMiddlewareError('outbound', error, message),
+      onCodecError: error => {
+        this.log('SEND_FAILED', { error });
+        this.eventBus.emit('error', new SendError('发送消息失败', { cause: error, data }));
       }
-      
-      if (this.options.autoReconnect) {
-        this.performReconnect();
+    }).then(sent => {
+      if (!sent && this.ws === ws) {
+        // 被中间件丢弃或出错，等待回复的请求和可靠消息按发送失败处理
+        this.requestManager.failSend(data);
+        this.reliable.failSend(data);
       }
-    }, this.options.heartbeatTimeout);
+      onWritten?.(sent);
+    });
+    return true;
   }
-
+  
   /**
-   * 重置心跳超时
+   * 编码并写入WebSocket
+   * @param data 要发送的数据
+   * @param encoded 已编码的数据，不提供时使用编解码器编码
+   * @returns 是否发送成功
    * @private
    */
-  private resetHeartbeatTimeout(): void {
-    if (this.heartbeatTimeoutTimer) {
-      clearTimeout(this.heartbeatTimeoutTimer);
-      this.heartbeatTimeoutTimer = null;
+  private writeFrame(data: any, encoded?: any): boolean {
+    try {
+      const message = encoded === undefined ? this.prepareMessage(data) : encoded;
+      this.ws!.send(message);
+      const bytes = estimateSize(message);
+      this.metrics.recordSent(data, bytes);
+      this.flow.recordSent(bytes);
+      return true;
+    } catch (error) {
+      this.log('SEND_FAILED', { error });
+      this.eventBus.emit('error', new SendError('发送消息失败', { cause: error, data }));
+      return false;
     }
   }
-
+  
   /**
-   * 清理心跳定时器
+   * 可靠发送消息，分配序列号并等待服务端确认
+   * @param data 消息对象
+   * @returns 是否已接收该消息
    * @private
    */
-  private clearHeartbeatTimers(): void {
-    if (this.heartbeatTimer) {
-      clearInterval(this.heartbeatTimer);
-      this.heartbeatTimer = null;
+  private sendReliable(data: any): boolean {
+    if (!data || typeof data !== 'object' || data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+      this.eventBus.emit('error', new SendError('可靠投递仅支持对象消息', { data }));
+      return false;
     }
     
-    if (this.heartbeatTimeoutTimer) {
-      clearTimeout(this.heartbeatTimeoutTimer);
-      this.heartbeatTimeoutTimer = null;
+    if (this.connectionManager.state === ConnectionState.CLOSED && !this.isSocketOpen()) {
+      this.log('RELIABLE_CLOSED');
+      this.eventBus.emit('error', new SendError('连接已关闭', { data }));
+      return false;
+    }
+    
+    // 从标签页交给主标签页可靠发送，确认前保留，主标签页变化后重新交给新的主标签页
+    if (this.isFollower) {
+      const id = ++this.sharedSendId;
+      this.sharedPending.set(id, data);
+      if (!this.postShared({ kind: 'send', data, reliable: true, id })) {
+        this.sharedPending.delete(id);
+        return false;
+      }
+      return true;
     }
+    
+    const seq = this.reliable.send(data);
+    this.log('RELIABLE_SENT', { seq });
+    return true;
   }
-
+  
   /**
-   * 断点重连
+   * 消息加入发送队列
+   * @param data 要发送的数据
+   * @param options 发送选项
+   * @returns 是否成功入队
    * @private
    */
-  private performReconnect(): void {
-    const { reconnectLimit, reconnectInterval, maxReconnectDelay } = this.options;
-    
-    if (this.reconnectCount >= (reconnectLimit || 5)) {
-      this.log('重连失败: 超过最大重连次数');
-      this.eventBus.emit('reconnectFailed', { 
-        attempts: this.reconnectCount, 
-        limit: reconnectLimit 
-      });
-      return;
+  private enqueue(data: any, options?: SendOptions): boolean {
+    const result = this.messageQueue.enqueue(data, options);
+    this.metrics.recordQueueDepth(this.messageQueue.length);
+    if (!result.accepted && result.reason === 'rejected') {
+      this.log('QUEUE_FULL');
+      this.eventBus.emit('error', new SendError('消息队列已满', { data }));
     }
-
-    this.connectionManager.state = ConnectionState.RECONNECTING;
-    this.reconnectCount++;
-    
-    // 计算指数退避延迟
-    let delay = reconnectInterval || 5000;
-    if (this.currentBackoff > 0) {
-      // 使用指数退避策略
-      delay = Math.min(
-        maxReconnectDelay || 30000,
-        delay * Math.pow(1.5, this.currentBackoff)
-      );
+    return result.accepted;
+  }
+  
+  /**
+   * 判断底层WebSocket是否处于打开状态
+   * @private
+   */
+  private isSocketOpen(): boolean {
+    if (this.isFollower) {
+      return this.connectionManager.state === ConnectionState.OPEN;
     }
-    this.currentBackoff++;
-    
-    this.log(`正在重连 (${this.reconnectCount}/${reconnectLimit})，延迟 ${delay}ms`);
-    this.eventBus.emit('reconnecting', { 
-      attempt: this.reconnectCount, 
-      limit: reconnectLimit,
-      delay
+    // 认证完成前不发送普通消息
+    return !!this.ws && this.ws.readyState === READY_STATE.OPEN && !this.authPending;
+  }
+  
+  /**
+   * 清空发送队列（包括持久化存储中的消息）
+   * @returns this实例，支持链式调用
+   */
+  public clearQueue(): this {
+    this.messageQueue.clear(true);
+    return this;
+  }
+  
+  /**
+   * 获取连接指标快照
+   * @returns 收发计数、重连、连接时长、错误等统计
+   */
+  public getStats(): SocketStats {
+    return this.metrics.snapshot({
+      queueDepth: this.messageQueue.length,
+      pendingRequests: this.requestManager.size,
+      latency: this.latencyTracker.latency,
+      smoothedRtt: this.latencyTracker.srtt
     });
-
-    setTimeout(() => {
-      this.connect();
-    }, delay);
   }
-
+  
   /**
-   * 发送消息
-   * @param data 要发送的数据
-   * @returns 是否发送成功
+   * 清零连接指标
+   * @returns this实例，支持链式调用
    */
-  public send(data: any): boolean {
-    // 如果连接已打开，直接发送
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      try {
-        const message = this.prepareMessage(data);
-        this.ws.send(message);
-        return true;
-      } catch (error) {
-        this.log('发送消息失败', error);
-        this.eventBus.emit('error', { type: 'sendError', error, data });
-        return false;
-      }
-    } 
-    // 如果连接正在建立中或重连中，加入队列
-    else if (
-      this.connectionManager.state === ConnectionState.CONNECTING || 
-      this.connectionManager.state === ConnectionState.RECONNECTING
-    ) {
-      this.log('连接未就绪，消息加入队列');
-      this.messageQueue.push(data);
-      return true;
-    } 
-    // 连接已关闭
-    else {
-      this.log('连接已关闭，无法发送消息');
-      this.eventBus.emit('error', { 
-        type: 'sendError', 
-        error: new Error('连接已关闭'), 
-        data 
-      });
-      return false;
+  public resetStats(): this {
+    this.metrics.reset();
+    return this;
+  }
+  
+  /**
+   * 清除记录的事件ID，下次连接不再请求补发
+   * @returns this实例，支持链式调用
+   */
+  public resetResume(): this {
+    this.resume?.reset();
+    return this;
+  }
+  
+  /**
+   * 发送请求并等待回复
+   * @param type 消息类型，指定了发送消息的类型映射时只能使用其中的 type
+   * @param payload 消息数据
+   * @param options 请求选项
+   * @returns Promise，收到匹配的回复时解析为回复的 payload；请求未通过校验时以 ValidationError 拒绝
+   */
+  public request<TReq = any, TRes = any>(
+    type: keyof TOut & string,
+    payload: TReq,
+    options?: RequestOptions
+  ): Promise<TRes> {
+    const checked = this.validateOutbound({ type, payload });
+    if (!checked.valid) {
+      return Promise.reject(checked.error);
     }
+    
+    const done = this.metrics.requestStarted(type);
+    const promise = this.requestManager.request<TRes>(type, checked.data.payload, options);
+    promise.then(() => done(), error => done(error));
+    return promise;
   }
   
   /**
@@ -657,18 +2473,14 @@ export default class SupaSocket {
    * @returns 准备好的消息
    * @private
    */
-  private prepareMessage(data: any): string | ArrayBuffer | Blob {
-    // 如果已经是字符串、ArrayBuffer或Blob，直接返回
-    if (
-      typeof data === 'string' || 
-      data instanceof ArrayBuffer || 
-      data instanceof Blob
-    ) {
+  private prepareMessage(data: any): EncodedMessage | ArrayBufferView | Blob {
+    // 如果已经是字符串、二进制数据（ArrayBuffer、Buffer、Uint8Array）或Blob，直接返回
+    if (typeof data === 'string' || isBinary(data)) {
       return data;
     }
     
-    // 其他类型转为JSON字符串
-    return JSON.stringify(data);
+    // 其他类型使用编解码器编码，默认转为JSON字符串
+    return (this.options.codec || JsonCodec).encode(data);
   }
   
   /**
@@ -676,7 +2488,7 @@ export default class SupaSocket {
    * @param data 二进制数据
    * @returns 是否发送成功
    */
-  public sendBinary(data: ArrayBuffer | Blob): boolean {
+  public sendBinary(data: ArrayBuffer | ArrayBufferView | Blob): boolean {
     return this.send(data);
   }
   
@@ -694,87 +2506,108 @@ export default class SupaSocket {
    * @param data JSON对象
    * @returns 是否发送成功
    */
-  public sendJson(data: Record<string, any>): boolean {
+  public sendJson(data: string extends keyof TOut ? Record<string, any> : OutboundMessage<TOut>): boolean {
     return this.send(data);
   }
   
   /**
    * 发送文件
+   * 文件分块发送，每块带有传输ID、偏移量和校验值；断线重连后从接收方确认的位置继续，多个文件可以同时发送
    * @param file 文件对象
    * @param options 发送选项
-   * @returns Promise，解析为发送是否成功
-   */
-  public async sendFile(
-    file: File, 
-    options?: { 
-      onProgress?: (progress: number) => void,
-      chunkSize?: number
-    }
-  ): Promise<boolean> {
-    // 如果WebSocket未连接，直接返回失败
-    if (!this.isConnected) {
-      this.eventBus.emit('error', { 
-        type: 'sendError', 
-        error: new Error('连接已关闭，无法发送文件'), 
-        file 
-      });
-      return false;
+   * @returns 传输对象，可以 await 得到是否发送成功，也可以暂停、继续和取消
+   */
+  public sendFile(file: BinarySource, options: FileTransferOptions = {}): FileTransfer {
+    const transfer = new FileTransfer(file, options, {
+      sendControl: frame => this.transmit(frame),
+      sendChunk: frame => this.transmit(frame),
+      canSend: () => this.isSocketOpen(),
+      canWrite: () => {
+        if (this.flow.writable) return true;
+        this.flow.schedule();
+        return false;
+      },
+      onProgress: current => this.eventBus.emit('fileProgress', {
+        transferId: current.id,
+        fileName: current.fileName,
+        sent: current.bytesAcknowledged,
+        total: current.fileSize,
+        progress: current.progress
+      }),
+      onFinish: (current, error) => {
+        if (this.transfers.get(current.id) === current) {
+          this.transfers.delete(current.id);
+        }
+        if (error) {
+          this.log('FILE_SEND_FAILED', { transferId: current.id, error });
+          this.eventBus.emit('error', new SendError('发送文件失败', { cause: error, file }));
+        } else {
+          this.log('FILE_SEND_COMPLETE', { transferId: current.id, fileName: current.fileName });
+        }
+      }
+    }, this.clock);
+    
+    // 连接已关闭且不会重连时直接失败
+    if (this.connectionManager.state === ConnectionState.CLOSED && !this.isSocketOpen()) {
+      transfer.fail('closed');
+      return transfer;
     }
     
-    try {
-      // 发送文件元数据
-      this.send({
-        type: 'file_start',
-        fileName: file.name,
-        fileSize: file.size,
-        fileType: file.type,
-        timestamp: Date.now()
-      });
-      
-      // 读取文件并分块发送
-      const chunkSize = options?.chunkSize || 64 * 1024; // 默认64KB
-      const totalChunks = Math.ceil(file.size / chunkSize);
-      let sentChunks = 0;
-      
-      for (let start = 0; start < file.size; start += chunkSize) {
-        const end = Math.min(start + chunkSize, file.size);
-        const chunk = file.slice(start, end);
-        
-        // 读取块数据
-        const buffer = await chunk.arrayBuffer();
-        
-        // 发送块数据
-        const success = this.sendBinary(buffer);
-        if (!success) throw new Error('发送文件块失败');
-        
-        // 更新进度
-        sentChunks++;
-        const progress = (sentChunks / totalChunks) * 100;
-        options?.onProgress?.(progress);
-        
-        // 如果连接已断开，中止发送
-        if (!this.isConnected) {
-          throw new Error('发送过程中连接断开');
+    // 使用相同ID重新发送时取消之前的传输
+    this.transfers.get(transfer.id)?.cancel();
+    this.transfers.set(transfer.id, transfer);
+    this.log('FILE_SEND_START', { transferId: transfer.id, fileName: transfer.fileName });
+    transfer.start();
+    return transfer;
+  }
+  
+  /**
+   * 接收文件，重组对方按 sendFile 相同协议发送的文件
+   * @param handler 文件接收完成时调用，传入 null 停止接收
+   * @param options 接收选项
+   * @returns this实例，支持链式调用
+   */
+  public receiveFile(handler: ((file: ReceivedFile) => void) | null, options: FileReceiveOptions = {}): this {
+    this.fileReceiver?.clear();
+    this.fileReceiver = null;
+    if (!handler) return this;
+    
+    this.fileReceiver = new FileReceiver(options, {
+      sendControl: frame => this.isSocketOpen() && this.transmit(frame),
+      onFile: file => {
+        this.log('FILE_RECEIVED', { transferId: file.transferId, fileName: file.name, size: file.size });
+        try {
+          handler(file);
+        } catch (error) {
+          this.log('FILE_HANDLER_ERROR', { transferId: file.transferId, error });
         }
+      },
+      onError: error => {
+        this.log('FILE_RECEIVE_FAILED', { transferId: error.transferId, error });
+        this.eventBus.emit('error', error);
       }
-      
-      // 发送文件结束标记
-      this.send({
-        type: 'file_end',
-        fileName: file.name,
-        timestamp: Date.now()
-      });
-      
+    }, this.clock);
+    
+    // 数据块需要以 ArrayBuffer 读取
+    if (this.ws && !this.options.binaryType) {
+      this.ws.binaryType = 'arraybuffer';
+    }
+    return this;
+  }
+  
+  /**
+   * 处理文件传输的控制帧
+   * @param data 已解析的控制帧
+   * @returns 是否已处理，不属于本实例的传输时作为普通消息分发
+   * @private
+   */
+  private handleFileControl(data: any): boolean {
+    const transfer = this.transfers.get(data.transferId);
+    if (transfer && data.type !== 'file_start' && data.type !== 'file_end') {
+      transfer.handleControl(data);
       return true;
-    } catch (error) {
-      this.log('发送文件失败', error);
-      this.eventBus.emit('error', { 
-        type: 'fileSendError', 
-        error, 
-        file 
-      });
-      return false;
     }
+    return !!this.fileReceiver?.handleControl(data);
   }
 
   /**
@@ -783,8 +2616,11 @@ export default class SupaSocket {
    * @param callback 回调函数
    * @returns this实例，支持链式调用
    */
-  public on<T = any>(event: BuiltInEvents, callback: EventCallback<T>): this {
-    this.eventBus.on(event, callback);
+  public on<K extends keyof SupaSocketEventMap<TIn> & string>(
+    event: K,
+    callback: EventCallback<SupaSocketEventMap<TIn>[K]>
+  ): this {
+    this.eventBus.on(event, callback as EventCallback);
     return this;
   }
 
@@ -794,8 +2630,11 @@ export default class SupaSocket {
    * @param callback 可选的回调函数，如不提供则移除该事件的所有监听器
    * @returns this实例，支持链式调用
    */
-  public off(event: BuiltInEvents, callback?: EventCallback): this {
-    this.eventBus.off(event, callback);
+  public off<K extends keyof SupaSocketEventMap<TIn> & string>(
+    event: K,
+    callback?: EventCallback<SupaSocketEventMap<TIn>[K]>
+  ): this {
+    this.eventBus.off(event, callback as EventCallback | undefined);
     return this;
   }
   
@@ -805,22 +2644,25 @@ export default class SupaSocket {
    * @param callback 回调函数
    * @returns this实例，支持链式调用
    */
-  public once<T = any>(event: BuiltInEvents, callback: EventCallback<T>): this {
-    const onceCallback = ((data: T) => {
+  public once<K extends keyof SupaSocketEventMap<TIn> & string>(
+    event: K,
+    callback: EventCallback<SupaSocketEventMap<TIn>[K]>
+  ): this {
+    const onceCallback: EventCallback<SupaSocketEventMap<TIn>[K]> = (data) => {
       callback(data);
-      this.off(event, onceCallback as EventCallback);
-    }) as EventCallback;
+      this.off(event, onceCallback);
+    };
     
     this.on(event, onceCallback);
     return this;
   }
   
   /**
-   * 清除所有事件监听器
+   * 清除所有通过 on/once 添加的事件监听器，ready、waitFor、sendAsync、stream 的内部等待不受影响
    * @returns this实例，支持链式调用
    */
   public clearAllListeners(): this {
-    this.eventBus = new EventBus();
+    this.eventBus.clear();
     return this;
   }
   
@@ -829,17 +2671,203 @@ export default class SupaSocket {
    * @param event 事件名称
    * @returns 是否有监听器
    */
-  public hasListeners(event: BuiltInEvents): boolean {
+  public hasListeners(event: keyof SupaSocketEventMap<TIn> & string): boolean {
     return this.eventBus.hasListeners(event);
   }
 
+  /**
+   * 订阅频道，同一频道的多个订阅者共享一次服务端订阅
+   * @param channel 频道名称
+   * @param handler 频道消息回调
+   * @param params 订阅参数，会传给 joinMessage
+   * @returns 订阅句柄，调用 unsubscribe() 取消本次订阅
+   */
+  public subscribe<T = any>(channel: string, handler: ChannelHandler<T>, params?: any): Subscription {
+    return this.channels.subscribe(channel, handler, params);
+  }
+  
+  /**
+   * 退订频道，最后一个订阅者退订时通知服务端
+   * @param channel 频道名称
+   * @param handler 可选的回调函数，如不提供则移除该频道的所有订阅
+   * @returns this实例，支持链式调用
+   */
+  public unsubscribe(channel: string, handler?: ChannelHandler): this {
+    this.channels.unsubscribe(channel, handler);
+    return this;
+  }
+  
+  /**
+   * 建立连接（autoConnect 为 false 时使用，已连接或正在连接时只等待连接就绪）
+   * @param options 等待选项
+   * @returns Promise，连接建立时解析
+   */
+  public connect(options: WaitOptions = {}): Promise<void> {
+    if (options.signal?.aborted) {
+      return Promise.reject(abortReason(options.signal));
+    }
+    
+    if (this.connectionManager.state === ConnectionState.CLOSED) {
+      this.reconnectCount = 0;
+      this.startConnection();
+    }
+    
+    return this.ready(options);
+  }
+  
+  /**
+   * 等待连接就绪
+   * 重连失败、连接超时或连接关闭且不再重连时拒绝
+   * @param options 等待选项
+   * @returns Promise，连接打开时解析
+   */
+  public ready(options: WaitOptions = {}): Promise<void> {
+    if (this.isConnected) {
+      return Promise.resolve();
+    }
+    
+    if (this.explicitClose) {
+      return Promise.reject(new ConnectionError('CLOSED', '连接已关闭'));
+    }
+    
+    return this.waitOn<void>(({ resolve, reject }) => {
+      const onOpen = () => resolve();
+      const onReconnectFailed = (data: BuiltInEventMap['reconnectFailed']) => {
+        reject(new ConnectionError('RECONNECT_FAILED', '重连失败', data, this.lastCloseError()));
+      };
+      const onConnectionTimeout = (data: BuiltInEventMap['connectionTimeout']) => {
+        reject(new ConnectionTimeoutError(data.url, data.timeout));
+      };
+      const onStatusChange = ({ newState }: StatusChangeEvent) => {
+        if (newState === ConnectionState.CLOSED && (this.explicitClose || !this.options.autoReconnect)) {
+          reject(new ConnectionError('CLOSED', '连接已关闭', undefined, this.lastCloseError()));
+        }
+      };
+      
+      const removers = [
+        this.eventBus.listen('open', onOpen),
+        this.eventBus.listen('reconnectFailed', onReconnectFailed),
+        this.eventBus.listen('connectionTimeout', onConnectionTimeout),
+        this.eventBus.listen('statusChange', onStatusChange)
+      ];
+      
+      return () => removers.forEach(remove => remove());
+    }, options);
+  }
+  
+  /**
+   * 等待指定的事件或消息
+   * @param event 事件名称或消息type
+   * @param predicate 可选的过滤条件，返回 true 时结束等待
+   * @param options 等待选项
+   * @returns Promise，解析为满足条件的事件数据
+   */
+  public waitFor<K extends keyof SupaSocketEventMap<TIn> & string>(
+    event: K,
+    predicate?: (data: SupaSocketEventMap<TIn>[K]) => boolean,
+    options: WaitOptions = {}
+  ): Promise<SupaSocketEventMap<TIn>[K]> {
+    return this.waitOn<SupaSocketEventMap<TIn>[K]>(({ resolve, reject }) => {
+      const listener = (data: any) => {
+        try {
+          if (!predicate || predicate(data)) {
+            resolve(data);
+          }
+        } catch (error) {
+          reject(error);
+        }
+      };
+      
+      return this.eventBus.listen(event, listener);
+    }, options);
+  }
+  
+  /**
+   * 注册中间件，按注册顺序处理收发的每一帧（包括心跳帧）
+   * @param middleware 中间件，调用 next() 交给下一个中间件，不调用则丢弃该帧
+   * @param direction 处理的方向，默认两个方向都处理
+   * @param stage 处理阶段：message（默认）处理消息对象，raw 处理解码前、编码后的原始帧
+   * @returns this实例，支持链式调用
+   */
+  public use(middleware: Middleware, direction?: MiddlewareDirection, stage?: MiddlewareStage): this {
+    this.middleware.use(middleware, direction, stage);
+    return this;
+  }
+  
+  /**
+   * 移除中间件
+   * @param middleware 中间件
+   * @returns this实例，支持链式调用
+   */
+  public removeMiddleware(middleware: Middleware): this {
+    this.middleware.remove(middleware);
+    return this;
+  }
+  
+  /**
+   * 创建消息流，可以使用 for await 遍历或作为 Observable 订阅
+   * 关闭连接或销毁实例时结束，跳出循环或取消订阅时自动移除监听
+   * @param type 消息type，不提供时为所有消息
+   * @param options 缓冲区大小、溢出策略和取消信号
+   * @returns 消息流
+   */
+  public stream(type?: undefined, options?: StreamOptions): MessageStream<InboundMessage<TIn>>;
+  public stream<K extends keyof TIn & string>(type: K, options?: StreamOptions): MessageStream<InboundMessage<TIn, K>>;
+  public stream(type?: string, options: StreamOptions = {}): MessageStream<any> {
+    const event = type ?? 'message';
+    
+    return new MessageStream<any>(sink => {
+      const listener = (data: any) => sink.next(data);
+      const end = () => sink.complete();
+      
+      const remove = this.eventBus.listen(event, listener);
+      this.streams.add(end);
+      
+      return () => {
+        remove();
+        this.streams.delete(end);
+      };
+    }, options);
+  }
+  
+  /**
+   * 结束所有消息流
+   * @private
+   */
+  private endStreams(): void {
+    Array.from(this.streams).forEach(end => end());
+    this.streams.clear();
+  }
+  
   /**
    * 关闭连接
    * @param code 关闭代码
    * @param reason 关闭原因
+   * @param options 等待选项
+   * @returns Promise，收到实际的关闭事件时解析，没有需要关闭的连接时解析为 null
    */
-  public close(code?: number, reason?: string): void {
+  public close(code?: number, reason?: string, options: WaitOptions = {}): Promise<CloseEvent | null> {
+    // 在关闭之前开始等待，从标签页会同步触发关闭事件
+    const closing = (this.ws && this.ws.readyState !== READY_STATE.CLOSED) || this.isFollower;
+    const closed = closing
+      ? this.waitOn<CloseEvent | null>(({ resolve }) => {
+          return this.eventBus.listen('close', (event: CloseEvent) => resolve(event));
+        }, options, control => control.resolve(null))
+      : Promise.resolve(null);
+    
     this.explicitClose = true; // 标记为手动关闭
+    this.cancelReconnect();
+    this.requestManager.rejectAll();
+    this.releaseRelayed();
+    this.reliable.failAll('closed');
+    this.transfers.forEach(transfer => transfer.fail('closed'));
+    
+    // 退出共享连接，从标签页没有自己的WebSocket，直接触发关闭
+    const wasFollower = this.isFollower;
+    this.leaveShared();
+    if (wasFollower && this.connectionManager.state !== ConnectionState.CLOSED) {
+      this.handleClose(this.createCloseEvent(code ?? 1000, reason ?? '', true), false);
+    }
     
     if (this.ws) {
       this.connectionManager.state = ConnectionState.CLOSING;
@@ -848,11 +2876,16 @@ export default class SupaSocket {
       try {
         this.ws.close(code, reason);
       } catch (error) {
-        this.log('关闭连接失败', error);
+        this.log('CLOSE_FAILED', { error });
       }
     }
     
     this.connectionManager.state = ConnectionState.CLOSED;
+    
+    // 结束消息流
+    this.endStreams();
+    
+    return closed;
   }
   
   /**
@@ -866,21 +2899,21 @@ export default class SupaSocket {
       try {
         this.ws.close();
       } catch (e) {
-        this.log('关闭现有连接时出错', e);
+        this.log('CLOSE_FAILED', { error: e });
       }
     }
     
     // 重置重连计数器（如果需要）
     if (resetReconnectCount) {
       this.reconnectCount = 0;
-      this.currentBackoff = 0;
     }
     
     // 重置手动关闭标记，允许自动重连
     this.explicitClose = false;
+    this.cancelReconnect();
     
     // 开始连接
-    this.connect();
+    this.startConnection();
     return true;
   }
   
@@ -908,7 +2941,7 @@ export default class SupaSocket {
    * @param options 新的配置选项，会与现有选项合并
    * @returns this实例，支持链式调用
    */
-  public updateOptions(options: Partial<SupaSocketOptions>): this {
+  public updateOptions(options: Partial<SupaSocketOptions<TIn, TOut>>): this {
     // 保存旧的URL，用于检测是否需要重连
     const oldUrl = this.options.url;
     
@@ -918,9 +2951,38 @@ export default class SupaSocket {
       ...options
     };
     
+    // 重连相关配置改变时重新创建重连策略
+    if (
+      'reconnectStrategy' in options ||
+      'reconnectInterval' in options ||
+      'maxReconnectDelay' in options ||
+      'closeCodePolicy' in options
+    ) {
+      this.reconnectStrategy = this.createReconnectStrategy();
+    }
+    
+    // 日志配置改变时重新创建日志输出
+    if ('logger' in options || 'debug' in options) {
+      this.logger = this.createLogger();
+    }
+    
+    // 流量控制配置改变时重新创建，旧实例上等待的 sendAsync 按新配置重新检查
+    if ('flowControl' in options) {
+      const previous = this.flow;
+      this.flow = this.createFlowController();
+      previous.release();
+      if (this.isSocketOpen()) this.flow.schedule();
+    }
+    
+    // 地址列表或切换策略改变时重新创建，下次连接时生效
+    if ('urls' in options || 'endpoints' in options) {
+      this.endpoints?.dispose();
+      this.endpoints = this.createEndpoints();
+    }
+    
     // 如果URL改变且当前已连接，需要重新连接
     if (oldUrl !== this.options.url && this.isConnected) {
-      this.log('URL已更改，重新连接');
+      this.log('URL_CHANGED', { url: this.options.url });
       this.reconnect(true);
     }
     
@@ -936,7 +2998,7 @@ export default class SupaSocket {
    * 获取当前配置选项
    * @returns 当前配置选项的副本
    */
-  public getOptions(): SupaSocketOptions {
+  public getOptions(): SupaSocketOptions<TIn, TOut> {
     return { ...this.options };
   }
   
@@ -958,26 +3020,73 @@ export default class SupaSocket {
     return this;
   }
 
+  /**
+   * 创建一个在销毁实例时也会结束的等待
+   * @param setup 注册监听，返回移除监听的函数
+   * @param options 等待选项
+   * @param onDestroy 销毁实例时的处理，默认以 CLOSED 拒绝
+   * @private
+   */
+  private waitOn<T>(
+    setup: (control: WaiterControl<T>) => () => void,
+    options: WaitOptions,
+    onDestroy: (control: WaiterControl<T>) => void = control => control.reject(new ConnectionError('CLOSED', '实例已销毁'))
+  ): Promise<T> {
+    let destroy: (() => void) | null = null;
+    
+    return createWaiter<T>(control => {
+      destroy = () => onDestroy(control);
+      this.waiters.add(destroy);
+      const cleanup = setup(control);
+      return () => {
+        this.waiters.delete(destroy!);
+        cleanup();
+      };
+    }, options, this.clock);
+  }
+
+  /**
+   * 创建日志输出，附带连接状态、重连次数、地址和最后一次关闭代码
+   * @private
+   */
+  private createLogger(): SocketLogger {
+    const { logger } = this.options;
+    const options: LoggerOptions = logger && typeof (logger as Logger).debug === 'function'
+      ? { logger: logger as Logger }
+      : (logger as LoggerOptions) || {};
+    
+    return new SocketLogger(options, !!this.options.debug, () => ({
+      state: ConnectionState[this.connectionManager.state],
+      attempt: this.reconnectCount,
+      url: this.currentUrl,
+      ...(this.lastCloseEvent ? { closeCode: this.lastCloseEvent.code } : {})
+    }));
+  }
+  
   /**
    * 输出日志信息
-   * @param message 日志消息
-   * @param data 附加数据
+   * @param code 消息代码
+   * @param context 附加上下文
    * @private
    */
-  private log(message: string, data?: any): void {
-    if (this.options.debug) {
-      if (data) {
-        console.log(`[SupaSocket] ${message}`, data);
-      } else {
-        console.log(`[SupaSocket] ${message}`);
-      }
-    }
+  private log(code: LogCode, context?: Record<string, any>): void {
+    // 构造完成前（初始化字段时）的日志直接忽略
+    this.logger?.log(code, context);
   }
   
   /**
    * 销毁实例，清理所有资源
    */
   public destroy(): void {
+    // 标记为手动关闭，避免关闭事件触发自动重连
+    this.explicitClose = true;
+    
+    // 退出共享连接
+    this.leaveShared();
+    
+    // 停止检查首选地址
+    this.endpoints?.dispose();
+    
     // 关闭WebSocket连接
     if (this.ws) {
       try {
@@ -990,20 +3099,42 @@ export default class SupaSocket {
     
     // 清理定时器
     this.clearHeartbeatTimers();
+    this.clearAuthHandshake();
+    this.cancelReconnect();
     
     if (this.connectionTimeoutTimer) {
-      clearTimeout(this.connectionTimeoutTimer);
+      this.clock.clearTimeout(this.connectionTimeoutTimer);
       this.connectionTimeoutTimer = null;
     }
     
     // 清理事件监听器
     this.clearAllListeners();
     
+    // 移除网络状态和页面可见性监听
+    this.environment?.dispose();
+    
     // 更新状态
     this.connectionManager.state = ConnectionState.CLOSED;
     
-    // 清空消息队列
-    this.messageQueue = [];
+    // 清空内存中的消息队列，持久化存储中的消息保留到下次恢复
+    this.messageQueue.clear();
+    
+    // 拒绝所有未完成的请求
+    this.requestManager.rejectAll('实例已销毁');
+    this.releaseRelayed();
+    this.reliable.failAll('closed');
+    this.transfers.forEach(transfer => transfer.fail('closed'));
+    this.flow.reset();
+    this.fileReceiver?.clear();
+    this.fileReceiver = null;
+    
+    // 清除频道订阅
+    this.channels.clear();
+    
+    // 结束所有等待中的 Promise 和消息流
+    Array.from(this.waiters).forEach(destroy => destroy());
+    this.waiters.clear();
+    this.endStreams();
   }
 }
 
@@ -1012,5 +3143,133 @@ export {
   SupaSocketOptions, 
   ConnectionState, 
   EventCallback,
-  StatusChangeCallback 
+  StatusChangeCallback,
+  BuiltInEvents,
+  RequestOptions,
+  RequestError,
+  RequestErrorCode,
+  QueueOptions,
+  QueueStorage,
+  QueuedMessage,
+  QueuePriority,
+  QueueOverflowPolicy,
+  QueueFlushResult,
+  SendOptions,
+  MemoryQueueStorage,
+  LocalStorageQueueStorage,
+  IndexedDBQueueStorage,
+  FileQueueStorage,
+  ReliableOptions,
+  DeliveryFailureReason,
+  Codec,
+  EncodedMessage,
+  JsonCodec,
+  MessagePackCodec,
+  MessagePackExtension,
+  CborCodec,
+  ChannelOptions,
+  ChannelHandler,
+  Subscription,
+  ValidationOptions,
+  ValidationError,
+  ValidationIssue,
+  Validator,
+  ValidatorMap,
+  StandardSchemaV1,
+  ReconnectStrategy,
+  ReconnectStrategyFn,
+  ReconnectStrategyConfig,
+  CloseCodePolicy,
+  JitterMode,
+  fixedDelay,
+  linearBackoff,
+  exponentialBackoff,
+  EnvironmentOptions,
+  HiddenHeartbeatMode,
+  SharedOptions,
+  SharedRole,
+  AuthOptions,
+  AuthMatcher,
+  ResumeOptions,
+  ResumeStorage,
+  LocalStorageResumeStorage,
+  EventId,
+  WaitOptions,
+  SupaSocketError,
+  SupaSocketErrorCode,
+  SupaSocketErrorOptions,
+  SupaSocketErrorEvent,
+  ConnectionError,
+  ConnectionErrorCode,
+  ConnectionTimeoutError,
+  ConnectionFailedError,
+  ProtocolCloseError,
+  HandshakeError,
+  SendError,
+  DecodeError,
+  MiddlewareError,
+  StorageError,
+  EndpointError,
+  TimeoutError,
+  CloseCodeInfo,
+  CLOSE_CODES,
+  describeCloseCode,
+  MessageStream,
+  StreamOptions,
+  StreamOverflowPolicy,
+  StreamOverflowError,
+  StreamSubscription,
+  Observer,
+  Middleware,
+  MiddlewareContext,
+  MiddlewareDirection,
+  MiddlewareStage,
+  LatencySample,
+  EndpointOptions,
+  EndpointSource,
+  EndpointStrategy,
+  EndpointStatus,
+  EndpointChangeReason,
+  Logger,
+  LoggerOptions,
+  LogLevel,
+  LogLocale,
+  LogContext,
+  LogCode,
+  LOG_MESSAGES,
+  formatLogMessage,
+  MetricsSink,
+  MetricAttributes,
+  SocketStats,
+  MessageTypeStats,
+  SessionInfo,
+  RequestInfo,
+  OpenTelemetryAdapter,
+  OtelTracer,
+  OtelMeter,
+  OtelSpan,
+  FileTransfer,
+  FileTransferOptions,
+  FileTransferState,
+  FileTransferFailure,
+  FileTransferError,
+  FileReceiver,
+  FileReceiveOptions,
+  FileReceiveProgress,
+  ReceivedFile,
+  ChecksumAlgorithm,
+  ChunkHeader,
+  encodeChunkFrame,
+  decodeChunkFrame,
+  isFileControlFrame,
+  FlowControlOptions,
+  RateLimitOptions,
+  SendAsyncOptions,
+  WebSocketLike,
+  WebSocketConstructor,
+  WebSocketClientOptions,
+  BinarySource,
+  READY_STATE,
+  Clock,
+  systemClock
 };
\ No newline at end of file
@@ -0,0 +1,83 @@
+/**
+ * 往返时延测量
+ * 根据心跳包和心跳响应计算 RTT，并按 RFC 6298 的方法计算平滑 RTT
+ */
+
+// 一次测量结果
+export interface LatencySample {
+  rtt: number;     // 本次往返时延（毫秒）
+  srtt: number;    // 平滑往返时延（毫秒）
+  rttvar: number;  // 往返时延波动（毫秒）
+}
+
+/**
+ * 时延统计类
+ */
+export class LatencyTracker {
+  private outstanding: number[] = []; // 已发送、尚未收到响应的心跳时间戳
+  private last: LatencySample | null = null;
+
+  /**
+   * @param now 获取当前时间，默认使用 Date.now
+   */
+  constructor(private now: () => number = () => Date.now()) {}
+
+  /**
+   * 最近一次的往返时延，尚未测量时为 null
+   */
+  public get latency(): number | null {
+    return this.last ? this.last.rtt : null;
+  }
+
+  /**
+   * 平滑往返时延，尚未测量时为 null
+   */
+  public get srtt(): number | null {
+    return this.last ? this.last.srtt : null;
+  }
+
+  /**
+   * 记录发出的心跳
+   * @param time 心跳包中的时间戳
+   */
+  public pingSent(time: number): void {
+    this.outstanding.push(time);
+    // 只保留最近的几个，避免长时间没有响应时无限增长
+    if (this.outstanding.length > 10) {
+      this.outstanding.shift();
+    }
+  }
+
+  /**
+   * 收到心跳响应，计算往返时延
+   * @param echoedTime 响应中回传的时间戳，与某个已发送的心跳匹配时使用该心跳计算
+   * @returns 测量结果，没有等待响应的心跳时返回 null
+   */
+  public pongReceived(echoedTime?: unknown): LatencySample | null {
+    if (this.outstanding.length === 0) return null;
+
+    const sentAt = typeof echoedTime === 'number' && this.outstanding.includes(echoedTime)
+      ? echoedTime
+      : this.outstanding[0];
+    this.outstanding = [];
+
+    const rtt = Math.max(0, this.now() - sentAt);
+    if (!this.last) {
+      this.last = { rtt, srtt: rtt, rttvar: rtt / 2 };
+    } else {
+      // RFC 6298: RTTVAR = 3/4 * RTTVAR + 1/4 * |SRTT - R|，SRTT = 7/8 * SRTT + 1/8 * R
+      const rttvar = 0.75 * this.last.rttvar + 0.25 * Math.abs(this.last.srtt - rtt);
+      const srtt = 0.875 * this.last.srtt + 0.125 * rtt;
+      this.last = { rtt, srtt: Math.round(srtt * 100) / 100, rttvar: Math.round(rttvar * 100) / 100 };
+    }
+
+    return this.last;
+  }
+
+  /**
+   * 连接断开时清除等待响应的心跳
+   */
+  public clearOutstanding(): void {
+    this.outstanding = [];
+  }
+}
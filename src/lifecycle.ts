@@ -0,0 +1,90 @@
+/**
+ * Promise 形式的生命周期工具
+ * 将事件等待封装为 Promise，支持超时和 AbortSignal 取消
+ */
+
+import { TimeoutError } from './errors.js';
+import { Clock, TimerHandle, systemClock } from './clock.js';
+
+// 等待选项
+export interface WaitOptions {
+  timeout?: number;      // 超时时间（毫秒），0 或不设置表示不超时
+  signal?: AbortSignal;  // 取消等待
+}
+
+// 等待的结束方式
+export interface WaiterControl<T> {
+  resolve: (value: T) => void;
+  reject: (error: any) => void;
+}
+
+/**
+ * 获取取消原因
+ * @param signal 已取消的 AbortSignal
+ */
+export function abortReason(signal: AbortSignal): any {
+  return signal.reason ?? createDOMError('操作已取消', 'AbortError');
+}
+
+/**
+ * 创建一个可超时、可取消的等待
+ * @param setup 注册监听，返回移除监听的函数
+ * @param options 等待选项
+ * @param clock 超时计时使用的时钟
+ */
+export function createWaiter<T>(
+  setup: (control: WaiterControl<T>) => () => void,
+  options: WaitOptions = {},
+  clock: Clock = systemClock
+): Promise<T> {
+  const { timeout, signal } = options;
+  if (signal?.aborted) {
+    return Promise.reject(abortReason(signal));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    let settled = false;
+    let timer: TimerHandle | null = null;
+    let cleanup: (() => void) | null = null;
+
+    const onAbort = () => finish(() => reject(abortReason(signal!)));
+
+    const finish = (callback: () => void) => {
+      if (settled) return;
+      settled = true;
+      if (timer) clock.clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      cleanup?.();
+      callback();
+    };
+
+    cleanup = setup({
+      resolve: value => finish(() => resolve(value)),
+      reject: error => finish(() => reject(error))
+    });
+
+    // setup 中可能已经同步结束
+    if (settled) {
+      cleanup();
+      return;
+    }
+
+    if (timeout && timeout > 0) {
+      timer = clock.setTimeout(() => finish(() => reject(new TimeoutError(timeout))), timeout);
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * 创建 DOMException，不支持时退化为普通 Error
+ * @private
+ */
+function createDOMError(message: string, name: string): Error {
+  if (typeof DOMException !== 'undefined') {
+    return new DOMException(message, name);
+  }
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
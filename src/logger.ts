@@ -0,0 +1,201 @@
+/**
+ * 日志
+ * 所有日志都使用固定的消息代码，消息文本从中英文消息表中获取，
+ * 并附带连接状态、重连次数、地址等结构化上下文，可以接入 pino、winston 或 console
+ */
+
+// 日志级别
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+// 消息语言
+export type LogLocale = 'en' | 'zh';
+
+// 日志接口，与 console、winston 兼容；pino 需要开启 contextFirst
+export interface Logger {
+  debug(...args: any[]): void;
+  info(...args: any[]): void;
+  warn(...args: any[]): void;
+  error(...args: any[]): void;
+}
+
+// 日志配置
+export interface LoggerOptions {
+  logger?: Logger;         // 日志输出，默认使用 console
+  level?: LogLevel;        // 最低输出级别
+  locale?: LogLocale;      // 消息语言，默认中文
+  contextFirst?: boolean;  // 以 (context, message) 的顺序调用，用于 pino 等日志库
+}
+
+// 日志上下文
+export interface LogContext {
+  code: LogCode;        // 消息代码
+  state?: string;       // 连接状态
+  attempt?: number;     // 当前重连次数
+  url?: string;         // 连接地址
+  closeCode?: number;   // 最后一次关闭代码
+  [key: string]: any;
+}
+
+// 消息定义：级别和中英文文本，文本中的 {name} 使用上下文中的同名字段替换
+interface MessageDefinition {
+  level: LogLevel;
+  en: string;
+  zh: string;
+}
+
+const LOG_LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+/**
+ * 消息表
+ */
+export const LOG_MESSAGES = {
+  CONNECTING: { level: 'info', en: 'Connecting...', zh: '正在连接...' },
+  CONNECTED: { level: 'info', en: 'Connected', zh: '连接成功' },
+  CONNECTION_CLOSED: { level: 'info', en: 'Connection closed: {closeCode} {reason}', zh: '连接关闭: {closeCode} {reason}' },
+  CONNECTION_ERROR: { level: 'warn', en: 'Connection error', zh: '连接错误' },
+  CONNECTION_TIMEOUT: { level: 'warn', en: 'Connection timed out', zh: '连接超时' },
+  CONNECTION_INIT_FAILED: { level: 'error', en: 'Failed to create connection', zh: '连接初始化失败' },
+  CLOSE_FAILED: { level: 'warn', en: 'Failed to close connection', zh: '关闭连接时出错' },
+  URL_CHANGED: { level: 'info', en: 'URL changed, reconnecting', zh: 'URL已更改，重新连接' },
+  ENDPOINT_CHANGE: { level: 'info', en: 'Endpoint changed: {from} -> {to} ({reason})', zh: '切换连接地址: {from} -> {to}（{reason}）' },
+  ENDPOINT_SWITCH: { level: 'info', en: 'Switching to {to} ({reason})', zh: '切换到更合适的地址 {to}（{reason}）' },
+  ENDPOINT_RESOLVE_FAILED: { level: 'warn', en: 'Failed to resolve endpoints', zh: '解析地址列表失败' },
+  STATE_CHANGE: { level: 'debug', en: 'State changed: {from} -> {to}', zh: '状态变化: {from} -> {to}' },
+  RECONNECTING: { level: 'info', en: 'Reconnecting ({attempt}/{limit}) in {delay}ms', zh: '正在重连 ({attempt}/{limit})，延迟 {delay}ms' },
+  RECONNECT_LIMIT: { level: 'error', en: 'Reconnect failed: attempt limit reached', zh: '重连失败: 超过最大重连次数' },
+  RECONNECT_CLOSE_CODE: { level: 'error', en: 'Reconnect failed: close code {closeCode} does not allow reconnecting', zh: '重连失败: 关闭代码 {closeCode} 不允许重连' },
+  RECONNECT_PAUSED: { level: 'info', en: 'Network offline, reconnect paused', zh: '网络离线，暂停重连' },
+  NETWORK_ONLINE: { level: 'info', en: 'Network online', zh: '网络已恢复' },
+  NETWORK_OFFLINE: { level: 'info', en: 'Network offline', zh: '网络已离线' },
+  PAGE_HIDDEN: { level: 'debug', en: 'Page hidden', zh: '页面已隐藏' },
+  PAGE_VISIBLE: { level: 'debug', en: 'Page visible', zh: '页面已可见' },
+  HEARTBEAT_START: { level: 'debug', en: 'Heartbeat started', zh: '启动心跳检测' },
+  HEARTBEAT_SKIPPED: { level: 'debug', en: 'Recent traffic, heartbeat skipped', zh: '最近收到过消息，跳过心跳' },
+  PING_SENT: { level: 'debug', en: 'Ping sent', zh: '发送心跳包' },
+  PONG_RECEIVED: { level: 'debug', en: 'Pong received', zh: '收到心跳响应' },
+  HEARTBEAT_MISSED: { level: 'warn', en: 'No pong received ({missed}/{maxMissed})', zh: '未收到心跳响应 ({missed}/{maxMissed})' },
+  HEARTBEAT_TIMEOUT: { level: 'warn', en: 'Heartbeat timed out, reconnecting', zh: '心跳超时，重新连接' },
+  LATENCY: { level: 'debug', en: 'RTT {rtt}ms, smoothed {srtt}ms', zh: '往返时延: {rtt}ms，平滑值: {srtt}ms' },
+  MESSAGE_ERROR: { level: 'warn', en: 'Failed to process message', zh: '消息处理错误' },
+  MESSAGE_NOT_JSON: { level: 'debug', en: 'Message is not valid JSON, keeping raw data', zh: '消息不是有效的JSON格式，保持原始格式' },
+  MESSAGE_DECODE_FAILED: { level: 'warn', en: 'Message cannot be decoded with {codec}', zh: '消息无法使用 {codec} 解码' },
+  MESSAGE_DUPLICATE: { level: 'debug', en: 'Duplicate message dropped', zh: '丢弃重复的消息' },
+  MESSAGE_INVALID: { level: 'warn', en: 'Received message failed validation', zh: '收到无效消息' },
+  OUTBOUND_INVALID: { level: 'warn', en: 'Outgoing message failed validation', zh: '发送的消息未通过校验' },
+  MIDDLEWARE_ERROR: { level: 'warn', en: 'Middleware error ({direction})', zh: '中间件处理错误({direction})' },
+  SEND_QUEUED: { level: 'debug', en: 'Not connected, message queued', zh: '连接未就绪，消息加入队列' },
+  SEND_CLOSED: { level: 'warn', en: 'Connection closed, message not sent', zh: '连接已关闭，无法发送消息' },
+  SEND_FAILED: { level: 'warn', en: 'Failed to send message', zh: '发送消息失败' },
+  SEND_STALE: { level: 'warn', en: 'Connection changed while middleware was running, frame not sent', zh: '中间件处理期间连接已变化，未发送该帧' },
+  SEND_THROTTLED: { level: 'debug', en: 'Send buffer congested or rate limited, message queued', zh: '发送缓冲区拥塞或超过速率限制，消息加入队列' },
+  FLOW_DRAIN: { level: 'debug', en: 'Send buffer drained ({bufferedAmount} bytes)', zh: '发送缓冲区已排空（{bufferedAmount} 字节）' },
+  FILE_SEND_START: { level: 'debug', en: 'Sending file {fileName} ({transferId})', zh: '开始发送文件 {fileName}（{transferId}）' },
+  FILE_SEND_COMPLETE: { level: 'info', en: 'File sent: {fileName} ({transferId})', zh: '文件发送完成: {fileName}（{transferId}）' },
+  FILE_SEND_FAILED: { level: 'warn', en: 'Failed to send file ({transferId})', zh: '发送文件失败（{transferId}）' },
+  FILE_RECEIVED: { level: 'info', en: 'File received: {fileName} ({size} bytes)', zh: '收到文件: {fileName}（{size} 字节）' },
+  FILE_RECEIVE_FAILED: { level: 'warn', en: 'Failed to receive file ({transferId})', zh: '接收文件失败（{transferId}）' },
+  FILE_HANDLER_ERROR: { level: 'error', en: 'Error in file handler ({transferId})', zh: '文件处理函数出错（{transferId}）' },
+  RELIABLE_SENT: { level: 'debug', en: 'Reliable message sent: {seq}', zh: '可靠发送消息: {seq}' },
+  RELIABLE_CLOSED: { level: 'warn', en: 'Connection closed, reliable message not sent', zh: '连接已关闭，无法可靠发送消息' },
+  DELIVERY_FAILED: { level: 'warn', en: 'Delivery failed: {seq} {reason}', zh: '消息投递失败: {seq} {reason}' },
+  QUEUE_FULL: { level: 'warn', en: 'Send queue full, message rejected', zh: '消息队列已满，拒绝入队' },
+  QUEUE_DROP: { level: 'warn', en: 'Queued message dropped: {reason}', zh: '队列消息被丢弃: {reason}' },
+  QUEUE_STORAGE_ERROR: { level: 'warn', en: 'Queue storage error', zh: '消息队列存储错误' },
+  QUEUE_RESTORED: { level: 'info', en: 'Restored {count} messages from storage', zh: '从存储中恢复 {count} 条消息' },
+  QUEUE_FLUSH: { level: 'debug', en: 'Flushing {count} queued messages', zh: '处理队列中的 {count} 条消息' },
+  AUTH_SENT: { level: 'debug', en: 'Auth message sent', zh: '发送认证帧' },
+  AUTH_SUCCESS: { level: 'info', en: 'Authenticated', zh: '认证成功' },
+  AUTH_FAILED: { level: 'warn', en: 'Authentication failed', zh: '认证失败' },
+  AUTH_TIMEOUT: { level: 'warn', en: 'Authentication timed out', zh: '认证超时' },
+  AUTH_RETRY: { level: 'info', en: 'Authentication rejected, refreshing token and retrying', zh: '认证失败，刷新令牌后重试' },
+  URL_RESOLVE_FAILED: { level: 'warn', en: 'Failed to resolve connection URL', zh: '解析连接地址失败' },
+  RESUME_SENT: { level: 'debug', en: 'Resume message sent', zh: '发送续传帧' },
+  RESUME_GAP: { level: 'warn', en: 'Sequence gap, missing {from} - {to}', zh: '消息序号不连续，缺少 {from} - {to}' },
+  RESUME_STORAGE_ERROR: { level: 'warn', en: 'Event ID storage error', zh: '事件ID存储错误' },
+  SHARED_JOIN: { level: 'debug', en: 'Joining shared connection', zh: '加入共享连接' },
+  SHARED_LEADER: { level: 'info', en: 'Became leader tab, connecting', zh: '成为主标签页，建立连接' },
+  SHARED_FOLLOWER: { level: 'info', en: 'Became follower tab, using the leader connection', zh: '成为从标签页，使用主标签页的连接' },
+  SHARED_DEMOTED: { level: 'warn', en: 'Demoted to follower tab, closing own connection', zh: '降级为从标签页，关闭自身连接' },
+  SHARED_POST_FAILED: { level: 'warn', en: 'Failed to post to leader tab', zh: '发送到主标签页失败' },
+  LISTENER_ERROR: { level: 'error', en: 'Error in event handler for {event}', zh: '事件 {event} 的监听器出错' },
+  STATUS_CALLBACK_ERROR: { level: 'error', en: 'Error in status change callback', zh: '状态变化回调出错' },
+  CHANNEL_HANDLER_ERROR: { level: 'error', en: 'Error in handler for channel {channel}', zh: '频道 {channel} 的处理函数出错' }
+} satisfies Record<string, MessageDefinition>;
+
+// 消息代码
+export type LogCode = keyof typeof LOG_MESSAGES;
+
+// 默认输出到 console，带 [SupaSocket] 前缀
+// 未开启 debug 时默认的 console 仍然输出的消息：用户代码（监听器、回调）抛出的错误
+const ALWAYS_LOGGED: ReadonlySet<string> = new Set(['LISTENER_ERROR', 'STATUS_CALLBACK_ERROR']);
+
+const consoleLogger: Logger = {
+  debug: (message, context) => console.debug(`[SupaSocket] ${message}`, context),
+  info: (message, context) => console.info(`[SupaSocket] ${message}`, context),
+  warn: (message, context) => console.warn(`[SupaSocket] ${message}`, context),
+  error: (message, context) => console.error(`[SupaSocket] ${message}`, context)
+};
+
+/**
+ * 格式化消息
+ * @param code 消息代码
+ * @param context 上下文，用于替换文本中的 {name}
+ * @param locale 消息语言
+ */
+export function formatLogMessage(code: LogCode, context: Record<string, any> = {}, locale: LogLocale = 'zh'): string {
+  const definition: MessageDefinition = LOG_MESSAGES[code];
+  return definition[locale].replace(/\{(\w+)\}/g, (match, name) => {
+    const value = context[name];
+    return value === undefined || value === null ? '' : String(value);
+  });
+}
+
+/**
+ * 日志输出类
+ */
+export class SocketLogger {
+  private logger: Logger;
+  private threshold: number;
+  private quiet: boolean; // 默认的 console 且未开启 debug：只输出 ALWAYS_LOGGED 中的消息
+
+  /**
+   * @param options 日志配置
+   * @param debug 是否开启调试日志，未设置 level 时决定默认级别
+   * @param baseContext 每条日志都附带的上下文
+   */
+  constructor(
+    private options: LoggerOptions,
+    debug: boolean,
+    private baseContext: () => Omit<LogContext, 'code'>
+  ) {
+    this.logger = options.logger || consoleLogger;
+    // 默认：开启 debug 时输出全部；自定义日志输出 info 及以上；console 只输出监听器和回调抛出的错误
+    const level = options.level ?? (debug ? 'debug' : options.logger ? 'info' : 'error');
+    this.threshold = LOG_LEVELS[level];
+    this.quiet = !debug && !options.logger && !options.level;
+  }
+
+  /**
+   * 输出一条日志，级别由消息代码决定
+   * @param code 消息代码
+   * @param context 附加上下文
+   */
+  public log(code: LogCode, context: Record<string, any> = {}): void {
+    const definition: MessageDefinition = LOG_MESSAGES[code];
+    if (LOG_LEVELS[definition.level] < this.threshold) return;
+    if (this.quiet && !ALWAYS_LOGGED.has(code)) return;
+
+    const fullContext: LogContext = { ...this.baseContext(), ...context, code };
+    const message = formatLogMessage(code, fullContext, this.options.locale);
+
+    try {
+      if (this.options.contextFirst) {
+        this.logger[definition.level](fullContext, message);
+      } else {
+        this.logger[definition.level](message, fullContext);
+      }
+    } catch (e) {
+      // 日志输出出错时不影响连接
+    }
+  }
+}
@@ -0,0 +1,354 @@
+/**
+ * 连接指标
+ * 统计收发的消息数和字节数、重连次数和原因、连接时长等，
+ * 通过 getStats() 获取快照，也可以接入自定义的指标输出或 OpenTelemetry
+ */
+
+import { Clock, systemClock } from './clock.js';
+
+// 指标属性
+export type MetricAttributes = Record<string, string | number | boolean>;
+
+// 单个消息类型的统计
+export interface MessageTypeStats {
+  sent: number;
+  received: number;
+  bytesSent: number;
+  bytesReceived: number;
+}
+
+// 统计快照
+export interface SocketStats {
+  messagesSent: number;
+  messagesReceived: number;
+  bytesSent: number;
+  bytesReceived: number;
+  byType: Record<string, MessageTypeStats>;  // 按消息 type 统计，非对象消息记为 text / binary
+  reconnectAttempts: number;
+  reconnectReasons: Record<string, number>;  // 按重连原因统计（close:关闭代码、heartbeatTimeout 等）
+  sessions: number;                          // 连接成功的次数
+  uptime: number;                            // 累计连接时长（毫秒），包括当前连接
+  currentSessionDuration: number | null;     // 当前连接已持续的时间（毫秒）
+  lastSessionDuration: number | null;        // 上一次连接持续的时间（毫秒）
+  heartbeatTimeouts: number;
+  sendErrors: number;
+  errors: Record<string, number>;            // 按错误 type 统计
+  queueDepth: number;
+  pendingRequests: number;
+  latency: number | null;
+  smoothedRtt: number | null;
+}
+
+// 连接会话信息
+export interface SessionInfo {
+  url: string;
+  duration?: number;   // 结束时的连接时长
+  code?: number;       // 结束时的关闭代码
+  reason?: string;     // 结束时的关闭原因
+}
+
+// 请求信息
+export interface RequestInfo {
+  type: string;
+  duration?: number;            // 结束时的耗时
+  status?: 'ok' | 'error';      // 结束时的结果
+  error?: any;
+}
+
+// 指标输出，所有方法都是可选的
+export interface MetricsSink {
+  counter?(name: string, value: number, attributes?: MetricAttributes): void;
+  histogram?(name: string, value: number, attributes?: MetricAttributes): void;
+  gauge?(name: string, value: number, attributes?: MetricAttributes): void;
+  sessionStart?(info: SessionInfo): void;
+  sessionEnd?(info: SessionInfo): void;
+  requestStart?(info: RequestInfo): unknown;            // 返回值作为该请求的句柄传给 requestEnd（如 span）
+  requestEnd?(info: RequestInfo, handle?: unknown): void;
+}
+
+/**
+ * 指标收集类
+ */
+export class MetricsCollector {
+  private messagesSent = 0;
+  private messagesReceived = 0;
+  private bytesSent = 0;
+  private bytesReceived = 0;
+  private byType: Record<string, MessageTypeStats> = {};
+  private reconnectAttempts = 0;
+  private reconnectReasons: Record<string, number> = {};
+  private sessions = 0;
+  private closedUptime = 0;                // 已结束的连接的累计时长
+  private sessionStart: number | null = null;
+  private lastSessionDuration: number | null = null;
+  private heartbeatTimeouts = 0;
+  private errors: Record<string, number> = {};
+
+  /**
+   * @param sink 指标输出
+   * @param url 获取当前连接地址
+   * @param clock 计算时长使用的时钟
+   */
+  constructor(private sink: MetricsSink | undefined, private url: () => string, private clock: Clock = systemClock) {}
+
+  /**
+   * 记录发送的一帧
+   * @param data 编码前的消息
+   * @param bytes 编码后的字节数
+   */
+  public recordSent(data: any, bytes: number): void {
+    const type = this.typeOf(data);
+    const stats = this.typeStats(type);
+    this.messagesSent++;
+    this.bytesSent += bytes;
+    stats.sent++;
+    stats.bytesSent += bytes;
+    this.sink?.counter?.('supasocket.messages.sent', 1, { type });
+    this.sink?.counter?.('supasocket.bytes.sent', bytes, { type });
+  }
+
+  /**
+   * 记录收到的一帧
+   * @param data 解码后的消息
+   * @param bytes 原始数据的字节数
+   */
+  public recordReceived(data: any, bytes: number): void {
+    const type = this.typeOf(data);
+    const stats = this.typeStats(type);
+    this.messagesReceived++;
+    this.bytesReceived += bytes;
+    stats.received++;
+    stats.bytesReceived += bytes;
+    this.sink?.counter?.('supasocket.messages.received', 1, { type });
+    this.sink?.counter?.('supasocket.bytes.received', bytes, { type });
+  }
+
+  /**
+   * 记录队列深度
+   * @param depth 队列中的消息数
+   */
+  public recordQueueDepth(depth: number): void {
+    this.sink?.gauge?.('supasocket.queue.depth', depth);
+  }
+
+  /**
+   * 开始记录一个请求
+   * @param type 请求类型
+   * @returns 请求结束时调用
+   */
+  public requestStarted(type: string): (error?: any) => void {
+    const start = this.clock.now();
+    const handle = this.sink?.requestStart?.({ type });
+
+    return (error?: any) => {
+      const duration = this.clock.now() - start;
+      const status = error ? 'error' : 'ok';
+      this.sink?.histogram?.('supasocket.rpc.duration', duration, { type, status });
+      this.sink?.requestEnd?.({ type, duration, status, error }, handle);
+    };
+  }
+
+  /**
+   * 根据 SupaSocket 的事件更新指标
+   * @param event 事件名称
+   * @param data 事件数据
+   */
+  public handleEvent(event: string, data: any): void {
+    switch (event) {
+      case 'open':
+        this.sessions++;
+        this.sessionStart = this.clock.now();
+        this.sink?.counter?.('supasocket.sessions', 1);
+        this.sink?.sessionStart?.({ url: this.url() });
+        break;
+      case 'close':
+        if (this.sessionStart !== null) {
+          const duration = this.clock.now() - this.sessionStart;
+          this.closedUptime += duration;
+          this.lastSessionDuration = duration;
+          this.sessionStart = null;
+          this.sink?.histogram?.('supasocket.session.duration', duration);
+          this.sink?.sessionEnd?.({ url: this.url(), duration, code: data?.code, reason: data?.reason });
+        }
+        break;
+      case 'reconnecting': {
+        const reason = String(data?.reason ?? 'unknown');
+        this.reconnectAttempts++;
+        this.reconnectReasons[reason] = (this.reconnectReasons[reason] || 0) + 1;
+        this.sink?.counter?.('supasocket.reconnect.attempts', 1, { reason });
+        break;
+      }
+      case 'heartbeatTimeout':
+        this.heartbeatTimeouts++;
+        this.sink?.counter?.('supasocket.heartbeat.timeouts', 1);
+        break;
+      case 'latency':
+        this.sink?.histogram?.('supasocket.latency', data.rtt);
+        break;
+      case 'queueDrop':
+        this.sink?.counter?.('supasocket.queue.dropped', 1, { reason: data.reason });
+        break;
+      case 'error': {
+        const type = typeof data?.type === 'string' ? data.type : 'connectionError';
+        this.errors[type] = (this.errors[type] || 0) + 1;
+        this.sink?.counter?.('supasocket.errors', 1, { type });
+        break;
+      }
+    }
+  }
+
+  /**
+   * 获取统计快照
+   * @param extra 由 SupaSocket 提供的实时数据
+   */
+  public snapshot(extra: Pick<SocketStats, 'queueDepth' | 'pendingRequests' | 'latency' | 'smoothedRtt'>): SocketStats {
+    const current = this.sessionStart !== null ? this.clock.now() - this.sessionStart : null;
+    const byType: Record<string, MessageTypeStats> = {};
+    Object.keys(this.byType).forEach(type => {
+      byType[type] = { ...this.byType[type] };
+    });
+
+    return {
+      messagesSent: this.messagesSent,
+      messagesReceived: this.messagesReceived,
+      bytesSent: this.bytesSent,
+      bytesReceived: this.bytesReceived,
+      byType,
+      reconnectAttempts: this.reconnectAttempts,
+      reconnectReasons: { ...this.reconnectReasons },
+      sessions: this.sessions,
+      uptime: this.closedUptime + (current ?? 0),
+      currentSessionDuration: current,
+      lastSessionDuration: this.lastSessionDuration,
+      heartbeatTimeouts: this.heartbeatTimeouts,
+      sendErrors: this.errors.sendError || 0,
+      errors: { ...this.errors },
+      ...extra
+    };
+  }
+
+  /**
+   * 清零计数（不影响当前连接的开始时间）
+   */
+  public reset(): void {
+    this.messagesSent = 0;
+    this.messagesReceived = 0;
+    this.bytesSent = 0;
+    this.bytesReceived = 0;
+    this.byType = {};
+    this.reconnectAttempts = 0;
+    this.reconnectReasons = {};
+    this.sessions = this.sessionStart !== null ? 1 : 0;
+    this.closedUptime = 0;
+    this.lastSessionDuration = null;
+    this.heartbeatTimeouts = 0;
+    this.errors = {};
+  }
+
+  /**
+   * 获取消息的统计类型
+   * @private
+   */
+  private typeOf(data: any): string {
+    if (data && typeof data === 'object' && typeof data.type === 'string') return data.type;
+    return typeof data === 'string' ? 'text' : 'binary';
+  }
+
+  /**
+   * 获取或创建消息类型的统计
+   * @private
+   */
+  private typeStats(type: string): MessageTypeStats {
+    if (!this.byType[type]) {
+      this.byType[type] = { sent: 0, received: 0, bytesSent: 0, bytesReceived: 0 };
+    }
+    return this.byType[type];
+  }
+}
+
+// OpenTelemetry 兼容的最小接口，可以直接传入 @opentelemetry/api 的 Tracer 和 Meter
+export interface OtelSpan {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException?(exception: any): unknown;
+  end(): void;
+}
+
+export interface OtelTracer {
+  startSpan(name: string, options?: { attributes?: MetricAttributes; kind?: number }): OtelSpan;
+}
+
+export interface OtelMeter {
+  createCounter(name: string): { add(value: number, attributes?: MetricAttributes): void };
+  createHistogram(name: string): { record(value: number, attributes?: MetricAttributes): void };
+}
+
+// OpenTelemetry 的 SpanKind.CLIENT 和 SpanStatusCode
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_OK = 1;
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * OpenTelemetry 适配器
+ * 连接会话和 RPC 请求输出为 span，计数和耗时输出到 Meter（可选）
+ */
+export class OpenTelemetryAdapter implements MetricsSink {
+  private session: OtelSpan | null = null;
+  private counters: Map<string, { add(value: number, attributes?: MetricAttributes): void }> = new Map();
+  private histograms: Map<string, { record(value: number, attributes?: MetricAttributes): void }> = new Map();
+
+  constructor(private tracer: OtelTracer, private meter?: OtelMeter) {}
+
+  public counter(name: string, value: number, attributes?: MetricAttributes): void {
+    if (!this.meter) return;
+    if (!this.counters.has(name)) {
+      this.counters.set(name, this.meter.createCounter(name));
+    }
+    this.counters.get(name)!.add(value, attributes);
+  }
+
+  public histogram(name: string, value: number, attributes?: MetricAttributes): void {
+    if (!this.meter) return;
+    if (!this.histograms.has(name)) {
+      this.histograms.set(name, this.meter.createHistogram(name));
+    }
+    this.histograms.get(name)!.record(value, attributes);
+  }
+
+  public sessionStart(info: SessionInfo): void {
+    this.session?.end();
+    this.session = this.tracer.startSpan('websocket.session', {
+      kind: SPAN_KIND_CLIENT,
+      attributes: { 'url.full': info.url }
+    });
+  }
+
+  public sessionEnd(info: SessionInfo): void {
+    if (!this.session) return;
+    if (info.code !== undefined) this.session.setAttribute('websocket.close.code', info.code);
+    if (info.reason) this.session.setAttribute('websocket.close.reason', info.reason);
+    this.session.setStatus({ code: info.code === 1000 ? SPAN_STATUS_OK : SPAN_STATUS_ERROR });
+    this.session.end();
+    this.session = null;
+  }
+
+  public requestStart(info: RequestInfo): OtelSpan {
+    return this.tracer.startSpan(`rpc ${info.type}`, {
+      kind: SPAN_KIND_CLIENT,
+      attributes: { 'rpc.system': 'websocket', 'rpc.method': info.type }
+    });
+  }
+
+  public requestEnd(info: RequestInfo, handle?: unknown): void {
+    const span = handle as OtelSpan | undefined;
+    if (!span) return;
+
+    if (info.status === 'error') {
+      span.recordException?.(info.error);
+      span.setStatus({ code: SPAN_STATUS_ERROR, message: info.error?.message });
+    } else {
+      span.setStatus({ code: SPAN_STATUS_OK });
+    }
+    span.end();
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * 中间件
+ * 按注册顺序处理收发的每一帧（包括心跳帧），message 阶段处理消息对象，raw 阶段处理编解码器和 WebSocket 之间的原始帧，
+ * 可以修改、补充、延迟或丢弃消息，支持异步
+ */
+
+// 消息方向
+export type MiddlewareDirection = 'inbound' | 'outbound';
+
+// 处理阶段：message 处理解码后/编码前的消息，raw 处理解码前/编码后的原始帧（例如加解密）
+export type MiddlewareStage = 'message' | 'raw';
+
+// 中间件上下文
+export interface MiddlewareContext {
+  readonly direction: MiddlewareDirection;
+  readonly stage: MiddlewareStage;
+  data: any;           // 当前帧，可以直接替换：message 阶段为消息对象，raw 阶段为字符串或二进制数据
+  readonly raw?: any;  // message 阶段收到的原始数据（经过 raw 阶段处理后）
+  state: Record<string, any>; // 在同一帧的中间件之间（包括两个阶段）传递数据
+}
+
+// 中间件：调用 next() 交给下一个中间件，不调用则丢弃该帧
+export type Middleware = (context: MiddlewareContext, next: () => Promise<void>) => void | Promise<void>;
+
+// 一帧的处理回调
+export interface MiddlewareHandlers {
+  convert: (data: any) => any;                          // 编解码：收到的帧解码，发送的消息编码
+  deliver: (message: any, frame: any) => boolean | void; // 两个阶段都处理完成后的处理，返回 false 表示失败
+  onError: (error: any, data: any) => void;             // 中间件出错，该帧被丢弃
+  onCodecError: (error: any, data: any) => void;        // 编解码出错，该帧被丢弃
+}
+
+/**
+ * 中间件管道类
+ * 收到的帧依次经过 raw 阶段、解码、message 阶段，发送的消息依次经过 message 阶段、编码、raw 阶段；
+ * 同一方向的帧依次处理，前一帧处理完成后才处理下一帧，保证收发顺序不变
+ */
+export class MiddlewarePipeline {
+  private stacks: Record<MiddlewareDirection, Record<MiddlewareStage, Middleware[]>> = {
+    inbound: { message: [], raw: [] },
+    outbound: { message: [], raw: [] }
+  };
+  private chains: Record<MiddlewareDirection, Promise<void>> = {
+    inbound: Promise.resolve(),
+    outbound: Promise.resolve()
+  };
+
+  /**
+   * 注册中间件
+   * @param middleware 中间件
+   * @param direction 处理的方向，默认两个方向都处理
+   * @param stage 处理阶段，默认 message
+   */
+  public use(middleware: Middleware, direction?: MiddlewareDirection, stage: MiddlewareStage = 'message'): void {
+    if (!direction || direction === 'inbound') this.stacks.inbound[stage].push(middleware);
+    if (!direction || direction === 'outbound') this.stacks.outbound[stage].push(middleware);
+  }
+
+  /**
+   * 移除中间件
+   * @param middleware 中间件
+   */
+  public remove(middleware: Middleware): void {
+    (['inbound', 'outbound'] as const).forEach(direction => {
+      (['message', 'raw'] as const).forEach(stage => {
+        this.stacks[direction][stage] = this.stacks[direction][stage].filter(item => item !== middleware);
+      });
+    });
+  }
+
+  /**
+   * 指定方向是否有中间件
+   * @param direction 消息方向
+   */
+  public has(direction: MiddlewareDirection): boolean {
+    return this.stacks[direction].message.length > 0 || this.stacks[direction].raw.length > 0;
+  }
+
+  /**
+   * 让一帧经过中间件和编解码
+   * @param direction 消息方向
+   * @param data 收到的原始帧，或要发送的消息
+   * @param handlers 处理回调
+   * @returns 该帧是否已交给 deliver 并处理成功，被丢弃或出错时为 false
+   */
+  public run(direction: MiddlewareDirection, data: any, handlers: MiddlewareHandlers): Promise<boolean> {
+    // 使用处理开始时的中间件列表，处理过程中注册的中间件从下一帧开始生效
+    const stacks = { message: this.stacks[direction].message.slice(), raw: this.stacks[direction].raw.slice() };
+    const state: Record<string, any> = {};
+    let current = data;
+    let delivered = false;
+
+    // 一个阶段的所有中间件都调用了 next() 后进入下一步，之后的步骤在最内层的 next() 中完成
+    const stage = (name: MiddlewareStage, value: any, raw: any, done: (value: any) => Promise<void>): Promise<void> => {
+      current = value;
+      if (stacks[name].length === 0) return done(value);
+      const context: MiddlewareContext = { direction, stage: name, data: value, raw, state };
+      return this.dispatch(stacks[name], context, () => done(context.data));
+    };
+
+    const convert = (value: any, done: (value: any) => Promise<void>): Promise<void> => {
+      current = value;
+      let converted: any;
+      try {
+        converted = handlers.convert(value);
+      } catch (error) {
+        handlers.onCodecError(error, value);
+        return Promise.resolve();
+      }
+      return done(converted);
+    };
+
+    const deliver = (message: any, frame: any): Promise<void> => {
+      delivered = handlers.deliver(message, frame) !== false;
+      return Promise.resolve();
+    };
+
+    const process = (): Promise<void> => direction === 'inbound'
+      ? stage('raw', data, undefined, frame => convert(frame, message => stage('message', message, frame, result => deliver(result, frame))))
+      : stage('message', data, undefined, message => convert(message, frame => stage('raw', frame, undefined, result => deliver(message, result))));
+
+    const result = this.chains[direction]
+      .then(process)
+      .then(() => delivered, error => {
+        handlers.onError(error, current);
+        return false;
+      });
+    this.chains[direction] = result.then(() => undefined);
+    return result;
+  }
+
+  /**
+   * 依次调用一个阶段的中间件，所有中间件都调用了 next() 时调用 done
+   * @private
+   */
+  private dispatch(stack: Middleware[], context: MiddlewareContext, done: () => Promise<void>): Promise<void> {
+    const call = (index: number): Promise<void> => {
+      try {
+        if (index >= stack.length) {
+          return done();
+        }
+        let called = false;
+        return Promise.resolve(stack[index](context, () => {
+          if (called) {
+            return Promise.reject(new Error('next() 被多次调用'));
+          }
+          called = true;
+          return call(index + 1);
+        }));
+      } catch (error) {
+        return Promise.reject(error);
+      }
+    };
+
+    return call(0);
+  }
+}
@@ -0,0 +1,455 @@
+/**
+ * 发送队列
+ * 支持长度/字节上限、溢出策略、消息过期、优先级通道和可插拔的持久化存储
+ */
+
+import { Clock, systemClock } from './clock.js';
+
+// 消息优先级
+export type QueuePriority = 'high' | 'normal' | 'low';
+
+// 队列溢出策略
+export type QueueOverflowPolicy = 'drop-oldest' | 'drop-newest' | 'reject';
+
+// 消息被丢弃的原因
+export type QueueDropReason = 'overflow' | 'expired';
+
+// 队列中的消息
+export interface QueuedMessage {
+  id: number;
+  data: any;
+  priority: QueuePriority;
+  enqueuedAt: number;
+  expiresAt: number | null; // 过期时间戳，null 表示永不过期
+  size: number;             // 估算的字节数
+}
+
+// 持久化存储适配器
+export interface QueueStorage {
+  load(): Promise<QueuedMessage[]>;
+  save(messages: QueuedMessage[]): Promise<void>;
+}
+
+// 队列配置
+export interface QueueOptions {
+  maxLength?: number;              // 最大消息数
+  maxBytes?: number;               // 最大字节数
+  overflow?: QueueOverflowPolicy;  // 溢出策略
+  ttl?: number;                    // 默认消息有效期（毫秒），0 表示永不过期
+  storage?: QueueStorage;          // 持久化存储
+  queueWhenClosed?: boolean;       // 连接关闭时是否仍然入队
+}
+
+// 单条消息的发送选项
+export interface SendOptions {
+  priority?: QueuePriority;
+  ttl?: number;
+  reliable?: boolean; // 是否使用可靠投递（需要服务端确认）
+}
+
+// 入队结果
+export interface EnqueueResult {
+  accepted: boolean;
+  reason?: 'overflow' | 'rejected';
+}
+
+// 队列刷新时每条消息的发送结果
+export interface QueueFlushResult {
+  data: any;
+  success: boolean;
+  error?: any;
+}
+
+// 队列事件回调
+export interface QueueHooks {
+  onDrop: (message: QueuedMessage, reason: QueueDropReason) => void;
+  onError: (error: any) => void;
+}
+
+const PRIORITY_RANK: Record<QueuePriority, number> = { high: 0, normal: 1, low: 2 };
+
+/**
+ * 估算消息的字节数
+ * @param data 消息数据
+ */
+export function estimateSize(data: any): number {
+  if (data instanceof ArrayBuffer) return data.byteLength;
+  if (ArrayBuffer.isView(data)) return data.byteLength;
+  if (typeof Blob !== 'undefined' && data instanceof Blob) return data.size;
+
+  const text = typeof data === 'string' ? data : JSON.stringify(data) ?? '';
+  if (typeof TextEncoder !== 'undefined') {
+    return new TextEncoder().encode(text).length;
+  }
+  return text.length;
+}
+
+/**
+ * 判断消息能否被持久化（二进制数据只保存在内存中）
+ * @private
+ */
+function isPersistable(data: any): boolean {
+  if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) return false;
+  if (typeof Blob !== 'undefined' && data instanceof Blob) return false;
+  return true;
+}
+
+/**
+ * 发送队列类
+ */
+export class MessageQueue {
+  private items: QueuedMessage[] = [];
+  private bytes = 0;
+  private nextId = 1;
+  private saving: Promise<void> = Promise.resolve();
+  private restoring = false;
+
+  /**
+   * @param options 队列配置
+   * @param hooks 队列回调
+   * @param clock 判断消息过期使用的时钟
+   */
+  constructor(private options: QueueOptions, private hooks: QueueHooks, private clock: Clock = systemClock) {}
+
+  /**
+   * 队列中的消息数
+   */
+  public get length(): number {
+    return this.items.length;
+  }
+
+  /**
+   * 队列中消息的总字节数
+   */
+  public get byteLength(): number {
+    return this.bytes;
+  }
+
+  /**
+   * 是否在连接关闭时也接收消息
+   */
+  public get queueWhenClosed(): boolean {
+    return !!this.options.queueWhenClosed;
+  }
+
+  /**
+   * 是否正在从持久化存储中恢复消息，恢复完成前不应发送队列中的消息
+   */
+  public get isRestoring(): boolean {
+    return this.restoring;
+  }
+
+  /**
+   * 从持久化存储中恢复消息
+   * 恢复的消息比恢复期间入队的消息更早，在各自的优先级通道中排在前面
+   * @returns 恢复的消息数
+   */
+  public async restore(): Promise<number> {
+    if (!this.options.storage) return 0;
+
+    this.restoring = true;
+    try {
+      const stored = await this.options.storage.load();
+      if (!stored || stored.length === 0) return 0;
+
+      const now = this.clock.now();
+      const pending = new Set(this.items);
+      let restored = 0;
+      stored.forEach(message => {
+        if (message.expiresAt !== null && message.expiresAt <= now) {
+          this.hooks.onDrop(message, 'expired');
+          return;
+        }
+        this.insert({ ...message, id: this.nextId++ }, pending);
+        restored++;
+      });
+      this.persist();
+      return restored;
+    } catch (error) {
+      this.hooks.onError(error);
+      return 0;
+    } finally {
+      this.restoring = false;
+    }
+  }
+
+  /**
+   * 消息入队
+   * @param data 消息数据
+   * @param options 发送选项
+   */
+  public enqueue(data: any, options: SendOptions = {}): EnqueueResult {
+    const ttl = options.ttl ?? this.options.ttl ?? 0;
+    const message: QueuedMessage = {
+      id: this.nextId++,
+      data,
+      priority: options.priority || 'normal',
+      enqueuedAt: this.clock.now(),
+      expiresAt: ttl > 0 ? this.clock.now() + ttl : null,
+      size: estimateSize(data)
+    };
+
+    this.purgeExpired();
+
+    while (this.wouldOverflow(message)) {
+      const policy = this.options.overflow || 'drop-oldest';
+      if (policy === 'reject') {
+        return { accepted: false, reason: 'rejected' };
+      }
+
+      // drop-oldest 只会丢弃优先级不高于新消息的旧消息
+      const victim = policy === 'drop-oldest' ? this.oldestOfLowestLane() : null;
+      if (!victim || PRIORITY_RANK[victim.priority] < PRIORITY_RANK[message.priority]) {
+        this.hooks.onDrop(message, 'overflow');
+        return { accepted: false, reason: 'overflow' };
+      }
+      this.remove(victim);
+      this.hooks.onDrop(victim, 'overflow');
+    }
+
+    this.insert(message);
+    this.persist();
+    return { accepted: true };
+  }
+
+  /**
+   * 按优先级和入队顺序发送队列中的消息
+   * @param transmit 实际发送函数，返回是否发送成功
+   * @param canSend 当前是否可以继续发送
+   * @returns 每条消息的发送结果
+   */
+  public flush(transmit: (data: any) => boolean, canSend: () => boolean): QueueFlushResult[] {
+    const results: QueueFlushResult[] = [];
+    this.purgeExpired();
+
+    while (this.items.length > 0 && canSend()) {
+      const message = this.items[0];
+      this.remove(message);
+      try {
+        results.push({ data: message.data, success: transmit(message.data) });
+      } catch (error) {
+        results.push({ data: message.data, success: false, error });
+      }
+    }
+
+    this.persist();
+    return results;
+  }
+
+  /**
+   * 清空内存中的队列
+   * @param clearStorage 是否同时清空持久化存储
+   */
+  public clear(clearStorage: boolean = false): void {
+    this.items = [];
+    this.bytes = 0;
+    if (clearStorage) {
+      this.persist();
+    }
+  }
+
+  /**
+   * 移除已过期的消息
+   * @private
+   */
+  private purgeExpired(): void {
+    const now = this.clock.now();
+    const expired = this.items.filter(m => m.expiresAt !== null && m.expiresAt <= now);
+    if (expired.length === 0) return;
+
+    expired.forEach(message => {
+      this.remove(message);
+      this.hooks.onDrop(message, 'expired');
+    });
+    this.persist();
+  }
+
+  /**
+   * 判断加入消息后是否超出上限
+   * @private
+   */
+  private wouldOverflow(message: QueuedMessage): boolean {
+    const { maxLength, maxBytes } = this.options;
+    if (maxLength !== undefined && maxLength > 0 && this.items.length + 1 > maxLength) {
+      return true;
+    }
+    if (maxBytes !== undefined && maxBytes > 0 && this.bytes + message.size > maxBytes) {
+      // 单条消息本身超过上限时只能丢弃它自己
+      return this.items.length > 0 || message.size > maxBytes;
+    }
+    return false;
+  }
+
+  /**
+   * 找到最低优先级通道中最早入队的消息（同一通道内按队列顺序）
+   * @private
+   */
+  private oldestOfLowestLane(): QueuedMessage | null {
+    let victim: QueuedMessage | null = null;
+    this.items.forEach(message => {
+      if (!victim || PRIORITY_RANK[message.priority] > PRIORITY_RANK[victim.priority]) {
+        victim = message;
+      }
+    });
+    return victim;
+  }
+
+  /**
+   * 按优先级插入消息，同一优先级内保持先进先出
+   * @param message 消息
+   * @param before 同一优先级内需要排在其后的消息（恢复时为恢复期间入队的消息）
+   * @private
+   */
+  private insert(message: QueuedMessage, before?: Set<QueuedMessage>): void {
+    const rank = PRIORITY_RANK[message.priority];
+    let index = this.items.findIndex(m =>
+      PRIORITY_RANK[m.priority] > rank || (!!before && before.has(m) && PRIORITY_RANK[m.priority] === rank)
+    );
+    if (index === -1) index = this.items.length;
+    this.items.splice(index, 0, message);
+    this.bytes += message.size;
+  }
+
+  /**
+   * 移除指定消息
+   * @private
+   */
+  private remove(message: QueuedMessage): void {
+    const index = this.items.indexOf(message);
+    if (index === -1) return;
+    this.items.splice(index, 1);
+    this.bytes -= message.size;
+  }
+
+  /**
+   * 将可持久化的消息写入存储
+   * @private
+   */
+  private persist(): void {
+    const storage = this.options.storage;
+    if (!storage) return;
+
+    const snapshot = this.items.filter(m => isPersistable(m.data));
+    this.saving = this.saving
+      .then(() => storage.save(snapshot))
+      .catch(error => this.hooks.onError(error));
+  }
+}
+
+/**
+ * 内存存储
+ */
+export class MemoryQueueStorage implements QueueStorage {
+  private messages: QueuedMessage[] = [];
+
+  public async load(): Promise<QueuedMessage[]> {
+    return [...this.messages];
+  }
+
+  public async save(messages: QueuedMessage[]): Promise<void> {
+    this.messages = [...messages];
+  }
+}
+
+/**
+ * localStorage 存储
+ */
+export class LocalStorageQueueStorage implements QueueStorage {
+  constructor(private key: string = 'supa-socket-queue') {}
+
+  public async load(): Promise<QueuedMessage[]> {
+    const raw = localStorage.getItem(this.key);
+    return raw ? JSON.parse(raw) : [];
+  }
+
+  public async save(messages: QueuedMessage[]): Promise<void> {
+    if (messages.length === 0) {
+      localStorage.removeItem(this.key);
+    } else {
+      localStorage.setItem(this.key, JSON.stringify(messages));
+    }
+  }
+}
+
+/**
+ * IndexedDB 存储
+ */
+export class IndexedDBQueueStorage implements QueueStorage {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private dbName: string = 'supa-socket',
+    private storeName: string = 'queue',
+    private key: string = 'messages'
+  ) {}
+
+  public async load(): Promise<QueuedMessage[]> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = db.transaction(this.storeName, 'readonly').objectStore(this.storeName).get(this.key);
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  public async save(messages: QueuedMessage[]): Promise<void> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(this.storeName, 'readwrite');
+      tx.objectStore(this.storeName).put(messages, this.key);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  /**
+   * 打开数据库
+   * @private
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            request.result.createObjectStore(this.storeName);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+}
+
+/**
+ * 文件存储（Node.js）
+ */
+export class FileQueueStorage implements QueueStorage {
+  constructor(private filePath: string) {}
+
+  public async load(): Promise<QueuedMessage[]> {
+    const fs = await FileQueueStorage.fs();
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error: any) {
+      if (error && error.code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  public async save(messages: QueuedMessage[]): Promise<void> {
+    const fs = await FileQueueStorage.fs();
+    await fs.writeFile(this.filePath, JSON.stringify(messages), 'utf8');
+  }
+
+  /**
+   * 按需加载 fs 模块，避免浏览器打包时引入
+   * @private
+   */
+  private static fs(): Promise<typeof import('fs/promises')> {
+    const specifier = 'fs/promises';
+    return import(/* @vite-ignore */ /* webpackIgnore: true */ specifier);
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * 重连策略
+ * 内置固定间隔、线性和指数退避（支持 full / decorrelated 抖动），也可以传入自定义函数
+ */
+
+// 自定义重连策略：返回下一次重连的延迟（毫秒），返回 null 表示不再重连
+export type ReconnectStrategyFn = (attempt: number, lastCloseEvent: CloseEvent | null) => number | null;
+
+// 抖动方式
+export type JitterMode = 'none' | 'full' | 'decorrelated';
+
+// 内置重连策略配置
+export interface ReconnectStrategyConfig {
+  type: 'fixed' | 'linear' | 'exponential';
+  initialDelay?: number;  // 初始延迟，默认使用 reconnectInterval
+  maxDelay?: number;      // 最大延迟，默认使用 maxReconnectDelay
+  step?: number;          // 线性策略每次增加的延迟，默认等于初始延迟
+  factor?: number;        // 指数策略的倍数，默认 1.5
+  jitter?: JitterMode;    // 指数策略的抖动方式，默认不抖动
+}
+
+// 重连策略
+export type ReconnectStrategy = ReconnectStrategyFn | ReconnectStrategyConfig;
+
+// 按关闭代码决定是否重连
+export interface CloseCodePolicy {
+  noRetry?: number[];    // 收到这些关闭代码时不再重连
+  immediate?: number[];  // 收到这些关闭代码时立即重连
+}
+
+// 默认的关闭代码策略：1008 策略违规和 4001 认证失败不重连，1012 服务重启立即重连
+export const DEFAULT_CLOSE_CODE_POLICY: Required<CloseCodePolicy> = {
+  noRetry: [1008, 4001],
+  immediate: [1012]
+};
+
+/**
+ * 固定间隔
+ * @param delay 重连延迟
+ */
+export function fixedDelay(delay: number): ReconnectStrategyFn {
+  return () => delay;
+}
+
+/**
+ * 线性退避
+ * @param initialDelay 初始延迟
+ * @param step 每次增加的延迟
+ * @param maxDelay 最大延迟
+ */
+export function linearBackoff(initialDelay: number, step: number, maxDelay: number): ReconnectStrategyFn {
+  return (attempt) => Math.min(maxDelay, initialDelay + step * (attempt - 1));
+}
+
+/**
+ * 指数退避
+ * @param initialDelay 初始延迟
+ * @param factor 倍数
+ * @param maxDelay 最大延迟
+ * @param jitter 抖动方式
+ */
+export function exponentialBackoff(
+  initialDelay: number,
+  factor: number,
+  maxDelay: number,
+  jitter: JitterMode = 'none'
+): ReconnectStrategyFn {
+  let previous = initialDelay;
+
+  return (attempt) => {
+    if (jitter === 'decorrelated') {
+      // decorrelated jitter: 在初始延迟和上次延迟的3倍之间随机
+      if (attempt <= 1) previous = initialDelay;
+      previous = Math.min(maxDelay, initialDelay + Math.random() * (previous * 3 - initialDelay));
+      return Math.round(previous);
+    }
+
+    const delay = Math.min(maxDelay, initialDelay * Math.pow(factor, attempt - 1));
+    // full jitter: 在 0 和计算出的延迟之间随机
+    return jitter === 'full' ? Math.round(Math.random() * delay) : delay;
+  };
+}
+
+/**
+ * 根据配置创建重连策略函数，并应用关闭代码策略
+ * @param strategy 重连策略
+ * @param defaults 未配置时使用的初始延迟和最大延迟
+ * @param closeCodes 关闭代码策略
+ */
+export function createReconnectStrategy(
+  strategy: ReconnectStrategy | undefined,
+  defaults: { initialDelay: number; maxDelay: number },
+  closeCodes: CloseCodePolicy = DEFAULT_CLOSE_CODE_POLICY
+): ReconnectStrategyFn {
+  const base = resolveStrategy(strategy, defaults);
+  const noRetry = closeCodes.noRetry ?? DEFAULT_CLOSE_CODE_POLICY.noRetry;
+  const immediate = closeCodes.immediate ?? DEFAULT_CLOSE_CODE_POLICY.immediate;
+
+  return (attempt, lastCloseEvent) => {
+    if (lastCloseEvent && noRetry.includes(lastCloseEvent.code)) return null;
+    if (lastCloseEvent && immediate.includes(lastCloseEvent.code)) return 0;
+    return base(attempt, lastCloseEvent);
+  };
+}
+
+/**
+ * 将策略配置转为策略函数
+ * @private
+ */
+function resolveStrategy(
+  strategy: ReconnectStrategy | undefined,
+  defaults: { initialDelay: number; maxDelay: number }
+): ReconnectStrategyFn {
+  if (typeof strategy === 'function') {
+    return strategy;
+  }
+
+  const config: ReconnectStrategyConfig = strategy || { type: 'exponential' };
+  const initialDelay = config.initialDelay ?? defaults.initialDelay;
+  const maxDelay = config.maxDelay ?? defaults.maxDelay;
+
+  switch (config.type) {
+    case 'fixed':
+      return fixedDelay(initialDelay);
+    case 'linear':
+      return linearBackoff(initialDelay, config.step ?? initialDelay, maxDelay);
+    case 'exponential':
+    default:
+      return exponentialBackoff(initialDelay, config.factor ?? 1.5, maxDelay, config.jitter);
+  }
+}
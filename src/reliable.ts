@@ -0,0 +1,224 @@
+/**
+ * 可靠投递（至少一次）
+ * 为消息分配序列号，保留未确认的消息并在超时或重连后重发
+ */
+
+import { matchesShape } from './utils.js';
+import { Clock, TimerHandle, systemClock } from './clock.js';
+
+// 可靠投递配置
+export interface ReliableOptions {
+  seqKey?: string;        // 序列号字段名
+  ackMessage?: any;       // 确认帧模板，匹配方式与 pongMessage 相同
+  ackSeqKey?: string;     // 确认帧中序列号字段名，值可以是单个序列号或数组
+  ackTimeout?: number;    // 等待确认的超时时间（毫秒），超时后重发
+  maxRetries?: number;    // 最大重发次数
+}
+
+// 投递失败原因
+export type DeliveryFailureReason = 'maxRetries' | 'closed' | 'sendFailed';
+
+// 等待确认的消息
+interface UnackedMessage {
+  seq: number;
+  frame: Record<string, any>;
+  attempts: number;
+  timer: TimerHandle | null;
+  origin?: any; // 消息来源（如代发的其他标签页），原样传给回调
+}
+
+// 可靠投递回调
+export interface ReliableHooks {
+  transmit: (frame: Record<string, any>) => boolean;
+  canSend: () => boolean;
+  onDelivered: (seq: number, frame: Record<string, any>, origin?: any) => void;
+  onFailed: (seq: number, frame: Record<string, any>, reason: DeliveryFailureReason, origin?: any) => void;
+}
+
+/**
+ * 可靠投递管理类
+ */
+export class ReliableDelivery {
+  private buffer: Map<number, UnackedMessage> = new Map();
+  private nextSeq = 1;
+  private options: Required<ReliableOptions>;
+
+  /**
+   * @param options 可靠投递配置
+   * @param hooks 可靠投递回调
+   * @param clock 确认超时计时使用的时钟
+   */
+  constructor(options: ReliableOptions, private hooks: ReliableHooks, private clock: Clock = systemClock) {
+    this.options = {
+      seqKey: 'seq',
+      ackMessage: { type: 'ack' },
+      ackSeqKey: 'seq',
+      ackTimeout: 5000,
+      maxRetries: 5,
+      ...options
+    };
+  }
+
+  /**
+   * 未确认的消息数
+   */
+  public get size(): number {
+    return this.buffer.size;
+  }
+
+  /**
+   * 可靠发送一条消息
+   * @param data 消息对象
+   * @param origin 消息来源，确认或失败时传给回调
+   * @returns 分配的序列号
+   */
+  public send(data: Record<string, any>, origin?: any): number {
+    const seq = this.nextSeq++;
+    const entry: UnackedMessage = {
+      seq,
+      frame: { ...data, [this.options.seqKey]: seq },
+      attempts: 0,
+      timer: null,
+      origin
+    };
+    this.buffer.set(seq, entry);
+
+    // 未连接时先留在重发缓冲区，连接建立后由 resendAll 发送
+    if (this.hooks.canSend()) {
+      this.transmit(entry);
+    }
+    return seq;
+  }
+
+  /**
+   * 判断消息是否为本实例等待中的确认帧
+   * 只有确认的序列号在重发缓冲区中时才算，其他形状相同的消息（如业务上的 ack）照常分发
+   * @param data 已解析的消息
+   */
+  public isAck(data: any): boolean {
+    const ackMessage = this.options.ackMessage;
+    if (this.buffer.size === 0 || !ackMessage || typeof ackMessage !== 'object') return false;
+    if (!matchesShape(data, ackMessage)) return false;
+
+    const value = data[this.options.ackSeqKey];
+    const seqs: any[] = Array.isArray(value) ? value : [value];
+    return seqs.some(seq => seq !== undefined && this.buffer.has(Number(seq)));
+  }
+
+  /**
+   * 处理确认帧
+   * @param data 已解析的确认帧
+   */
+  public handleAck(data: any): void {
+    const value = data[this.options.ackSeqKey];
+    const seqs: any[] = Array.isArray(value) ? value : [value];
+
+    seqs.forEach(seq => {
+      const entry = this.buffer.get(Number(seq));
+      if (!entry) return;
+      this.clearTimer(entry);
+      this.buffer.delete(entry.seq);
+      this.hooks.onDelivered(entry.seq, entry.frame, entry.origin);
+    });
+  }
+
+  /**
+   * 重连成功后按序列号顺序重发所有未确认的消息
+   */
+  public resendAll(): void {
+    Array.from(this.buffer.values())
+      .sort((a, b) => a.seq - b.seq)
+      .forEach(entry => this.transmit(entry));
+  }
+
+  /**
+   * 连接断开时暂停所有确认计时器
+   */
+  public pause(): void {
+    this.buffer.forEach(entry => this.clearTimer(entry));
+  }
+
+  /**
+   * 取出未确认的消息，不触发失败回调（交给其他实例继续投递）
+   * @param filter 按来源筛选，默认取出全部
+   * @returns 按序列号排序的消息和来源
+   */
+  public takeAll(filter: (origin: any) => boolean = () => true): { frame: Record<string, any>; origin?: any }[] {
+    const entries = Array.from(this.buffer.values())
+      .filter(entry => filter(entry.origin))
+      .sort((a, b) => a.seq - b.seq);
+    entries.forEach(entry => {
+      this.clearTimer(entry);
+      this.buffer.delete(entry.seq);
+    });
+    return entries.map(({ frame, origin }) => ({ frame, origin }));
+  }
+
+  /**
+   * 消息未能写出（例如被发送中间件丢弃）时调用，对应的消息标记为投递失败
+   * @param frame 未写出的帧
+   */
+  public failSend(frame: any): void {
+    const entry = Array.from(this.buffer.values()).find(item => item.frame === frame);
+    if (entry) {
+      this.fail(entry, 'sendFailed');
+    }
+  }
+
+  /**
+   * 所有未确认的消息标记为投递失败
+   * @param reason 失败原因
+   */
+  public failAll(reason: DeliveryFailureReason = 'closed'): void {
+    Array.from(this.buffer.values()).forEach(entry => this.fail(entry, reason));
+  }
+
+  /**
+   * 发送（或重发）一条消息并启动确认计时器
+   * @private
+   */
+  private transmit(entry: UnackedMessage): void {
+    if (entry.attempts > this.options.maxRetries) {
+      this.fail(entry, 'maxRetries');
+      return;
+    }
+
+    entry.attempts++;
+    this.clearTimer(entry);
+
+    if (!this.hooks.transmit(entry.frame)) {
+      this.fail(entry, 'sendFailed');
+      return;
+    }
+
+    if (this.options.ackTimeout > 0) {
+      entry.timer = this.clock.setTimeout(() => {
+        entry.timer = null;
+        if (this.hooks.canSend()) {
+          this.transmit(entry);
+        }
+      }, this.options.ackTimeout);
+    }
+  }
+
+  /**
+   * 投递失败
+   * @private
+   */
+  private fail(entry: UnackedMessage, reason: DeliveryFailureReason): void {
+    this.clearTimer(entry);
+    this.buffer.delete(entry.seq);
+    this.hooks.onFailed(entry.seq, entry.frame, reason, entry.origin);
+  }
+
+  /**
+   * 清除确认计时器
+   * @private
+   */
+  private clearTimer(entry: UnackedMessage): void {
+    if (entry.timer) {
+      this.clock.clearTimeout(entry.timer);
+      entry.timer = null;
+    }
+  }
+}
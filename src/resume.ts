@@ -0,0 +1,168 @@
+/**
+ * 断线续传
+ * 记录收到的最后一个事件ID，重连后发送续传帧让服务端补发断线期间的消息，
+ * 丢弃补发时重复的消息，并在数字序号不连续时报告无法恢复的缺口
+ */
+
+// 事件ID
+export type EventId = string | number;
+
+// 事件ID持久化存储接口
+export interface ResumeStorage {
+  load(): Promise<EventId | undefined>;
+  save(id: EventId | undefined): Promise<void>;
+}
+
+// 续传配置
+export interface ResumeOptions {
+  idKey?: string;                                   // 消息中事件ID的字段名
+  getId?: (data: any) => EventId | undefined;       // 自定义事件ID提取，优先于 idKey
+  resumeMessage?: (lastId: EventId) => any;         // 生成续传帧
+  storage?: ResumeStorage;                          // 持久化最后一个事件ID
+  dedupeWindow?: number;                            // 字符串ID去重时记住的最近ID数量
+}
+
+// 续传回调
+export interface ResumeHooks {
+  onGap: (from: number, to: number) => void;
+  onError: (error: any) => void;
+}
+
+/**
+ * localStorage 存储
+ */
+export class LocalStorageResumeStorage implements ResumeStorage {
+  constructor(private key: string = 'supa-socket-last-event-id') {}
+
+  public async load(): Promise<EventId | undefined> {
+    const raw = localStorage.getItem(this.key);
+    return raw ? JSON.parse(raw) : undefined;
+  }
+
+  public async save(id: EventId | undefined): Promise<void> {
+    if (id === undefined) {
+      localStorage.removeItem(this.key);
+    } else {
+      localStorage.setItem(this.key, JSON.stringify(id));
+    }
+  }
+}
+
+/**
+ * 续传管理类
+ */
+export class ResumeManager {
+  private options: Required<Omit<ResumeOptions, 'getId' | 'storage'>> & Pick<ResumeOptions, 'getId' | 'storage'>;
+  private _lastId: EventId | undefined;
+  private seen: Set<EventId> = new Set(); // 最近收到的字符串ID
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(options: ResumeOptions, private hooks: ResumeHooks) {
+    this.options = {
+      idKey: 'eventId',
+      resumeMessage: lastEventId => ({ type: 'resume', lastEventId }),
+      dedupeWindow: 1000,
+      ...options
+    };
+  }
+
+  /**
+   * 收到的最后一个事件ID
+   */
+  public get lastId(): EventId | undefined {
+    return this._lastId;
+  }
+
+  /**
+   * 从存储中恢复最后一个事件ID
+   */
+  public async restore(): Promise<void> {
+    if (!this.options.storage) return;
+
+    try {
+      const id = await this.options.storage.load();
+      if (id !== undefined && this._lastId === undefined) {
+        this._lastId = id;
+      }
+    } catch (error) {
+      this.hooks.onError(error);
+    }
+  }
+
+  /**
+   * 记录收到的消息
+   * @param data 已解析的消息
+   * @returns 是否为新消息，重复的消息返回 false
+   */
+  public accept(data: any): boolean {
+    const id = this.extract(data);
+    if (id === undefined) return true;
+
+    const last = this._lastId;
+    if (typeof id === 'number' && typeof last === 'number') {
+      if (id <= last) return false;
+      if (id > last + 1) {
+        this.hooks.onGap(last + 1, id - 1);
+      }
+    } else {
+      if (this.seen.has(id)) return false;
+      this.seen.add(id);
+      // 只保留最近的ID
+      if (this.seen.size > this.options.dedupeWindow) {
+        this.seen.delete(this.seen.values().next().value!);
+      }
+    }
+
+    this._lastId = id;
+    this.persist();
+    return true;
+  }
+
+  /**
+   * 生成续传帧，还没有收到过事件时返回 null
+   */
+  public resumeFrame(): any {
+    return this._lastId === undefined ? null : this.options.resumeMessage(this._lastId);
+  }
+
+  /**
+   * 清除记录的事件ID（包括持久化存储）
+   */
+  public reset(): void {
+    this._lastId = undefined;
+    this.seen.clear();
+    this.persist();
+  }
+
+  /**
+   * 从消息中提取事件ID
+   * @private
+   */
+  private extract(data: any): EventId | undefined {
+    if (this.options.getId) {
+      try {
+        return this.options.getId(data) ?? undefined;
+      } catch {
+        return undefined;
+      }
+    }
+
+    if (!data || typeof data !== 'object') return undefined;
+    const id = data[this.options.idKey];
+    return typeof id === 'number' || typeof id === 'string' ? id : undefined;
+  }
+
+  /**
+   * 保存最后一个事件ID，等上一次保存完成后再保存，避免较早的ID覆盖较新的ID
+   * @private
+   */
+  private persist(): void {
+    const storage = this.options.storage;
+    if (!storage) return;
+
+    const id = this._lastId;
+    this.saving = this.saving
+      .then(() => storage.save(id))
+      .catch(error => this.hooks.onError(error));
+  }
+}
@@ -0,0 +1,237 @@
+/**
+ * 请求/响应(RPC)层
+ * 为消息打上关联ID，并在收到匹配的回复时解析对应的Promise
+ */
+
+import { SupaSocketError } from './errors.js';
+import { Clock, TimerHandle } from './clock.js';
+
+// 单次请求的选项
+export interface RequestOptions {
+  timeout?: number;          // 请求超时时间（毫秒）
+  retainOnReconnect?: boolean; // 断线重连后是否保留并重发该请求
+  signal?: AbortSignal;      // 取消请求
+}
+
+// 请求失败原因
+export type RequestErrorCode = 'TIMEOUT' | 'CLOSED' | 'REMOTE' | 'SEND_FAILED' | 'ABORTED';
+
+/**
+ * 请求错误
+ */
+export class RequestError extends SupaSocketError {
+  declare public readonly code: RequestErrorCode;
+
+  constructor(
+    code: RequestErrorCode,
+    message: string,
+    public requestId: string,
+    public reply?: any
+  ) {
+    super(code, 'requestError', message);
+    this.name = 'RequestError';
+  }
+}
+
+// 等待回复的请求
+interface PendingRequest {
+  id: string;
+  frame: Record<string, any>;
+  resolve: (value: any) => void;
+  reject: (error: RequestError) => void;
+  timer: TimerHandle | null;
+  removeAbortListener: (() => void) | null;
+  retainOnReconnect: boolean;
+  sent: boolean;             // 当前连接是否已写出（未连接时只在发送队列中）
+  needsResend: boolean;      // 连接断开时已发出，重连后需要重发
+}
+
+// RequestManager 配置
+export interface RequestManagerOptions {
+  idKey: string;                          // 关联ID字段名
+  defaultTimeout: number;                 // 默认超时时间
+  retainOnReconnect: boolean;             // 默认是否在重连后保留请求
+  isErrorReply: (data: any) => boolean;   // 判断回复是否为错误帧
+  clock: Clock;                           // 超时计时使用的时钟
+}
+
+/**
+ * 默认的错误帧判断：type 为 error 或包含 error 字段
+ */
+export function defaultIsErrorReply(data: any): boolean {
+  return data.type === 'error' || (data.error !== undefined && data.error !== null);
+}
+
+/**
+ * 请求管理类
+ */
+export class RequestManager {
+  private pending: Map<string, PendingRequest> = new Map();
+  private seq = 0;
+  private readonly prefix = Math.random().toString(36).slice(2, 8);
+
+  constructor(
+    private options: RequestManagerOptions,
+    private sendFrame: (frame: Record<string, any>) => boolean
+  ) {}
+
+  /**
+   * 当前等待回复的请求数
+   */
+  public get size(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * 发起请求
+   * @param type 消息类型
+   * @param payload 消息数据
+   * @param options 请求选项
+   */
+  public request<TRes>(type: string, payload: any, options: RequestOptions = {}): Promise<TRes> {
+    const id = `${this.prefix}-${++this.seq}`;
+    const frame = { type, payload, [this.options.idKey]: id };
+    const timeout = options.timeout ?? this.options.defaultTimeout;
+    const { signal } = options;
+
+    if (signal?.aborted) {
+      return Promise.reject(new RequestError('ABORTED', `请求已取消: ${type}`, id));
+    }
+
+    return new Promise<TRes>((resolve, reject) => {
+      const entry: PendingRequest = {
+        id,
+        frame,
+        resolve,
+        reject,
+        timer: null,
+        removeAbortListener: null,
+        retainOnReconnect: options.retainOnReconnect ?? this.options.retainOnReconnect,
+        sent: false,
+        needsResend: false
+      };
+
+      if (timeout > 0) {
+        entry.timer = this.options.clock.setTimeout(() => {
+          this.settle(id, new RequestError('TIMEOUT', `请求超时: ${type}`, id));
+        }, timeout);
+      }
+
+      if (signal) {
+        const onAbort = () => this.settle(id, new RequestError('ABORTED', `请求已取消: ${type}`, id));
+        signal.addEventListener('abort', onAbort, { once: true });
+        entry.removeAbortListener = () => signal.removeEventListener('abort', onAbort);
+      }
+
+      this.pending.set(id, entry);
+
+      if (!this.sendFrame(frame)) {
+        this.settle(id, new RequestError('SEND_FAILED', `请求发送失败: ${type}`, id));
+      }
+    });
+  }
+
+  /**
+   * 处理收到的消息，若为某个请求的回复则解析对应Promise
+   * @param data 已解析的消息
+   * @returns 是否匹配到等待中的请求
+   */
+  public handleReply(data: any): boolean {
+    if (!data || typeof data !== 'object') return false;
+
+    const id = data[this.options.idKey];
+    if (id === undefined || !this.pending.has(id)) return false;
+
+    if (this.options.isErrorReply(data)) {
+      const reason = data.error ?? data.payload;
+      const message = typeof reason === 'string' ? reason : reason?.message || '服务端返回错误';
+      this.settle(id, new RequestError('REMOTE', message, id, data));
+    } else {
+      this.settle(id, undefined, data.payload);
+    }
+    return true;
+  }
+
+  /**
+   * 请求帧已写出到连接时调用
+   * @param frame 写出的帧
+   */
+  public markSent(frame: any): void {
+    if (!frame || typeof frame !== 'object') return;
+    const entry = this.pending.get(frame[this.options.idKey]);
+    if (entry) {
+      entry.sent = true;
+    }
+  }
+
+  /**
+   * 请求帧未能写出（例如被发送中间件丢弃）时调用，对应的请求以 SEND_FAILED 结束
+   * @param frame 未写出的帧
+   */
+  public failSend(frame: any): void {
+    if (!frame || typeof frame !== 'object') return;
+    const entry = this.pending.get(frame[this.options.idKey]);
+    if (entry) {
+      this.settle(entry.id, new RequestError('SEND_FAILED', `请求发送失败: ${entry.frame.type}`, entry.id));
+    }
+  }
+
+  /**
+   * 连接关闭时调用
+   * @param willReconnect 是否即将重连，为 true 时保留标记为 retainOnReconnect 的请求
+   */
+  public handleClose(willReconnect: boolean): void {
+    this.pending.forEach(entry => {
+      if (willReconnect && entry.retainOnReconnect) {
+        // 仍在发送队列中的请求由队列在重连后发送，不需要重发
+        entry.needsResend = entry.needsResend || entry.sent;
+        entry.sent = false;
+        return;
+      }
+      this.settle(entry.id, new RequestError('CLOSED', '连接已关闭', entry.id));
+    });
+  }
+
+  /**
+   * 重连成功后重发保留的请求
+   */
+  public resendRetained(): void {
+    this.pending.forEach(entry => {
+      if (!entry.needsResend) return;
+      entry.needsResend = false;
+      if (!this.sendFrame(entry.frame)) {
+        this.settle(entry.id, new RequestError('SEND_FAILED', '请求重发失败', entry.id));
+      }
+    });
+  }
+
+  /**
+   * 拒绝所有等待中的请求
+   */
+  public rejectAll(message: string = '连接已关闭'): void {
+    this.pending.forEach(entry => {
+      this.settle(entry.id, new RequestError('CLOSED', message, entry.id));
+    });
+  }
+
+  /**
+   * 结束一个请求
+   * @private
+   */
+  private settle(id: string, error?: RequestError, value?: any): void {
+    const entry = this.pending.get(id);
+    if (!entry) return;
+
+    if (entry.timer) {
+      this.options.clock.clearTimeout(entry.timer);
+    }
+    entry.removeAbortListener?.();
+    this.pending.delete(id);
+
+    if (error) {
+      entry.reject(error);
+    } else {
+      entry.resolve(value);
+    }
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * 运行环境适配
+ * WebSocket 实现可以通过 WebSocketImpl 传入（如 Node.js 的 ws 包），默认使用全局 WebSocket；
+ * 二进制数据统一转为 Uint8Array 处理，不依赖 Blob、File、Buffer 等只在部分环境存在的类型
+ */
+
+// readyState 常量，不依赖全局 WebSocket（旧版 Node.js 没有）
+export const READY_STATE = {
+  CONNECTING: 0,
+  OPEN: 1,
+  CLOSING: 2,
+  CLOSED: 3
+} as const;
+
+// 与浏览器 WebSocket 兼容的最小接口，ws、React Native、Deno、Cloudflare Workers 的实现都满足
+export interface WebSocketLike {
+  readonly readyState: number;
+  readonly bufferedAmount: number;
+  binaryType: string;
+  onopen: ((event: any) => void) | null;
+  onmessage: ((event: any) => void) | null;
+  onclose: ((event: any) => void) | null;
+  onerror: ((event: any) => void) | null;
+  send(data: any): void;
+  close(code?: number, reason?: string): void;
+}
+
+// WebSocket 构造函数，第三个参数为实现支持的连接选项
+export type WebSocketConstructor = new (url: string, protocols?: string | string[], options?: any) => WebSocketLike;
+
+// 连接选项，只有支持第三个构造参数的实现（如 ws）才会使用，浏览器会忽略
+export interface WebSocketClientOptions {
+  headers?: Record<string, string>;  // 握手请求头
+  agent?: any;                       // http.Agent，可用于代理
+  rejectUnauthorized?: boolean;      // 是否校验服务端证书
+  ca?: any;                          // TLS 选项
+  cert?: any;
+  key?: any;
+  [key: string]: any;                // 其他传给实现的选项
+}
+
+// 可以作为文件发送的数据：Blob/File、ArrayBuffer、Uint8Array/Buffer、ReadableStream、异步迭代器（Node.js 的 Readable）
+export type BinarySource =
+  | Blob
+  | ArrayBuffer
+  | ArrayBufferView
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<Uint8Array>;
+
+/**
+ * 创建 WebSocket 连接
+ * @param url 连接地址
+ * @param protocols 子协议
+ * @param impl WebSocket 实现，默认使用全局 WebSocket
+ * @param options 传给实现的连接选项
+ */
+export function createWebSocket(
+  url: string,
+  protocols?: string | string[],
+  impl?: WebSocketConstructor,
+  options?: WebSocketClientOptions
+): WebSocketLike {
+  const Impl = impl || (typeof WebSocket !== 'undefined' ? WebSocket as unknown as WebSocketConstructor : undefined);
+  if (!Impl) {
+    throw new Error('当前环境没有全局 WebSocket，请通过 WebSocketImpl 传入实现（如 ws）');
+  }
+  return options ? new Impl(url, protocols, options) : new Impl(url, protocols);
+}
+
+/**
+ * 判断是否为 Blob（没有 Blob 的环境返回 false）
+ * @param data 数据
+ */
+export function isBlob(data: any): data is Blob {
+  return typeof Blob !== 'undefined' && data instanceof Blob;
+}
+
+/**
+ * 判断是否为二进制数据（ArrayBuffer、TypedArray、Buffer、Blob）
+ * @param data 数据
+ */
+export function isBinary(data: any): boolean {
+  return data instanceof ArrayBuffer || ArrayBuffer.isView(data) || isBlob(data);
+}
+
+/**
+ * 将同步可读的二进制数据转为 Uint8Array，不复制数据；其他类型返回 null
+ * 支持 ArrayBuffer、TypedArray、DataView、Buffer，以及 ws 的 fragments（Buffer 数组）
+ * @param data 数据
+ */
+export function toUint8Array(data: any): Uint8Array | null {
+  if (data instanceof Uint8Array) return data;
+  if (data instanceof ArrayBuffer) return new Uint8Array(data);
+  if (ArrayBuffer.isView(data)) return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  if (Array.isArray(data) && data.length > 0 && data.every(item => ArrayBuffer.isView(item))) {
+    return concatBytes(data.map(item => toUint8Array(item)!));
+  }
+  return null;
+}
+
+/**
+ * 读取 Blob，不支持 arrayBuffer() 的环境（旧版浏览器、React Native）使用 FileReader
+ * @param blob Blob
+ */
+export function readBlob(blob: Blob): Promise<Uint8Array> {
+  if (typeof blob.arrayBuffer === 'function') {
+    return blob.arrayBuffer().then(buffer => new Uint8Array(buffer));
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+/**
+ * 判断是否为流（ReadableStream 或异步迭代器）
+ * @param data 数据
+ */
+export function isStream(data: any): data is ReadableStream<Uint8Array> | AsyncIterable<Uint8Array> {
+  if (!data || typeof data !== 'object') return false;
+  return typeof data.getReader === 'function' || typeof data[Symbol.asyncIterator] === 'function';
+}
+
+/**
+ * 读取整个流
+ * @param stream ReadableStream 或异步迭代器，块可以是 Uint8Array、Buffer、ArrayBuffer 或字符串
+ */
+export async function readStream(stream: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  const push = (chunk: any) => {
+    const bytes = typeof chunk === 'string' ? new TextEncoder().encode(chunk) : toUint8Array(chunk);
+    if (!bytes) throw new TypeError('流中包含不支持的数据类型');
+    chunks.push(bytes);
+  };
+
+  if (typeof (stream as ReadableStream<Uint8Array>).getReader === 'function') {
+    const reader = (stream as ReadableStream<Uint8Array>).getReader();
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        push(value);
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  } else {
+    const iterator = (stream as AsyncIterable<Uint8Array>)[Symbol.asyncIterator]();
+    for (;;) {
+      const { done, value } = await iterator.next();
+      if (done) break;
+      push(value);
+    }
+  }
+
+  return concatBytes(chunks);
+}
+
+/**
+ * 拼接多个字节数组
+ * @param chunks 字节数组
+ */
+export function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  if (chunks.length === 1) return chunks[0];
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return result;
+}
@@ -0,0 +1,454 @@
+/**
+ * 服务端（supa-simple-socket/server）
+ * 基于 ws 实现与 SupaSocket 客户端配套的协议：自动回复心跳、按 type 分发消息、请求/回复关联、
+ * 频道（房间）订阅与广播、可靠投递的确认帧，以及 sendFile 上传的重组和断线续传
+ *
+ *   const server = new SupaSocketServer({ port: 8080 });
+ *   server.handle('echo', frame => frame.payload);   // 请求的返回值作为回复的 payload
+ *   server.publish('news', { type: 'news', payload: '...' });
+ */
+
+import { WebSocketServer, WebSocket, ServerOptions, RawData } from 'ws';
+import { IncomingMessage } from 'http';
+import { FileReceiver, FileReceiveOptions, FileTransferError, ReceivedFile, decodeChunkFrame, isFileControlFrame } from './transfer.js';
+import { toUint8Array } from './runtime.js';
+
+// 服务端配置，其余选项（port、server、path、noServer 等）传给 ws 的 WebSocketServer
+export interface SupaSocketServerOptions extends ServerOptions {
+  idKey?: string;                              // 请求关联ID字段名，默认 id，与客户端的 requestIdKey 一致
+  channelKey?: string;                         // 频道字段名，默认 channel，与客户端的 channels.channelKey 一致
+  isPing?: (data: any) => boolean;             // 判断心跳包，默认 type 为 ping
+  pong?: (ping: any) => any;                   // 心跳响应，默认 { type: 'pong', time }
+  ackReliable?: boolean;                       // 是否为带 seq 的消息回复 { type: 'ack', seq }，默认 true
+  canJoin?: (client: ServerClient, channel: string, params?: any) => boolean | Promise<boolean>; // 订阅前检查
+  files?: FileReceiveOptions | false;          // 文件上传配置，false 时不接收文件
+  clientTimeout?: number;                      // 超过该时间（毫秒）没有收到客户端的任何消息时断开，默认 0 不检查
+}
+
+// 消息处理函数：请求（带关联ID）的返回值作为回复的 payload，抛出错误时回复错误帧
+export type ServerHandler = (frame: any, client: ServerClient) => any;
+
+// 服务端事件
+export interface SupaSocketServerEventMap {
+  connection: ServerClient;
+  disconnect: { client: ServerClient; code: number; reason: string };
+  message: { client: ServerClient; data: any };         // 没有处理函数的消息
+  join: { client: ServerClient; channel: string; params?: any };
+  leave: { client: ServerClient; channel: string };
+  file: { client: ServerClient; file: ReceivedFile };
+  error: { client: ServerClient | null; error: unknown };
+}
+
+/**
+ * 服务端的一个客户端连接
+ */
+export class ServerClient {
+  public readonly rooms: Set<string> = new Set();   // 已加入的频道
+  public readonly data: Record<string, any> = {};    // 自定义数据（用户ID等）
+  public lastMessageTime = Date.now();               // 最后一次收到消息的时间
+
+  /**
+   * @param id 连接ID
+   * @param socket ws 连接
+   * @param request 握手请求（请求头、地址）
+   * @param server 所属的服务端
+   */
+  constructor(
+    public readonly id: string,
+    public readonly socket: WebSocket,
+    public readonly request: IncomingMessage,
+    private server: SupaSocketServer
+  ) {}
+
+  /**
+   * 连接是否打开
+   */
+  public get open(): boolean {
+    return this.socket.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * 发送消息，对象会被序列化为 JSON
+   * @param data 消息
+   * @returns 是否发送成功
+   */
+  public send(data: any): boolean {
+    if (!this.open) return false;
+    const bytes = typeof data === 'string' ? null : toUint8Array(data);
+    try {
+      this.socket.send(typeof data === 'string' || bytes ? data : JSON.stringify(data));
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * 加入频道
+   * @param channel 频道名称
+   */
+  public join(channel: string): void {
+    this.server.join(this, channel);
+  }
+
+  /**
+   * 离开频道
+   * @param channel 频道名称
+   */
+  public leave(channel: string): void {
+    this.server.leave(this, channel);
+  }
+
+  /**
+   * 关闭连接
+   * @param code 关闭代码
+   * @param reason 关闭原因
+   */
+  public close(code = 1000, reason = ''): void {
+    this.socket.close(code, reason);
+  }
+}
+
+/**
+ * SupaSocket 协议服务端
+ */
+export class SupaSocketServer {
+  public readonly wss: WebSocketServer;
+  public readonly clients: Set<ServerClient> = new Set();
+  private rooms: Map<string, Set<ServerClient>> = new Map();
+  private handlers: Map<string, ServerHandler> = new Map();
+  private listeners: Map<keyof SupaSocketServerEventMap, Set<(data: any) => void>> = new Map();
+  private fileReceiver: FileReceiver | null = null;
+  private uploads: Map<string, ServerClient> = new Map(); // 传输ID -> 发起传输的连接，原连接断开后由续传的新连接接管
+  private livenessTimer: ReturnType<typeof setInterval> | null = null;
+  private nextId = 0;
+  private idKey: string;
+  private channelKey: string;
+
+  constructor(private options: SupaSocketServerOptions = {}) {
+    const {
+      idKey, channelKey, isPing, pong, ackReliable, canJoin, files, clientTimeout,
+      ...wsOptions
+    } = options;
+    this.idKey = idKey || 'id';
+    this.channelKey = channelKey || 'channel';
+
+    if (files !== false) {
+      this.fileReceiver = new FileReceiver(files || {}, {
+        sendControl: frame => this.uploads.get(frame.transferId)?.send(frame) ?? false,
+        onFile: file => {
+          const client = this.uploads.get(file.transferId);
+          this.uploads.delete(file.transferId);
+          if (client) this.emit('file', { client, file });
+        },
+        onError: error => {
+          const client = this.uploads.get(error.transferId) || null;
+          this.uploads.delete(error.transferId);
+          this.emit('error', { client, error });
+        }
+      });
+    }
+
+    if (clientTimeout && clientTimeout > 0) {
+      this.livenessTimer = setInterval(() => this.checkLiveness(clientTimeout), Math.min(clientTimeout, 5000));
+    }
+
+    this.wss = new WebSocketServer(wsOptions);
+    this.wss.on('connection', (socket, request) => this.handleConnection(socket, request));
+    this.wss.on('error', error => this.emit('error', { client: null, error }));
+  }
+
+  /**
+   * 频道中的连接
+   * @param channel 频道名称
+   */
+  public room(channel: string): ServerClient[] {
+    return Array.from(this.rooms.get(channel) || []);
+  }
+
+  /**
+   * 按消息 type 注册处理函数
+   * @param type 消息类型
+   * @param handler 处理函数，传入 null 时移除
+   */
+  public handle(type: string, handler: ServerHandler | null): this {
+    if (handler) {
+      this.handlers.set(type, handler);
+    } else {
+      this.handlers.delete(type);
+    }
+    return this;
+  }
+
+  /**
+   * 监听事件
+   * @param event 事件名称
+   * @param callback 回调函数
+   */
+  public on<K extends keyof SupaSocketServerEventMap>(event: K, callback: (data: SupaSocketServerEventMap[K]) => void): this {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(callback);
+    return this;
+  }
+
+  /**
+   * 移除事件监听
+   * @param event 事件名称
+   * @param callback 回调函数
+   */
+  public off<K extends keyof SupaSocketServerEventMap>(event: K, callback: (data: SupaSocketServerEventMap[K]) => void): this {
+    this.listeners.get(event)?.delete(callback);
+    return this;
+  }
+
+  /**
+   * 向所有连接发送消息
+   * @param data 消息
+   * @param except 不发送的连接
+   */
+  public broadcast(data: any, except?: ServerClient): void {
+    this.clients.forEach(client => client !== except && client.send(data));
+  }
+
+  /**
+   * 向频道发送消息，对象消息会带上频道字段，客户端按频道分发给 subscribe 的回调
+   * @param channel 频道名称
+   * @param data 消息
+   * @param except 不发送的连接
+   */
+  public publish(channel: string, data: any, except?: ServerClient): void {
+    const members = this.rooms.get(channel);
+    if (!members) return;
+    const frame = data && typeof data === 'object' && !toUint8Array(data)
+      ? { ...data, [this.channelKey]: channel }
+      : data;
+    members.forEach(client => client !== except && client.send(frame));
+  }
+
+  /**
+   * 将连接加入频道
+   * @param client 连接
+   * @param channel 频道名称
+   */
+  public join(client: ServerClient, channel: string): void {
+    if (!this.rooms.has(channel)) {
+      this.rooms.set(channel, new Set());
+    }
+    this.rooms.get(channel)!.add(client);
+    client.rooms.add(channel);
+  }
+
+  /**
+   * 将连接移出频道
+   * @param client 连接
+   * @param channel 频道名称
+   */
+  public leave(client: ServerClient, channel: string): void {
+    const members = this.rooms.get(channel);
+    if (members) {
+      members.delete(client);
+      if (members.size === 0) this.rooms.delete(channel);
+    }
+    client.rooms.delete(channel);
+  }
+
+  /**
+   * 关闭服务端和所有连接
+   * @param code 发给客户端的关闭代码，默认 1001
+   * @param reason 关闭原因
+   */
+  public close(code = 1001, reason = ''): Promise<void> {
+    if (this.livenessTimer) {
+      clearInterval(this.livenessTimer);
+      this.livenessTimer = null;
+    }
+    this.clients.forEach(client => client.close(code, reason));
+    this.fileReceiver?.clear();
+    this.uploads.clear();
+    return new Promise((resolve, reject) => {
+      this.wss.close(error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  /**
+   * 新连接
+   * @private
+   */
+  private handleConnection(socket: WebSocket, request: IncomingMessage): void {
+    const client = new ServerClient(String(++this.nextId), socket, request, this);
+    this.clients.add(client);
+
+    socket.on('message', (raw: RawData, isBinary: boolean) => {
+      client.lastMessageTime = Date.now();
+      if (isBinary) {
+        this.handleBinary(client, raw);
+        return;
+      }
+
+      let data: any;
+      try {
+        data = JSON.parse(raw.toString());
+      } catch (error) {
+        this.emit('message', { client, data: raw.toString() });
+        return;
+      }
+      this.handleMessage(client, data);
+    });
+
+    socket.on('close', (code: number, reason: Buffer) => {
+      this.clients.delete(client);
+      Array.from(client.rooms).forEach(channel => this.leave(client, channel));
+      this.emit('disconnect', { client, code, reason: reason.toString() });
+    });
+
+    socket.on('error', error => this.emit('error', { client, error }));
+
+    this.emit('connection', client);
+  }
+
+  /**
+   * 处理二进制消息：文件数据块交给文件接收，其他的原样触发 message
+   * @private
+   */
+  private handleBinary(client: ServerClient, raw: RawData): void {
+    const frame = this.fileReceiver ? decodeChunkFrame(raw) : null;
+    if (frame) {
+      // 只接受发起该传输的连接发来的数据块
+      if (this.uploads.get(frame.header.id) === client) this.fileReceiver!.handleChunk(raw);
+      return;
+    }
+    this.emit('message', { client, data: toUint8Array(raw) });
+  }
+
+  /**
+   * 处理 JSON 消息：心跳、确认帧、频道订阅、文件控制帧，其余按 type 分发
+   * @private
+   */
+  private handleMessage(client: ServerClient, data: any): void {
+    if (!data || typeof data !== 'object') {
+      this.emit('message', { client, data });
+      return;
+    }
+
+    // 心跳
+    const isPing = this.options.isPing || ((message: any) => message.type === 'ping');
+    if (isPing(data)) {
+      client.send(this.options.pong ? this.options.pong(data) : { type: 'pong', time: data.time });
+      return;
+    }
+
+    // 可靠投递：先确认再处理
+    if (this.options.ackReliable !== false && data.seq !== undefined) {
+      client.send({ type: 'ack', seq: data.seq });
+    }
+
+    // 频道订阅
+    if (data.type === 'subscribe' || data.type === 'unsubscribe') {
+      const channel = data[this.channelKey];
+      if (typeof channel === 'string') {
+        this.handleSubscription(client, data.type === 'subscribe', channel, data.params);
+        return;
+      }
+    }
+
+    // 文件上传
+    if (this.fileReceiver && isFileControlFrame(data)) {
+      if (!this.claimUpload(client, data)) return;
+      if (this.fileReceiver.handleControl(data)) return;
+    }
+
+    const handler = typeof data.type === 'string' ? this.handlers.get(data.type) : undefined;
+    if (!handler) {
+      this.emit('message', { client, data });
+      return;
+    }
+
+    const id = data[this.idKey];
+    new Promise(resolve => resolve(handler(data, client))).then(
+      result => {
+        if (id !== undefined) {
+          client.send({ type: data.type, [this.idKey]: id, payload: result });
+        }
+      },
+      error => {
+        this.emit('error', { client, error });
+        if (id !== undefined) {
+          client.send({ type: 'error', [this.idKey]: id, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    );
+  }
+
+  /**
+   * 检查文件控制帧是否来自发起该传输的连接。file_start 只能接管原连接已断开的传输（断线续传），
+   * 其他连接的 file_start 回复 conflict，其他控制帧直接丢弃
+   * @private
+   */
+  private claimUpload(client: ServerClient, data: any): boolean {
+    const owner = this.uploads.get(data.transferId);
+    if (owner && owner !== client && (data.type !== 'file_start' || owner.open)) {
+      if (data.type === 'file_start') {
+        client.send({ type: 'file_complete', transferId: data.transferId, ok: false, error: 'conflict' });
+      }
+      return false;
+    }
+    if (data.type === 'file_start') {
+      this.uploads.set(data.transferId, client);
+    }
+    return true;
+  }
+
+  /**
+   * 处理订阅和退订
+   * @private
+   */
+  private handleSubscription(client: ServerClient, subscribe: boolean, channel: string, params?: any): void {
+    if (!subscribe) {
+      this.leave(client, channel);
+      this.emit('leave', { client, channel });
+      return;
+    }
+
+    const canJoin = this.options.canJoin;
+    Promise.resolve(canJoin ? canJoin(client, channel, params) : true).then(
+      allowed => {
+        if (!allowed || !client.open) return;
+        this.join(client, channel);
+        this.emit('join', { client, channel, params });
+      },
+      error => this.emit('error', { client, error })
+    );
+  }
+
+  /**
+   * 断开长时间没有消息的连接
+   * @private
+   */
+  private checkLiveness(timeout: number): void {
+    const now = Date.now();
+    this.clients.forEach(client => {
+      if (now - client.lastMessageTime > timeout) {
+        client.socket.terminate();
+      }
+    });
+  }
+
+  /**
+   * 触发事件
+   * @private
+   */
+  private emit<K extends keyof SupaSocketServerEventMap>(event: K, data: SupaSocketServerEventMap[K]): void {
+    this.listeners.get(event)?.forEach(callback => {
+      try {
+        callback(data);
+      } catch (error) {
+        if (event !== 'error') this.emit('error', { client: null, error });
+      }
+    });
+  }
+}
+
+// 文件上传相关的类型
+export { FileReceiveOptions, FileTransferError, ReceivedFile };
@@ -0,0 +1,256 @@
+/**
+ * 跨标签页共享连接
+ * 通过 BroadcastChannel 在同源标签页之间选举一个主标签页持有真正的 WebSocket，
+ * 其他标签页通过广播代理发送、接收消息和频道订阅。主标签页关闭后自动重新选举。
+ */
+
+import { Clock, TimerHandle, systemClock } from './clock.js';
+import { DeliveryFailureReason } from './reliable.js';
+
+// 共享连接配置
+export interface SharedOptions {
+  name?: string;              // 共享频道名称，默认根据 url 生成
+  leaderHeartbeat?: number;   // 不支持 Web Locks 时主标签页的心跳间隔（毫秒）
+}
+
+// 标签页角色
+export type SharedRole = 'pending' | 'leader' | 'follower';
+
+// 标签页之间传递的消息
+export type SharedMessage =
+  | { kind: 'hello'; from: string }
+  | { kind: 'leader'; from: string }
+  | { kind: 'claim'; from: string }
+  | { kind: 'state'; from: string; state: number }
+  | { kind: 'close'; from: string; code: number; reason: string; wasClean: boolean; willReconnect: boolean }
+  | { kind: 'message'; from: string; data: any }
+  | { kind: 'send'; from: string; data: any; reliable?: boolean; id?: number } // id：从标签页可靠消息的编号，用于确认和去重
+  | { kind: 'delivered'; from: string; to: string; id: number; seq: number; data: any }
+  | { kind: 'deliveryFailed'; from: string; to: string; id: number; seq: number; data: any; reason: DeliveryFailureReason }
+  | { kind: 'join'; from: string; channel: string; params?: any }
+  | { kind: 'leave'; from: string; channel: string }
+  | { kind: 'bye'; from: string };
+
+// 共享连接回调
+export interface SharedHooks {
+  onRoleChange: (role: SharedRole) => void;
+  onMessage: (message: SharedMessage) => void;
+}
+
+// 发送时的消息，from 字段由 post 自动附加
+type WithoutFrom<T> = T extends any ? Omit<T, 'from'> : never;
+export type OutgoingSharedMessage = WithoutFrom<SharedMessage>;
+
+/**
+ * 共享连接类
+ */
+export class SharedConnection {
+  public readonly tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  private channel: BroadcastChannel;
+  private _role: SharedRole = 'pending';
+  private releaseLock: (() => void) | null = null;
+  private lockAbort: AbortController | null = null;
+  private heartbeatTimer: TimerHandle | null = null;
+  private leaderCheckTimer: TimerHandle | null = null;
+  private claimTimer: TimerHandle | null = null;
+  private disposed = false;
+  private usesLocks = false;
+  private leaderHeartbeat: number;
+
+  /**
+   * @param name 共享频道名称
+   * @param options 共享连接配置
+   * @param hooks 共享连接回调
+   * @param clock 选举计时使用的时钟
+   */
+  constructor(private name: string, options: SharedOptions, private hooks: SharedHooks, private clock: Clock = systemClock) {
+    this.leaderHeartbeat = options.leaderHeartbeat ?? 1000;
+    this.channel = new BroadcastChannel(name);
+    this.channel.onmessage = (event: MessageEvent) => this.handleMessage(event.data);
+    this.elect();
+  }
+
+  /**
+   * 是否支持跨标签页共享
+   */
+  public static get isSupported(): boolean {
+    return typeof BroadcastChannel !== 'undefined';
+  }
+
+  /**
+   * 当前角色
+   */
+  public get role(): SharedRole {
+    return this._role;
+  }
+
+  /**
+   * 向其他标签页广播消息
+   * @param message 消息（自动附加 from 字段）
+   */
+  public post(message: OutgoingSharedMessage): void {
+    if (this.disposed) return;
+    this.channel.postMessage({ ...message, from: this.tabId });
+  }
+
+  /**
+   * 退出共享：主标签页释放领导权，从标签页通知主标签页
+   */
+  public dispose(): void {
+    if (this.disposed) return;
+
+    if (this._role === 'follower') {
+      this.post({ kind: 'bye' });
+    }
+    this.disposed = true;
+
+    this.clearTimers();
+    this.lockAbort?.abort();
+    if (this.releaseLock) {
+      this.releaseLock();
+      this.releaseLock = null;
+    }
+    this.channel.close();
+  }
+
+  /**
+   * 选举主标签页：优先使用 Web Locks，否则使用广播心跳
+   * @private
+   */
+  private elect(): void {
+    const locks = typeof navigator !== 'undefined' ? (navigator as any).locks : undefined;
+
+    if (locks && typeof locks.request === 'function') {
+      this.usesLocks = true;
+      // 持有锁的标签页为主标签页，关闭后锁自动释放，等待中的标签页接任
+      const hold = () => new Promise<void>(resolve => {
+        if (this.disposed) return resolve();
+        this.releaseLock = resolve;
+        this.setRole('leader');
+      });
+
+      this.lockAbort = typeof AbortController !== 'undefined' ? new AbortController() : null;
+      locks.request(this.name, { ifAvailable: true }, (lock: any) => {
+        if (lock) return hold();
+        this.setRole('follower');
+        return locks.request(this.name, { signal: this.lockAbort?.signal }, () => hold());
+      }).catch(() => {
+        // dispose 时取消等待锁会抛出 AbortError，忽略
+      });
+      return;
+    }
+
+    // 广播心跳选举：询问是否已有主标签页，一段时间内没有回应则竞选
+    this.post({ kind: 'hello' });
+    this.scheduleLeaderCheck(this.leaderHeartbeat / 2);
+  }
+
+  /**
+   * 处理其他标签页的消息
+   * @private
+   */
+  private handleMessage(message: SharedMessage): void {
+    if (this.disposed || !message || message.from === this.tabId) return;
+
+    if (!this.usesLocks) {
+      if (message.kind === 'leader') {
+        this.handleLeaderHeartbeat(message.from);
+        return;
+      }
+
+      if (message.kind === 'claim') {
+        if (this._role === 'leader') {
+          // 已经是主标签页，告知竞选者
+          this.post({ kind: 'leader' });
+        } else if (this.claimTimer && message.from < this.tabId) {
+          // 多个标签页同时竞选时，tabId 较小的获胜
+          this.clock.clearTimeout(this.claimTimer);
+          this.claimTimer = null;
+          this.scheduleLeaderCheck(this.leaderHeartbeat * 3);
+        }
+        return;
+      }
+
+      if (message.kind === 'hello' && this._role === 'leader') {
+        this.post({ kind: 'leader' });
+      }
+    }
+
+    this.hooks.onMessage(message);
+  }
+
+  /**
+   * 收到主标签页心跳
+   * @param from 主标签页的 tabId
+   * @private
+   */
+  private handleLeaderHeartbeat(from: string): void {
+    if (this._role === 'leader') {
+      // 同时出现两个主标签页时，tabId 较小的保留领导权
+      if (from > this.tabId) return;
+      if (this.heartbeatTimer) {
+        this.clock.clearInterval(this.heartbeatTimer);
+        this.heartbeatTimer = null;
+      }
+    }
+
+    if (this.claimTimer) {
+      this.clock.clearTimeout(this.claimTimer);
+      this.claimTimer = null;
+    }
+    this.setRole('follower');
+    this.scheduleLeaderCheck(this.leaderHeartbeat * 3);
+  }
+
+  /**
+   * 一段时间内没有收到主标签页心跳则发起竞选
+   * @private
+   */
+  private scheduleLeaderCheck(delay: number): void {
+    if (this.leaderCheckTimer) {
+      this.clock.clearTimeout(this.leaderCheckTimer);
+    }
+
+    this.leaderCheckTimer = this.clock.setTimeout(() => {
+      this.leaderCheckTimer = null;
+      this.post({ kind: 'claim' });
+      this.claimTimer = this.clock.setTimeout(() => {
+        this.claimTimer = null;
+        this.becomeHeartbeatLeader();
+      }, this.leaderHeartbeat / 2);
+    }, delay);
+  }
+
+  /**
+   * 成为主标签页并定时广播心跳
+   * @private
+   */
+  private becomeHeartbeatLeader(): void {
+    this.post({ kind: 'leader' });
+    this.heartbeatTimer = this.clock.setInterval(() => this.post({ kind: 'leader' }), this.leaderHeartbeat);
+    this.setRole('leader');
+  }
+
+  /**
+   * 更新角色并通知
+   * @private
+   */
+  private setRole(role: SharedRole): void {
+    if (this.disposed || this._role === role) return;
+    this._role = role;
+    this.hooks.onRoleChange(role);
+  }
+
+  /**
+   * 清除所有计时器
+   * @private
+   */
+  private clearTimers(): void {
+    if (this.heartbeatTimer) this.clock.clearInterval(this.heartbeatTimer);
+    if (this.leaderCheckTimer) this.clock.clearTimeout(this.leaderCheckTimer);
+    if (this.claimTimer) this.clock.clearTimeout(this.claimTimer);
+    this.heartbeatTimer = null;
+    this.leaderCheckTimer = null;
+    this.claimTimer = null;
+  }
+}
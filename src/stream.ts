@@ -0,0 +1,231 @@
+/**
+ * 消息流
+ * 将事件包装为可以 for await 遍历的异步迭代器，以及兼容 RxJS 的最小 Observable
+ */
+
+import { abortReason } from './lifecycle.js';
+import { SupaSocketError } from './errors.js';
+
+// 缓冲区满时的处理方式
+export type StreamOverflowPolicy = 'drop-oldest' | 'drop-newest' | 'error';
+
+// 消息流配置
+export interface StreamOptions {
+  bufferSize?: number;              // 异步迭代器的缓冲区大小
+  overflow?: StreamOverflowPolicy;  // 缓冲区满时的处理方式
+  signal?: AbortSignal;             // 取消时迭代器抛出取消原因
+}
+
+// 观察者
+export interface Observer<T> {
+  next?: (value: T) => void;
+  error?: (error: any) => void;
+  complete?: () => void;
+}
+
+// Observable 订阅句柄
+export interface StreamSubscription {
+  readonly closed: boolean;
+  unsubscribe(): void;
+}
+
+// 数据源的输出
+export interface StreamSink<T> {
+  next: (value: T) => void;
+  error: (error: any) => void;
+  complete: () => void;
+}
+
+// 数据源：注册监听并返回移除监听的函数
+export type StreamSource<T> = (sink: StreamSink<T>) => () => void;
+
+/**
+ * 缓冲区溢出错误
+ */
+export class StreamOverflowError extends SupaSocketError {
+  declare public readonly code: 'STREAM_OVERFLOW';
+
+  constructor(public bufferSize: number) {
+    super('STREAM_OVERFLOW', 'streamError', `消息流缓冲区已满: ${bufferSize}`);
+    this.name = 'StreamOverflowError';
+  }
+}
+
+// Observable 互操作使用的 Symbol，不支持时使用 '@@observable'
+const observableSymbol: symbol | string =
+  (typeof Symbol === 'function' && (Symbol as any).observable) || '@@observable';
+
+/**
+ * 消息流类
+ * 每次遍历或订阅都会单独注册监听，互不影响
+ */
+export class MessageStream<T> implements AsyncIterable<T> {
+  private options: Required<Omit<StreamOptions, 'signal'>> & Pick<StreamOptions, 'signal'>;
+
+  constructor(private source: StreamSource<T>, options: StreamOptions = {}) {
+    this.options = {
+      bufferSize: 100,
+      overflow: 'drop-oldest',
+      ...options
+    };
+
+    // 兼容 RxJS 等库的 from()
+    (this as any)[observableSymbol] = () => this;
+    if (observableSymbol !== '@@observable') {
+      (this as any)['@@observable'] = () => this;
+    }
+  }
+
+  /**
+   * 异步迭代器，跳出循环时自动移除监听
+   */
+  public [Symbol.asyncIterator](): AsyncIterator<T> {
+    const { bufferSize, overflow, signal } = this.options;
+    const buffer: T[] = [];
+    let waiting: { resolve: (result: IteratorResult<T>) => void; reject: (error: any) => void } | null = null;
+    let done = false;
+    let failure: { error: any } | null = null;
+    let cleanup: (() => void) | null = null;
+
+    const stop = () => {
+      done = true;
+      signal?.removeEventListener('abort', onAbort);
+      if (cleanup) {
+        cleanup();
+        cleanup = null;
+      }
+    };
+
+    // 结束遍历：缓冲区中的消息仍会先被取出
+    const finish = (error?: { error: any }) => {
+      if (done) return;
+      stop();
+      if (!waiting) {
+        failure = error || null;
+        return;
+      }
+      const pending = waiting;
+      waiting = null;
+      if (error) {
+        pending.reject(error.error);
+      } else {
+        pending.resolve({ value: undefined, done: true });
+      }
+    };
+
+    const onAbort = () => finish({ error: abortReason(signal!) });
+
+    const sink: StreamSink<T> = {
+      next: value => {
+        if (done) return;
+
+        if (waiting) {
+          const pending = waiting;
+          waiting = null;
+          pending.resolve({ value, done: false });
+          return;
+        }
+
+        if (buffer.length >= bufferSize) {
+          if (overflow === 'drop-newest') return;
+          if (overflow === 'error') {
+            finish({ error: new StreamOverflowError(bufferSize) });
+            return;
+          }
+          buffer.shift();
+        }
+        buffer.push(value);
+      },
+      error: error => finish({ error }),
+      complete: () => finish()
+    };
+
+    if (signal?.aborted) {
+      done = true;
+      failure = { error: abortReason(signal) };
+    } else {
+      cleanup = this.source(sink);
+      // 数据源可能同步结束
+      if (done && cleanup) {
+        cleanup();
+        cleanup = null;
+      }
+      if (!done) {
+        signal?.addEventListener('abort', onAbort, { once: true });
+      }
+    }
+
+    return {
+      next: () => {
+        if (buffer.length > 0) {
+          return Promise.resolve({ value: buffer.shift()!, done: false });
+        }
+        if (failure) {
+          const { error } = failure;
+          failure = null;
+          return Promise.reject(error);
+        }
+        if (done) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise<IteratorResult<T>>((resolve, reject) => {
+          waiting = { resolve, reject };
+        });
+      },
+      return: () => {
+        buffer.length = 0;
+        failure = null;
+        finish();
+        return Promise.resolve({ value: undefined, done: true });
+      }
+    };
+  }
+
+  /**
+   * 以 Observable 的方式订阅（不经过缓冲区）
+   * @param observer 观察者或 next 回调
+   * @returns 订阅句柄
+   */
+  public subscribe(observer: Observer<T> | ((value: T) => void)): StreamSubscription {
+    const target: Observer<T> = typeof observer === 'function' ? { next: observer } : observer || {};
+    let closed = false;
+    let cleanup: (() => void) | null = null;
+
+    const unsubscribe = () => {
+      if (closed && !cleanup) return;
+      closed = true;
+      if (cleanup) {
+        cleanup();
+        cleanup = null;
+      }
+    };
+
+    cleanup = this.source({
+      next: value => {
+        if (!closed) target.next?.(value);
+      },
+      error: error => {
+        if (closed) return;
+        unsubscribe();
+        target.error?.(error);
+      },
+      complete: () => {
+        if (closed) return;
+        unsubscribe();
+        target.complete?.();
+      }
+    });
+
+    // 数据源可能同步结束
+    if (closed) {
+      unsubscribe();
+    }
+
+    return {
+      get closed() {
+        return closed;
+      },
+      unsubscribe
+    };
+  }
+}
@@ -0,0 +1,612 @@
+/**
+ * 测试工具（supa-simple-socket/testing）
+ * ManualClock 手动推进时间，MockServer 在内存中模拟服务端：编排回复、强制关闭代码、丢弃心跳响应、注入延迟；
+ * 通过 clock 和 WebSocketImpl 选项传给 SupaSocket，不需要真实的服务端和定时器
+ *
+ *   const clock = new ManualClock();
+ *   const server = new MockServer({ clock, latency: 20 });
+ *   const socket = new SupaSocket({ url: 'ws://mock', WebSocketImpl: server.WebSocket, clock });
+ *   await clock.advance(20);
+ */
+
+import { Clock, TimerHandle, systemClock } from './clock.js';
+import { READY_STATE, WebSocketLike, WebSocketConstructor, isBlob, toUint8Array } from './runtime.js';
+
+// ManualClock 中等待执行的定时器
+interface ManualTimer {
+  id: number;
+  time: number;             // 到期时间
+  interval: number | null;  // 重复间隔，setTimeout 为 null
+  callback: () => void;
+}
+
+/**
+ * 等待已排队的微任务（Promise 回调）执行完
+ */
+export function flushMicrotasks(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+/**
+ * 手动推进的时钟
+ */
+export class ManualClock implements Clock {
+  private time: number;
+  private timers: Map<number, ManualTimer> = new Map();
+  private nextId = 1;
+
+  /**
+   * @param start 起始时间（毫秒），默认 0
+   */
+  constructor(start = 0) {
+    this.time = start;
+  }
+
+  /**
+   * 等待执行的定时器数量
+   */
+  public get pendingTimers(): number {
+    return this.timers.size;
+  }
+
+  public now(): number {
+    return this.time;
+  }
+
+  public setTimeout(callback: () => void, delay: number): TimerHandle {
+    return this.addTimer(callback, delay, null);
+  }
+
+  public clearTimeout(handle: TimerHandle): void {
+    this.timers.delete(handle as unknown as number);
+  }
+
+  public setInterval(callback: () => void, interval: number): TimerHandle {
+    return this.addTimer(callback, interval, Math.max(1, interval));
+  }
+
+  public clearInterval(handle: TimerHandle): void {
+    this.timers.delete(handle as unknown as number);
+  }
+
+  /**
+   * 同步推进时间，按到期顺序执行定时器（不等待 Promise 回调）
+   * @param ms 推进的毫秒数
+   */
+  public tick(ms: number): void {
+    const target = this.time + Math.max(0, ms);
+    let timer: ManualTimer | null;
+    while ((timer = this.nextDue(target))) {
+      this.run(timer);
+    }
+    this.time = target;
+  }
+
+  /**
+   * 推进时间，每个定时器执行后等待 Promise 回调完成，适合有异步流程（认证、地址解析）的场景
+   * @param ms 推进的毫秒数
+   */
+  public async advance(ms: number): Promise<void> {
+    const target = this.time + Math.max(0, ms);
+    await flushMicrotasks();
+    let timer: ManualTimer | null;
+    while ((timer = this.nextDue(target))) {
+      this.run(timer);
+      await flushMicrotasks();
+    }
+    this.time = target;
+  }
+
+  /**
+   * 推进到下一个定时器到期并执行
+   * @returns 是否有定时器被执行
+   */
+  public async next(): Promise<boolean> {
+    const timer = this.nextDue(Infinity);
+    if (!timer) return false;
+    this.run(timer);
+    await flushMicrotasks();
+    return true;
+  }
+
+  /**
+   * 清除所有定时器
+   */
+  public reset(): void {
+    this.timers.clear();
+  }
+
+  /**
+   * 添加定时器
+   * @private
+   */
+  private addTimer(callback: () => void, delay: number, interval: number | null): TimerHandle {
+    const id = this.nextId++;
+    this.timers.set(id, { id, time: this.time + Math.max(0, delay || 0), interval, callback });
+    return id as unknown as TimerHandle;
+  }
+
+  /**
+   * 不晚于 target 到期的最早的定时器，同时到期时按添加顺序
+   * @private
+   */
+  private nextDue(target: number): ManualTimer | null {
+    let due: ManualTimer | null = null;
+    this.timers.forEach(timer => {
+      if (timer.time <= target && (!due || timer.time < due.time || (timer.time === due.time && timer.id < due.id))) {
+        due = timer;
+      }
+    });
+    return due;
+  }
+
+  /**
+   * 执行定时器，重复定时器重新计时
+   * @private
+   */
+  private run(timer: ManualTimer): void {
+    this.time = Math.max(this.time, timer.time);
+    if (timer.interval !== null) {
+      timer.time += timer.interval;
+    } else {
+      this.timers.delete(timer.id);
+    }
+    timer.callback();
+  }
+}
+
+// MockServer 配置
+export interface MockServerOptions {
+  clock?: Clock;                               // 延迟计时使用的时钟，默认使用真实定时器
+  latency?: number;                            // 单向延迟（毫秒），默认 0（在下一个微任务送达）
+  autoPong?: boolean;                          // 是否自动回复心跳，默认 true
+  isPing?: (data: any) => boolean;             // 判断心跳包，默认 type 为 ping
+  pong?: (ping: any) => any;                   // 心跳响应，默认 { type: 'pong', time }
+  protocol?: string;                           // 协商的子协议
+}
+
+// 编排的回复：返回值发送给客户端，返回数组时逐条发送，undefined 不回复
+export type MockHandler = (data: any, connection: MockConnection) => any;
+
+// MockServer 事件
+interface MockServerEventMap {
+  connection: MockConnection;
+  message: { connection: MockConnection; data: any };
+  close: { connection: MockConnection; code: number; reason: string };
+}
+
+/**
+ * 服务端的一个连接
+ */
+export class MockConnection {
+  public readonly messages: any[] = [];        // 收到的消息，JSON 文本已解析，二进制为 Uint8Array
+  private waiters: Array<{ predicate: (data: any) => boolean; resolve: (data: any) => void }> = [];
+  private state: number = READY_STATE.OPEN;
+
+  /**
+   * @param server 所属的服务端
+   * @param socket 对应的客户端
+   * @param url 连接地址
+   * @param protocols 客户端请求的子协议
+   * @param options 客户端传入的连接选项（请求头等）
+   */
+  constructor(
+    public readonly server: MockServer,
+    private socket: MockWebSocket,
+    public readonly url: string,
+    public readonly protocols: string[],
+    public readonly options: any
+  ) {}
+
+  /**
+   * 连接是否打开
+   */
+  public get open(): boolean {
+    return this.state === READY_STATE.OPEN;
+  }
+
+  /**
+   * 发送消息，对象会被序列化为 JSON
+   * @param data 消息
+   */
+  public send(data: any): void {
+    if (!this.open) return;
+    const payload = typeof data === 'string' || toUint8Array(data) || isBlob(data) ? data : JSON.stringify(data);
+    this.server.deliver(() => this.socket.receive(payload));
+  }
+
+  /**
+   * 以指定的关闭代码关闭连接
+   * @param code 关闭代码
+   * @param reason 关闭原因
+   */
+  public close(code = 1000, reason = ''): void {
+    if (!this.open) return;
+    this.state = READY_STATE.CLOSED;
+    this.server.handleClose(this, code, reason);
+    this.server.deliver(() => this.socket.closed(code, reason, true));
+  }
+
+  /**
+   * 异常断开（没有关闭帧），客户端收到 error 和 1006
+   */
+  public terminate(): void {
+    if (!this.open) return;
+    this.state = READY_STATE.CLOSED;
+    this.server.handleClose(this, 1006, '');
+    this.server.deliver(() => this.socket.closed(1006, '', false, true));
+  }
+
+  /**
+   * 等待下一条满足条件的消息（包括已经收到的）
+   * @param predicate 条件，可以是消息 type 或函数
+   */
+  public waitForMessage(predicate?: string | ((data: any) => boolean)): Promise<any> {
+    const match = typeof predicate === 'string'
+      ? (data: any) => !!data && data.type === predicate
+      : predicate || (() => true);
+    const found = this.messages.find(match);
+    if (found !== undefined) return Promise.resolve(found);
+    return new Promise(resolve => this.waiters.push({ predicate: match, resolve }));
+  }
+
+  /**
+   * 收到客户端的消息
+   * @param raw 原始数据
+   * @private
+   */
+  public receive(raw: any): void {
+    if (!this.open) return;
+    const data = this.server.decode(raw);
+    this.messages.push(data);
+    this.waiters = this.waiters.filter(waiter => {
+      if (!waiter.predicate(data)) return true;
+      waiter.resolve(data);
+      return false;
+    });
+    this.server.handleMessage(this, data);
+  }
+
+  /**
+   * 客户端发起关闭
+   * @param code 关闭代码
+   * @param reason 关闭原因
+   * @private
+   */
+  public closedByClient(code: number, reason: string): void {
+    if (!this.open) return;
+    this.state = READY_STATE.CLOSED;
+    this.server.handleClose(this, code, reason);
+  }
+}
+
+/**
+ * 内存中的 WebSocket，由 MockServer.WebSocket 创建
+ */
+export class MockWebSocket implements WebSocketLike {
+  public static readonly CONNECTING = READY_STATE.CONNECTING;
+  public static readonly OPEN = READY_STATE.OPEN;
+  public static readonly CLOSING = READY_STATE.CLOSING;
+  public static readonly CLOSED = READY_STATE.CLOSED;
+
+  public readyState: number = READY_STATE.CONNECTING;
+  public bufferedAmount = 0;
+  public binaryType = 'blob';
+  public protocol = '';
+  public onopen: ((event: any) => void) | null = null;
+  public onmessage: ((event: any) => void) | null = null;
+  public onclose: ((event: any) => void) | null = null;
+  public onerror: ((event: any) => void) | null = null;
+  public connection: MockConnection | null = null;
+
+  /**
+   * @param server 服务端
+   * @param url 连接地址
+   * @param protocols 子协议
+   * @param options 连接选项
+   */
+  constructor(private server: MockServer, public readonly url: string, protocols?: string | string[], options?: any) {
+    const list = protocols === undefined ? [] : Array.isArray(protocols) ? protocols : [protocols];
+    server.accept(this, list, options);
+  }
+
+  public send(data: any): void {
+    if (this.readyState === READY_STATE.CONNECTING) {
+      throw new Error('连接尚未建立，无法发送');
+    }
+    if (this.readyState !== READY_STATE.OPEN || !this.connection) return;
+
+    // 复制二进制数据，避免调用方随后修改
+    const bytes = toUint8Array(data);
+    const payload = bytes ? bytes.slice() : data;
+    const connection = this.connection;
+    this.server.deliver(() => connection.receive(payload));
+  }
+
+  public close(code = 1000, reason = ''): void {
+    if (this.readyState === READY_STATE.CLOSING || this.readyState === READY_STATE.CLOSED) return;
+
+    // 连接建立前关闭：没有关闭握手
+    if (this.readyState === READY_STATE.CONNECTING) {
+      this.readyState = READY_STATE.CLOSING;
+      this.connection?.closedByClient(1006, '');
+      this.server.deliver(() => this.closed(1006, '', false));
+      return;
+    }
+
+    this.readyState = READY_STATE.CLOSING;
+    const connection = this.connection;
+    this.server.deliver(() => {
+      connection?.closedByClient(code, reason);
+      this.server.deliver(() => this.closed(code, reason, true));
+    });
+  }
+
+  /**
+   * 连接建立
+   * @private
+   */
+  public opened(connection: MockConnection, protocol: string): void {
+    if (this.readyState !== READY_STATE.CONNECTING) return;
+    this.connection = connection;
+    this.protocol = protocol;
+    this.readyState = READY_STATE.OPEN;
+    this.onopen?.({ type: 'open', target: this });
+  }
+
+  /**
+   * 收到服务端的消息
+   * @private
+   */
+  public receive(data: any): void {
+    if (this.readyState !== READY_STATE.OPEN) return;
+    const bytes = typeof data === 'string' ? null : toUint8Array(data);
+    let payload = data;
+    if (bytes) {
+      const buffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+      payload = this.binaryType === 'blob' && typeof Blob !== 'undefined' ? new Blob([buffer]) : buffer;
+    }
+    this.onmessage?.({ type: 'message', data: payload, target: this });
+  }
+
+  /**
+   * 连接关闭
+   * @private
+   */
+  public closed(code: number, reason: string, wasClean: boolean, error = false): void {
+    if (this.readyState === READY_STATE.CLOSED) return;
+    this.readyState = READY_STATE.CLOSED;
+    if (error) {
+      this.onerror?.({ type: 'error', target: this });
+    }
+    this.onclose?.({ type: 'close', code, reason, wasClean, target: this });
+  }
+}
+
+/**
+ * 内存中的 WebSocket 服务端
+ */
+export class MockServer {
+  public readonly connections: MockConnection[] = [];  // 所有连接，包括已关闭的
+  public latency: number;                              // 单向延迟（毫秒），可以随时修改
+  private clock: Clock;
+  private handlers: Map<string, MockHandler> = new Map();
+  private listeners: Map<keyof MockServerEventMap, Set<(data: any) => void>> = new Map();
+  private connectionWaiters: Array<(connection: MockConnection) => void> = [];
+  private pongsToDrop = 0;
+  private refusals = 0;
+  private refuseCode = 1006;
+  private WebSocketClass: WebSocketConstructor;
+
+  constructor(private options: MockServerOptions = {}) {
+    this.clock = options.clock || systemClock;
+    this.latency = options.latency ?? 0;
+
+    // eslint-disable-next-line @typescript-eslint/no-this-alias
+    const server = this;
+    this.WebSocketClass = class extends MockWebSocket {
+      constructor(url: string, protocols?: string | string[], options?: any) {
+        super(server, url, protocols, options);
+      }
+    };
+  }
+
+  /**
+   * 连接到该服务端的 WebSocket 构造函数，作为 WebSocketImpl 传给 SupaSocket
+   */
+  public get WebSocket(): WebSocketConstructor {
+    return this.WebSocketClass;
+  }
+
+  /**
+   * 打开的连接
+   */
+  public get clients(): MockConnection[] {
+    return this.connections.filter(connection => connection.open);
+  }
+
+  /**
+   * 最近建立的连接
+   */
+  public get lastConnection(): MockConnection | null {
+    return this.connections[this.connections.length - 1] || null;
+  }
+
+  /**
+   * 监听事件
+   * @param event 事件名称
+   * @param callback 回调函数
+   */
+  public on<K extends keyof MockServerEventMap>(event: K, callback: (data: MockServerEventMap[K]) => void): this {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(callback);
+    return this;
+  }
+
+  /**
+   * 移除事件监听
+   * @param event 事件名称
+   * @param callback 回调函数
+   */
+  public off<K extends keyof MockServerEventMap>(event: K, callback: (data: MockServerEventMap[K]) => void): this {
+    this.listeners.get(event)?.delete(callback);
+    return this;
+  }
+
+  /**
+   * 按消息 type 编排回复，例如 server.handle('echo', data => ({ type: 'echo', id: data.id, payload: data.payload }))
+   * @param type 消息类型
+   * @param handler 处理函数，传入 null 时移除
+   */
+  public handle(type: string, handler: MockHandler | null): this {
+    if (handler) {
+      this.handlers.set(type, handler);
+    } else {
+      this.handlers.delete(type);
+    }
+    return this;
+  }
+
+  /**
+   * 丢弃接下来的心跳响应
+   * @param count 丢弃的次数，默认一直丢弃，传入 0 恢复
+   */
+  public dropPongs(count = Infinity): this {
+    this.pongsToDrop = count;
+    return this;
+  }
+
+  /**
+   * 拒绝接下来的连接，客户端收到 error 和关闭代码
+   * @param count 拒绝的次数，默认一直拒绝，传入 0 恢复
+   * @param code 关闭代码，默认 1006
+   */
+  public refuse(count = Infinity, code = 1006): this {
+    this.refusals = count;
+    this.refuseCode = code;
+    return this;
+  }
+
+  /**
+   * 向所有打开的连接发送消息
+   * @param data 消息
+   */
+  public broadcast(data: any): void {
+    this.clients.forEach(connection => connection.send(data));
+  }
+
+  /**
+   * 以指定的关闭代码关闭所有连接
+   * @param code 关闭代码
+   * @param reason 关闭原因
+   */
+  public closeAll(code = 1001, reason = ''): void {
+    this.clients.forEach(connection => connection.close(code, reason));
+  }
+
+  /**
+   * 等待下一个连接（已有打开的连接时立即返回最近的一个）
+   * @param next 为 true 时只等待新的连接
+   */
+  public waitForConnection(next = false): Promise<MockConnection> {
+    const last = this.lastConnection;
+    if (!next && last && last.open) return Promise.resolve(last);
+    return new Promise(resolve => this.connectionWaiters.push(resolve));
+  }
+
+  /**
+   * 按延迟送达
+   * @param callback 送达时执行
+   * @private
+   */
+  public deliver(callback: () => void): void {
+    if (this.latency > 0) {
+      this.clock.setTimeout(callback, this.latency);
+    } else {
+      Promise.resolve().then(callback);
+    }
+  }
+
+  /**
+   * 客户端发起连接
+   * @private
+   */
+  public accept(socket: MockWebSocket, protocols: string[], options: any): void {
+    if (this.refusals > 0) {
+      this.refusals--;
+      const code = this.refuseCode;
+      this.deliver(() => socket.closed(code, '', false, true));
+      return;
+    }
+
+    const protocol = this.options.protocol && protocols.includes(this.options.protocol) ? this.options.protocol : '';
+    const connection = new MockConnection(this, socket, socket.url, protocols, options);
+    this.connections.push(connection);
+    this.deliver(() => socket.opened(connection, protocol));
+
+    const waiters = this.connectionWaiters;
+    this.connectionWaiters = [];
+    this.emit('connection', connection);
+    waiters.forEach(resolve => resolve(connection));
+  }
+
+  /**
+   * 解析收到的消息：JSON 文本解析为对象，二进制转为 Uint8Array
+   * @private
+   */
+  public decode(raw: any): any {
+    if (typeof raw === 'string') {
+      try {
+        return JSON.parse(raw);
+      } catch (e) {
+        return raw;
+      }
+    }
+    return toUint8Array(raw) || raw;
+  }
+
+  /**
+   * 处理收到的消息：回复心跳、执行编排的回复
+   * @private
+   */
+  public handleMessage(connection: MockConnection, data: any): void {
+    const isPing = this.options.isPing || ((message: any) => !!message && message.type === 'ping');
+    if (this.options.autoPong !== false && isPing(data)) {
+      if (this.pongsToDrop > 0) {
+        this.pongsToDrop--;
+      } else {
+        connection.send(this.options.pong ? this.options.pong(data) : { type: 'pong', time: data.time });
+      }
+    }
+
+    const handler = data && typeof data === 'object' && typeof data.type === 'string' ? this.handlers.get(data.type) : undefined;
+    if (handler) {
+      const reply = handler(data, connection);
+      if (Array.isArray(reply)) {
+        reply.forEach(item => connection.send(item));
+      } else if (reply !== undefined) {
+        connection.send(reply);
+      }
+    }
+
+    this.emit('message', { connection, data });
+  }
+
+  /**
+   * 连接关闭
+   * @private
+   */
+  public handleClose(connection: MockConnection, code: number, reason: string): void {
+    this.emit('close', { connection, code, reason });
+  }
+
+  /**
+   * 触发事件
+   * @private
+   */
+  private emit<K extends keyof MockServerEventMap>(event: K, data: MockServerEventMap[K]): void {
+    this.listeners.get(event)?.forEach(callback => callback(data));
+  }
+}
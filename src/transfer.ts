@@ -0,0 +1,1054 @@
+/**
+ * 文件传输
+ * 文件按块发送，每块带有传输ID、序号、偏移量和校验值；接收方确认已连续收到的偏移量，
+ * 断线重连后从确认的位置继续发送，文件结束时再校验整个文件
+ *
+ * 控制帧（使用编解码器发送）：
+ *   file_start    { transferId, fileName, fileSize, fileType, chunkSize, totalChunks, checksum, metadata }
+ *   file_ack      { transferId, offset }           接收方已连续收到的字节数
+ *   file_nack     { transferId, offset, reason }   接收方要求从 offset 重发
+ *   file_end      { transferId, totalChunks, hash }
+ *   file_complete { transferId, ok, error }
+ *   file_cancel   { transferId, reason }
+ * 数据块（二进制帧）：4 字节标记 "SSFC" + 2 字节头部长度 + JSON 头部 { id, index, offset, hash } + 块数据
+ */
+
+import { SupaSocketError } from './errors.js';
+import { abortReason } from './lifecycle.js';
+import { Clock, TimerHandle, systemClock } from './clock.js';
+import { BinarySource, isBlob, isStream, readBlob, readStream, toUint8Array, concatBytes } from './runtime.js';
+
+// 校验算法，none 表示不校验
+export type ChecksumAlgorithm = 'sha-256' | 'crc32' | 'none';
+
+// 传输状态
+export type FileTransferState = 'pending' | 'sending' | 'paused' | 'waiting' | 'completed' | 'failed' | 'cancelled';
+
+// 传输失败原因
+export type FileTransferFailure =
+  | 'timeout'     // 多次等待确认超时
+  | 'checksum'    // 多次校验失败
+  | 'rejected'    // 接收方拒绝（文件过大、整体校验失败等）
+  | 'cancelled'   // 已取消
+  | 'closed'      // 连接已关闭且不再重连
+  | 'sendFailed'  // 写入连接失败
+  | 'readFailed'; // 读取文件失败
+
+// 发送选项
+export interface FileTransferOptions {
+  transferId?: string;            // 传输ID，传入之前的ID可以在页面刷新后从接收方确认的位置继续
+  fileName?: string;              // 文件名，默认使用 File 的 name
+  fileType?: string;              // 文件类型，默认使用 Blob 的 type
+  chunkSize?: number;             // 块大小（字节），默认 64KB
+  window?: number;                // 最多未确认的块数，默认 8
+  checksum?: ChecksumAlgorithm;   // 校验算法，默认 sha-256，不支持 crypto.subtle 时使用 crc32
+  ackTimeout?: number;            // 等待确认的超时时间（毫秒），超时后从已确认的位置重发
+  maxRetries?: number;            // 连续超时或校验失败的最大重发次数
+  metadata?: Record<string, any>; // 附加到 file_start 帧的数据
+  signal?: AbortSignal;           // 取消传输
+  onProgress?: (progress: number, transfer: FileTransfer) => void; // 进度（0-100，按接收方确认的字节数计算）
+}
+
+// 接收选项
+export interface FileReceiveOptions {
+  maxFileSize?: number;  // 允许接收的最大文件大小（字节），超过时拒绝
+  idleTimeout?: number;  // 未完成的传输多久没有数据后丢弃（毫秒），默认 5 分钟
+  onProgress?: (progress: FileReceiveProgress) => void;
+}
+
+// 接收进度
+export interface FileReceiveProgress {
+  transferId: string;
+  fileName: string;
+  received: number;
+  total: number;
+  progress: number;
+}
+
+// 接收完成的文件
+export interface ReceivedFile {
+  transferId: string;
+  name: string;
+  size: number;
+  type: string;
+  metadata?: Record<string, any>;
+  data: Uint8Array;
+}
+
+// 数据块头部
+export interface ChunkHeader {
+  id: string;     // 传输ID
+  index: number;  // 块序号
+  offset: number; // 块在文件中的偏移量
+  hash: string;   // 块的校验值（十六进制）
+}
+
+/**
+ * 文件传输错误
+ */
+export class FileTransferError extends SupaSocketError {
+  declare public readonly code: 'TRANSFER_FAILED';
+
+  constructor(
+    message: string,
+    public readonly transferId: string,
+    public readonly reason: FileTransferFailure,
+    cause?: unknown
+  ) {
+    super('TRANSFER_FAILED', 'fileTransferError', message, { cause });
+    this.name = 'FileTransferError';
+  }
+}
+
+// 数据块标记 "SSFC"
+const CHUNK_MAGIC = [0x53, 0x53, 0x46, 0x43];
+const CHUNK_PREFIX = CHUNK_MAGIC.length + 2;
+
+const FILE_CONTROL_TYPES = ['file_start', 'file_ack', 'file_nack', 'file_end', 'file_complete', 'file_cancel'];
+
+/**
+ * 编码数据块
+ * @param header 块头部
+ * @param payload 块数据
+ */
+export function encodeChunkFrame(header: ChunkHeader, payload: Uint8Array): Uint8Array {
+  const head = new TextEncoder().encode(JSON.stringify(header));
+  const frame = new Uint8Array(CHUNK_PREFIX + head.length + payload.length);
+  frame.set(CHUNK_MAGIC, 0);
+  new DataView(frame.buffer).setUint16(CHUNK_MAGIC.length, head.length);
+  frame.set(head, CHUNK_PREFIX);
+  frame.set(payload, CHUNK_PREFIX + head.length);
+  return frame;
+}
+
+/**
+ * 解码数据块，不是数据块时返回 null
+ * @param data 收到的二进制数据
+ */
+export function decodeChunkFrame(data: any): { header: ChunkHeader; payload: Uint8Array } | null {
+  const bytes = toUint8Array(data);
+  if (!bytes || bytes.length < CHUNK_PREFIX || !CHUNK_MAGIC.every((value, i) => bytes[i] === value)) {
+    return null;
+  }
+
+  const length = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint16(CHUNK_MAGIC.length);
+  if (bytes.length < CHUNK_PREFIX + length) return null;
+
+  try {
+    const header = JSON.parse(new TextDecoder().decode(bytes.subarray(CHUNK_PREFIX, CHUNK_PREFIX + length)));
+    if (!header || typeof header.id !== 'string' || typeof header.offset !== 'number') return null;
+    return { header, payload: bytes.subarray(CHUNK_PREFIX + length) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 判断消息是否为文件传输的控制帧
+ * @param data 已解析的消息
+ */
+export function isFileControlFrame(data: any): boolean {
+  return !!data && typeof data === 'object' &&
+    FILE_CONTROL_TYPES.includes(data.type) && typeof data.transferId === 'string';
+}
+
+/**
+ * 当前环境支持的默认校验算法
+ */
+export function defaultChecksum(): ChecksumAlgorithm {
+  return typeof crypto !== 'undefined' && crypto.subtle ? 'sha-256' : 'crc32';
+}
+
+/**
+ * 计算校验值
+ * @param algorithm 校验算法
+ * @param data 数据
+ */
+export async function computeChecksum(algorithm: ChecksumAlgorithm, data: Uint8Array): Promise<Uint8Array> {
+  switch (algorithm) {
+    case 'sha-256':
+      return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+    case 'crc32':
+      return crc32(data);
+    default:
+      return new Uint8Array(0);
+  }
+}
+
+/**
+ * 整个文件的校验值：按顺序拼接各块的校验值后再计算一次，不需要把整个文件读入内存
+ * @param algorithm 校验算法
+ * @param chunkHashes 各块的校验值
+ */
+export async function computeFileChecksum(algorithm: ChecksumAlgorithm, chunkHashes: Uint8Array[]): Promise<string> {
+  if (algorithm === 'none') return '';
+  return toHex(await computeChecksum(algorithm, concatBytes(chunkHashes)));
+}
+
+/**
+ * 转为十六进制字符串
+ * @param bytes 字节数组
+ */
+export function toHex(bytes: Uint8Array): string {
+  let hex = '';
+  for (let i = 0; i < bytes.length; i++) {
+    hex += bytes[i].toString(16).padStart(2, '0');
+  }
+  return hex;
+}
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC32，用于不支持 crypto.subtle 的环境（如非 HTTPS 页面）
+ * @private
+ */
+function crc32(data: Uint8Array): Uint8Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  }
+
+  const result = new Uint8Array(4);
+  new DataView(result.buffer).setUint32(0, (crc ^ 0xFFFFFFFF) >>> 0);
+  return result;
+}
+
+// 要发送的文件数据，按范围读取
+interface FileSource {
+  size: number;
+  read(start: number, end: number): Promise<Uint8Array>;
+}
+
+/**
+ * 创建文件数据源：Blob 按范围读取，二进制数据直接截取，流需要先完整读取才能得到大小并支持续传
+ * @private
+ */
+function createFileSource(input: BinarySource): FileSource | Promise<FileSource> {
+  if (isBlob(input)) {
+    return { size: input.size, read: (start, end) => readBlob(input.slice(start, end)) };
+  }
+  const bytes = toUint8Array(input);
+  if (bytes) return bytesSource(bytes);
+  if (isStream(input)) return readStream(input).then(bytesSource);
+  return Promise.reject(new TypeError('不支持的文件数据类型'));
+}
+
+/**
+ * 内存中的文件数据源
+ * @private
+ */
+function bytesSource(bytes: Uint8Array): FileSource {
+  return { size: bytes.length, read: (start, end) => Promise.resolve(bytes.subarray(start, end)) };
+}
+
+/**
+ * 生成传输ID
+ * @private
+ */
+function createTransferId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+// 发送方回调
+export interface FileTransferHooks {
+  sendControl: (frame: Record<string, any>) => boolean;
+  sendChunk: (frame: Uint8Array) => boolean;
+  canSend: () => boolean;
+  canWrite: () => boolean;  // 发送缓冲区是否允许继续写入数据块，返回 false 后可写时调用 handleDrain
+  onProgress: (transfer: FileTransfer) => void;
+  onFinish: (transfer: FileTransfer, error?: FileTransferError) => void;
+}
+
+/**
+ * 一次文件发送
+ * 可以直接 await，解析为是否发送成功；也可以暂停、继续和取消
+ */
+export class FileTransfer implements PromiseLike<boolean> {
+  public readonly id: string;
+  public readonly fileName: string;
+  public readonly fileType: string;
+  private _state: FileTransferState = 'pending';
+  private options: Required<Omit<FileTransferOptions, 'transferId' | 'fileName' | 'fileType' | 'metadata' | 'signal' | 'onProgress'>>;
+  private source: FileSource | null = null;
+  private loading: Promise<FileSource> | null = null;  // 正在读取的流
+  private acked = 0;                 // 接收方已确认的字节数
+  private next = 0;                  // 下一个要发送的偏移量
+  private started = false;           // 当前连接上是否已收到 file_start 的确认
+  private paused = false;
+  private pumping = false;
+  private endSent = false;
+  private retries = 0;
+  private timer: TimerHandle | null = null;
+  private chunkHashes: Uint8Array[] = [];
+  private promise: Promise<boolean>;
+  private settle!: (success: boolean) => void;
+  private removeAbortListener: (() => void) | null = null;
+
+  /**
+   * @param file 要发送的文件
+   * @param transferOptions 发送选项
+   * @param hooks 发送回调
+   * @param clock 确认超时计时使用的时钟
+   */
+  constructor(
+    file: BinarySource,
+    private transferOptions: FileTransferOptions,
+    private hooks: FileTransferHooks,
+    private clock: Clock = systemClock
+  ) {
+    this.id = transferOptions.transferId || createTransferId();
+    this.fileName = transferOptions.fileName ?? (file as File).name ?? '';
+    this.fileType = transferOptions.fileType ?? (isBlob(file) ? file.type : '');
+    const source = createFileSource(file);
+    if (source instanceof Promise) {
+      this.loading = source;
+    } else {
+      this.source = source;
+    }
+    this.options = {
+      chunkSize: 64 * 1024,
+      window: 8,
+      checksum: defaultChecksum(),
+      ackTimeout: 30000,
+      maxRetries: 3,
+      ...stripUndefined(transferOptions)
+    } as FileTransfer['options'];
+    this.promise = new Promise<boolean>(resolve => {
+      this.settle = resolve;
+    });
+
+    const signal = transferOptions.signal;
+    if (signal) {
+      const onAbort = () => this.cancel(abortReason(signal));
+      signal.addEventListener('abort', onAbort);
+      this.removeAbortListener = () => signal.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * 传输状态
+   */
+  public get state(): FileTransferState {
+    return this._state;
+  }
+
+  /**
+   * 文件大小，流在读取完成前为 0
+   */
+  public get fileSize(): number {
+    return this.source ? this.source.size : 0;
+  }
+
+  /**
+   * 接收方已确认的字节数
+   */
+  public get bytesAcknowledged(): number {
+    return this.acked;
+  }
+
+  /**
+   * 进度（0-100）
+   */
+  public get progress(): number {
+    if (this._state === 'completed') return 100;
+    return this.fileSize > 0 ? (this.acked / this.fileSize) * 100 : 0;
+  }
+
+  /**
+   * 是否已结束（完成、失败或取消）
+   */
+  public get finished(): boolean {
+    return this._state === 'completed' || this._state === 'failed' || this._state === 'cancelled';
+  }
+
+  public then<TResult1 = boolean, TResult2 = never>(
+    onfulfilled?: ((value: boolean) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    return this.promise.then(onfulfilled, onrejected);
+  }
+
+  public catch<TResult = never>(
+    onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | null
+  ): Promise<boolean | TResult> {
+    return this.promise.catch(onrejected);
+  }
+
+  public finally(onfinally?: (() => void) | null): Promise<boolean> {
+    return this.promise.finally(onfinally);
+  }
+
+  /**
+   * 开始传输，未连接时等待 handleOpen
+   */
+  public start(): void {
+    if (this._state !== 'pending') return;
+    if (this.transferOptions.signal?.aborted) {
+      this.cancel(abortReason(this.transferOptions.signal));
+      return;
+    }
+
+    this._state = 'waiting';
+    if (!this.source) {
+      this.load();
+    } else if (this.hooks.canSend()) {
+      this.sendStart();
+    }
+  }
+
+  /**
+   * 暂停发送，已发送的块仍会被确认
+   */
+  public pause(): void {
+    if (this.finished || this.paused) return;
+    this.paused = true;
+    this._state = 'paused';
+    this.clearTimer();
+  }
+
+  /**
+   * 继续发送
+   */
+  public resume(): void {
+    if (this.finished || !this.paused) return;
+    this.paused = false;
+
+    if (!this.source || !this.hooks.canSend()) {
+      this._state = 'waiting';
+    } else if (this.started) {
+      this._state = 'sending';
+      this.armTimer();
+      this.pump();
+    } else {
+      this.sendStart();
+    }
+  }
+
+  /**
+   * 取消传输并通知接收方丢弃已收到的数据
+   * @param reason 取消原因
+   */
+  public cancel(reason?: any): void {
+    if (this.finished) return;
+    if (this.hooks.canSend()) {
+      this.hooks.sendControl({ type: 'file_cancel', transferId: this.id, reason: reason?.message ?? reason });
+    }
+    this.finish('cancelled', new FileTransferError('文件传输已取消', this.id, 'cancelled', reason));
+  }
+
+  /**
+   * 处理接收方的控制帧
+   * @param data 已解析的控制帧
+   */
+  public handleControl(data: any): void {
+    if (this.finished) return;
+
+    switch (data.type) {
+      case 'file_ack':
+        this.handleAck(Number(data.offset) || 0);
+        break;
+      case 'file_nack':
+        this.handleNack(Number(data.offset) || 0);
+        break;
+      case 'file_complete':
+        if (data.ok) {
+          this.finish('completed');
+        } else {
+          this.finish('failed', new FileTransferError(`接收方拒绝文件: ${data.error ?? 'unknown'}`, this.id, 'rejected', data.error));
+        }
+        break;
+      case 'file_cancel':
+        this.finish('cancelled', new FileTransferError('接收方取消了文件传输', this.id, 'cancelled', data.reason));
+        break;
+    }
+  }
+
+  /**
+   * 连接建立（或重连）后重新握手，接收方会回复已确认的偏移量
+   */
+  public handleOpen(): void {
+    if (this.finished || this._state === 'pending') return;
+    if (this.paused || !this.source) return;
+    this.sendStart();
+  }
+
+  /**
+   * 连接断开，等待重连
+   */
+  public handleClose(): void {
+    if (this.finished || this._state === 'pending') return;
+    this.started = false;
+    this.clearTimer();
+    if (!this.paused) {
+      this._state = 'waiting';
+    }
+  }
+
+  /**
+   * 发送缓冲区排空后继续发送数据块
+   */
+  public handleDrain(): void {
+    if (this.canPump()) this.pump();
+  }
+
+  /**
+   * 连接关闭且不再重连
+   */
+  public fail(reason: FileTransferFailure = 'closed'): void {
+    if (this.finished) return;
+    this.finish('failed', new FileTransferError('连接已关闭，文件传输中止', this.id, reason));
+  }
+
+  /**
+   * 读取流，完成后开始传输
+   * @private
+   */
+  private async load(): Promise<void> {
+    try {
+      this.source = await this.loading!;
+    } catch (error) {
+      this.finish('failed', new FileTransferError('读取文件失败', this.id, 'readFailed', error));
+      return;
+    }
+    if (!this.finished && !this.paused && this.hooks.canSend()) {
+      this.sendStart();
+    }
+  }
+
+  /**
+   * 发送 file_start，等待接收方确认
+   * @private
+   */
+  private sendStart(): void {
+    this.started = false;
+    this.endSent = false;
+    this._state = 'sending';
+
+    const sent = this.hooks.sendControl({
+      type: 'file_start',
+      transferId: this.id,
+      fileName: this.fileName,
+      fileSize: this.fileSize,
+      fileType: this.fileType,
+      chunkSize: this.options.chunkSize,
+      totalChunks: this.totalChunks,
+      checksum: this.options.checksum,
+      metadata: this.transferOptions.metadata,
+      timestamp: this.clock.now()
+    });
+    if (!sent) {
+      this.finish('failed', new FileTransferError('发送文件信息失败', this.id, 'sendFailed'));
+      return;
+    }
+    this.armTimer();
+  }
+
+  /**
+   * 总块数
+   * @private
+   */
+  private get totalChunks(): number {
+    return Math.ceil(this.fileSize / this.options.chunkSize);
+  }
+
+  /**
+   * 处理确认：第一次确认为握手结果，之后为已连续收到的字节数
+   * @private
+   */
+  private handleAck(offset: number): void {
+    const aligned = Math.min(this.fileSize, Math.floor(offset / this.options.chunkSize) * this.options.chunkSize);
+
+    if (!this.started) {
+      this.started = true;
+      this.acked = offset >= this.fileSize ? this.fileSize : aligned;
+      this.next = this.acked;
+    } else if (offset > this.acked) {
+      this.acked = Math.min(offset, this.fileSize);
+      if (this.next < this.acked) this.next = this.acked;
+    } else {
+      return;
+    }
+
+    this.retries = 0;
+    this.transferOptions.onProgress?.(this.progress, this);
+    this.hooks.onProgress(this);
+
+    if (this.paused) return;
+    this.armTimer();
+    if (this.acked >= this.fileSize) {
+      this.sendEnd();
+    } else {
+      this.pump();
+    }
+  }
+
+  /**
+   * 接收方校验失败或缺少数据，从指定位置重发
+   * @private
+   */
+  private handleNack(offset: number): void {
+    if (++this.retries > this.options.maxRetries) {
+      this.finish('failed', new FileTransferError('文件块多次校验失败', this.id, 'checksum'));
+      return;
+    }
+
+    this.acked = Math.min(this.acked, offset);
+    this.next = Math.floor(offset / this.options.chunkSize) * this.options.chunkSize;
+    this.endSent = false;
+    if (!this.paused) {
+      this.armTimer();
+      this.pump();
+    }
+  }
+
+  /**
+   * 在窗口允许的范围内读取并发送数据块
+   * @private
+   */
+  private async pump(): Promise<void> {
+    if (this.pumping) return;
+    this.pumping = true;
+
+    try {
+      const windowSize = this.options.window * this.options.chunkSize;
+      while (this.canPump() && this.next < this.fileSize && this.next - this.acked < windowSize) {
+        const offset = this.next;
+        const index = Math.floor(offset / this.options.chunkSize);
+        const payload = await this.readChunk(index);
+        const hash = await computeChecksum(this.options.checksum, payload);
+        this.chunkHashes[index] = hash;
+
+        // 读取期间可能暂停、断线或被要求重发
+        if (!this.canPump() || this.next !== offset) continue;
+
+        const frame = encodeChunkFrame({ id: this.id, index, offset, hash: toHex(hash) }, payload);
+        if (!this.hooks.sendChunk(frame)) {
+          this.finish('failed', new FileTransferError('发送文件块失败', this.id, 'sendFailed'));
+          return;
+        }
+        this.next = offset + payload.length;
+      }
+    } catch (error) {
+      this.finish('failed', new FileTransferError('读取文件失败', this.id, 'readFailed', error));
+    } finally {
+      this.pumping = false;
+    }
+  }
+
+  /**
+   * 是否可以继续发送数据块
+   * @private
+   */
+  private canPump(): boolean {
+    return this._state === 'sending' && this.started && !this.paused && this.hooks.canSend() && this.hooks.canWrite();
+  }
+
+  /**
+   * 读取一个块
+   * @private
+   */
+  private async readChunk(index: number): Promise<Uint8Array> {
+    const start = index * this.options.chunkSize;
+    const end = Math.min(start + this.options.chunkSize, this.fileSize);
+    return this.source!.read(start, end);
+  }
+
+  /**
+   * 所有数据都已确认，发送 file_end 和整个文件的校验值
+   * @private
+   */
+  private async sendEnd(): Promise<void> {
+    if (this.endSent) return;
+    this.endSent = true;
+
+    try {
+      // 续传时跳过的块需要补算校验值
+      for (let index = 0; index < this.totalChunks; index++) {
+        if (!this.chunkHashes[index]) {
+          this.chunkHashes[index] = await computeChecksum(this.options.checksum, await this.readChunk(index));
+        }
+      }
+      const hash = await computeFileChecksum(this.options.checksum, this.chunkHashes.slice(0, this.totalChunks));
+      if (this.finished || !this.endSent || !this.hooks.canSend()) return;
+
+      this.hooks.sendControl({
+        type: 'file_end',
+        transferId: this.id,
+        totalChunks: this.totalChunks,
+        hash,
+        timestamp: this.clock.now()
+      });
+    } catch (error) {
+      this.finish('failed', new FileTransferError('读取文件失败', this.id, 'readFailed', error));
+    }
+  }
+
+  /**
+   * 启动（或重置）确认计时器，超时后从已确认的位置重发
+   * @private
+   */
+  private armTimer(): void {
+    this.clearTimer();
+    if (this.options.ackTimeout <= 0) return;
+
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = null;
+      if (this.finished || this.paused || !this.hooks.canSend()) return;
+
+      if (++this.retries > this.options.maxRetries) {
+        this.finish('failed', new FileTransferError('等待接收方确认超时', this.id, 'timeout'));
+        return;
+      }
+
+      if (!this.started) {
+        this.sendStart();
+      } else {
+        this.next = this.acked;
+        this.endSent = false;
+        this.armTimer();
+        if (this.acked >= this.fileSize) {
+          this.sendEnd();
+        } else {
+          this.pump();
+        }
+      }
+    }, this.options.ackTimeout);
+  }
+
+  /**
+   * 清除确认计时器
+   * @private
+   */
+  private clearTimer(): void {
+    if (this.timer) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * 结束传输
+   * @private
+   */
+  private finish(state: 'completed' | 'failed' | 'cancelled', error?: FileTransferError): void {
+    if (this.finished) return;
+    this._state = state;
+    this.clearTimer();
+    this.removeAbortListener?.();
+    this.removeAbortListener = null;
+    if (state === 'completed') {
+      // 确认全部数据时已经报告过 100%
+      const reported = this.fileSize > 0 && this.acked >= this.fileSize;
+      this.acked = this.fileSize;
+      if (!reported) this.transferOptions.onProgress?.(100, this);
+    }
+    this.hooks.onFinish(this, error);
+    this.settle(state === 'completed');
+  }
+}
+
+/**
+ * 去掉值为 undefined 的选项，避免覆盖默认值
+ * @private
+ */
+function stripUndefined<T extends Record<string, any>>(options: T): Partial<T> {
+  const result: Partial<T> = {};
+  (Object.keys(options) as (keyof T)[]).forEach(key => {
+    if (options[key] !== undefined) result[key] = options[key];
+  });
+  return result;
+}
+
+// 正在接收的文件
+interface IncomingTransfer {
+  id: string;
+  fileName: string;
+  fileSize: number;
+  fileType: string;
+  chunkSize: number;
+  totalChunks: number;
+  checksum: ChecksumAlgorithm;
+  metadata?: Record<string, any>;
+  chunks: Uint8Array[];
+  hashes: Uint8Array[];
+  received: number;            // 已连续收到的字节数
+  chain: Promise<void>;        // 按顺序处理同一传输的帧
+  timer: TimerHandle | null;
+}
+
+// 接收方回调
+export interface FileReceiverHooks {
+  sendControl: (frame: Record<string, any>) => boolean;
+  onFile: (file: ReceivedFile) => void;
+  onError: (error: FileTransferError) => void;
+}
+
+/**
+ * 文件接收类
+ * 按传输ID重组数据块，逐块校验并确认，断线重连后回复已收到的偏移量
+ */
+export class FileReceiver {
+  private transfers: Map<string, IncomingTransfer> = new Map();
+  private options: FileReceiveOptions & { idleTimeout: number };
+
+  /**
+   * @param options 接收选项
+   * @param hooks 接收回调
+   * @param clock 空闲计时使用的时钟
+   */
+  constructor(options: FileReceiveOptions, private hooks: FileReceiverHooks, private clock: Clock = systemClock) {
+    this.options = { idleTimeout: 5 * 60 * 1000, ...stripUndefined(options) };
+  }
+
+  /**
+   * 正在接收的文件数
+   */
+  public get size(): number {
+    return this.transfers.size;
+  }
+
+  /**
+   * 处理发送方的控制帧
+   * @param data 已解析的消息
+   * @returns 是否为本接收方处理的帧
+   */
+  public handleControl(data: any): boolean {
+    switch (data?.type) {
+      case 'file_start':
+        this.handleStart(data);
+        return true;
+      case 'file_end': {
+        const transfer = this.transfers.get(data.transferId);
+        if (!transfer) return false;
+        this.enqueue(transfer, () => this.handleEnd(transfer, data));
+        return true;
+      }
+      case 'file_cancel':
+        if (!this.transfers.has(data.transferId)) return false;
+        this.discard(data.transferId);
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * 处理数据块
+   * @param data 收到的二进制数据
+   * @returns 是否为数据块
+   */
+  public handleChunk(data: any): boolean {
+    const frame = decodeChunkFrame(data);
+    if (!frame) return false;
+
+    const transfer = this.transfers.get(frame.header.id);
+    if (transfer) {
+      // 复制一份，避免引用整个接收缓冲区
+      const payload = frame.payload.slice();
+      this.enqueue(transfer, () => this.handleChunkFrame(transfer, frame.header, payload));
+    }
+    return true;
+  }
+
+  /**
+   * 丢弃所有未完成的传输
+   */
+  public clear(): void {
+    Array.from(this.transfers.keys()).forEach(id => this.discard(id));
+  }
+
+  /**
+   * 开始接收，已有同一ID的传输时回复已收到的偏移量
+   * @private
+   */
+  private handleStart(data: any): void {
+    const existing = this.transfers.get(data.transferId);
+    if (existing && existing.fileSize === data.fileSize && existing.chunkSize === data.chunkSize) {
+      this.enqueue(existing, () => this.ack(existing));
+      return;
+    }
+    if (existing) this.discard(existing.id);
+
+    const fileSize = Number(data.fileSize) || 0;
+    if (this.options.maxFileSize !== undefined && fileSize > this.options.maxFileSize) {
+      this.hooks.sendControl({ type: 'file_complete', transferId: data.transferId, ok: false, error: 'tooLarge' });
+      this.hooks.onError(new FileTransferError(`文件过大: ${data.fileName}`, data.transferId, 'rejected', { fileSize }));
+      return;
+    }
+
+    const transfer: IncomingTransfer = {
+      id: data.transferId,
+      fileName: data.fileName ?? '',
+      fileSize,
+      fileType: data.fileType ?? '',
+      chunkSize: Number(data.chunkSize) || 64 * 1024,
+      totalChunks: Number(data.totalChunks) || 0,
+      checksum: data.checksum ?? 'none',
+      metadata: data.metadata,
+      chunks: [],
+      hashes: [],
+      received: 0,
+      chain: Promise.resolve(),
+      timer: null
+    };
+    this.transfers.set(transfer.id, transfer);
+    this.enqueue(transfer, () => this.ack(transfer));
+  }
+
+  /**
+   * 校验并保存数据块，只接受紧接着已收到数据的块
+   * @private
+   */
+  private async handleChunkFrame(transfer: IncomingTransfer, header: ChunkHeader, payload: Uint8Array): Promise<void> {
+    // 重发的旧块：确认已收到的位置
+    if (header.offset < transfer.received) {
+      this.ack(transfer);
+      return;
+    }
+    // 中间缺少数据：要求从已收到的位置重发
+    if (header.offset > transfer.received) {
+      this.nack(transfer, 'gap');
+      return;
+    }
+    // 块序号与偏移量不符，或数据超出声明的文件大小：发送方有误，重发也无济于事
+    const index = Math.floor(header.offset / transfer.chunkSize);
+    if (header.index !== index || index >= transfer.totalChunks || header.offset + payload.length > transfer.fileSize) {
+      this.reject(transfer, 'invalidChunk', `文件块无效: ${transfer.fileName}`, { index: header.index, offset: header.offset, length: payload.length });
+      return;
+    }
+
+    const hash = await computeChecksum(transfer.checksum, payload);
+    if (transfer.checksum !== 'none' && toHex(hash) !== header.hash) {
+      this.nack(transfer, 'checksum');
+      return;
+    }
+
+    transfer.chunks[header.index] = payload;
+    transfer.hashes[header.index] = hash;
+    transfer.received += payload.length;
+    this.ack(transfer);
+    this.options.onProgress?.({
+      transferId: transfer.id,
+      fileName: transfer.fileName,
+      received: transfer.received,
+      total: transfer.fileSize,
+      progress: transfer.fileSize > 0 ? (transfer.received / transfer.fileSize) * 100 : 100
+    });
+  }
+
+  /**
+   * 校验整个文件并交给处理函数
+   * @private
+   */
+  private async handleEnd(transfer: IncomingTransfer, data: any): Promise<void> {
+    if (transfer.received < transfer.fileSize) {
+      this.nack(transfer, 'incomplete');
+      return;
+    }
+
+    const hash = await computeFileChecksum(transfer.checksum, transfer.hashes.slice(0, transfer.totalChunks));
+    this.discard(transfer.id);
+
+    if (transfer.checksum !== 'none' && hash !== data.hash) {
+      this.hooks.sendControl({ type: 'file_complete', transferId: transfer.id, ok: false, error: 'checksum' });
+      this.hooks.onError(new FileTransferError(`文件校验失败: ${transfer.fileName}`, transfer.id, 'checksum'));
+      return;
+    }
+
+    const bytes = new Uint8Array(transfer.fileSize);
+    let offset = 0;
+    transfer.chunks.forEach(chunk => {
+      bytes.set(chunk, offset);
+      offset += chunk.length;
+    });
+
+    this.hooks.sendControl({ type: 'file_complete', transferId: transfer.id, ok: true });
+    this.hooks.onFile({
+      transferId: transfer.id,
+      name: transfer.fileName,
+      size: transfer.fileSize,
+      type: transfer.fileType,
+      metadata: transfer.metadata,
+      data: bytes
+    });
+  }
+
+  /**
+   * 按顺序处理同一传输的帧（校验是异步的），并重置空闲计时器
+   * @private
+   */
+  private enqueue(transfer: IncomingTransfer, task: () => void | Promise<void>): void {
+    this.touch(transfer);
+    transfer.chain = transfer.chain
+      .then(() => {
+        if (this.transfers.get(transfer.id) === transfer) return task();
+      })
+      .catch(error => {
+        this.discard(transfer.id);
+        this.hooks.onError(new FileTransferError(`文件接收失败: ${transfer.fileName}`, transfer.id, 'readFailed', error));
+      });
+  }
+
+  /**
+   * 确认已连续收到的字节数
+   * @private
+   */
+  private ack(transfer: IncomingTransfer): void {
+    this.hooks.sendControl({ type: 'file_ack', transferId: transfer.id, offset: transfer.received });
+  }
+
+  /**
+   * 放弃传输并通知发送方
+   * @private
+   */
+  private reject(transfer: IncomingTransfer, error: string, message: string, details?: any): void {
+    this.discard(transfer.id);
+    this.hooks.sendControl({ type: 'file_complete', transferId: transfer.id, ok: false, error });
+    this.hooks.onError(new FileTransferError(message, transfer.id, 'rejected', details));
+  }
+
+  /**
+   * 要求从已收到的位置重发
+   * @private
+   */
+  private nack(transfer: IncomingTransfer, reason: string): void {
+    this.hooks.sendControl({ type: 'file_nack', transferId: transfer.id, offset: transfer.received, reason });
+  }
+
+  /**
+   * 重置空闲计时器
+   * @private
+   */
+  private touch(transfer: IncomingTransfer): void {
+    if (transfer.timer) this.clock.clearTimeout(transfer.timer);
+    if (this.options.idleTimeout <= 0) return;
+    transfer.timer = this.clock.setTimeout(() => {
+      if (this.transfers.get(transfer.id) !== transfer) return;
+      this.discard(transfer.id);
+      this.hooks.onError(new FileTransferError(`文件接收超时: ${transfer.fileName}`, transfer.id, 'timeout'));
+    }, this.options.idleTimeout);
+  }
+
+  /**
+   * 丢弃传输
+   * @private
+   */
+  private discard(id: string): void {
+    const transfer = this.transfers.get(id);
+    if (!transfer) return;
+    if (transfer.timer) this.clock.clearTimeout(transfer.timer);
+    this.transfers.delete(id);
+  }
+}
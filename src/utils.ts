@@ -0,0 +1,15 @@
+/**
+ * 通用工具函数
+ */
+
+/**
+ * 判断消息是否与指定的消息模板匹配（模板中的所有键值都相等）
+ * @param data 已解析的消息
+ * @param shape 消息模板，如 { type: 'pong' }
+ */
+export function matchesShape(data: any, shape: Record<string, any>): boolean {
+  if (!data || typeof data !== 'object') return false;
+  return Object.keys(shape).every(key =>
+    data[key] !== undefined && data[key] === shape[key]
+  );
+}
@@ -0,0 +1,158 @@
+/**
+ * 消息校验
+ * 按 SocketMessage.type 校验收发消息的 payload，支持校验函数和 Standard Schema（zod、valibot 等）
+ */
+
+import { SupaSocketError } from './errors.js';
+
+// 校验问题
+export interface ValidationIssue {
+  message: string;
+  path?: ReadonlyArray<PropertyKey | { key: PropertyKey }>;
+}
+
+// Standard Schema 校验结果
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<ValidationIssue> };
+
+// Standard Schema 接口（https://standardschema.dev）
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+  };
+}
+
+// 校验器：类型守卫函数、返回布尔值的函数或 Standard Schema
+export type Validator<T = any> =
+  | ((value: unknown) => value is T)
+  | ((value: unknown) => boolean)
+  | StandardSchemaV1<unknown, T>;
+
+// 按消息 type 配置的校验器
+export type ValidatorMap<TMap> = { [K in keyof TMap]?: Validator<TMap[K]> };
+
+// 校验配置
+export interface ValidationOptions<TIn = any, TOut = any> {
+  inbound?: ValidatorMap<TIn>;   // 收到的消息校验器
+  outbound?: ValidatorMap<TOut>; // 发送的消息校验器
+  rejectUnknown?: boolean;       // 没有配置校验器的消息类型是否视为无效
+}
+
+// 校验方向
+export type ValidationDirection = 'inbound' | 'outbound';
+
+// 单条消息的校验结果
+export type ValidationResult =
+  | { valid: true; data: any }
+  | { valid: false; issues: ValidationIssue[] };
+
+/**
+ * 校验错误
+ */
+export class ValidationError extends SupaSocketError {
+  declare public readonly code: 'VALIDATION_FAILED';
+
+  constructor(
+    public direction: ValidationDirection,
+    public messageType: string | undefined,
+    public issues: ValidationIssue[],
+    data: any
+  ) {
+    super(
+      'VALIDATION_FAILED',
+      'validationError',
+      `消息校验失败(${direction}): ${messageType ?? '未知类型'} - ${issues.map(i => i.message).join('; ')}`,
+      { data }
+    );
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * 判断是否为 Standard Schema
+ * @private
+ */
+function isStandardSchema(validator: Validator): validator is StandardSchemaV1 {
+  return !!validator && typeof validator === 'object' && '~standard' in validator;
+}
+
+/**
+ * 使用校验器校验一个值
+ * @param validator 校验器
+ * @param value 要校验的值
+ * @returns 校验结果，Standard Schema 校验通过时返回其输出值
+ */
+export function runValidator(validator: Validator, value: unknown): { valid: true; value: any } | { valid: false; issues: ValidationIssue[] } {
+  try {
+    if (isStandardSchema(validator)) {
+      const result = validator['~standard'].validate(value);
+      if (result && typeof (result as any).then === 'function') {
+        return { valid: false, issues: [{ message: '不支持异步校验' }] };
+      }
+      const sync = result as StandardSchemaResult<any>;
+      return sync.issues
+        ? { valid: false, issues: [...sync.issues] }
+        : { valid: true, value: sync.value };
+    }
+
+    return (validator as (value: unknown) => boolean)(value)
+      ? { valid: true, value }
+      : { valid: false, issues: [{ message: '校验未通过' }] };
+  } catch (error: any) {
+    return { valid: false, issues: [{ message: error?.message || String(error) }] };
+  }
+}
+
+/**
+ * 消息校验类
+ */
+export class MessageValidator {
+  constructor(private options: ValidationOptions) {}
+
+  /**
+   * 校验收到的消息
+   * @param data 已解析的消息
+   */
+  public checkInbound(data: any): ValidationResult {
+    return this.check(this.options.inbound, data);
+  }
+
+  /**
+   * 校验要发送的消息
+   * @param data 要发送的消息
+   */
+  public checkOutbound(data: any): ValidationResult {
+    return this.check(this.options.outbound, data);
+  }
+
+  /**
+   * 按 type 找到校验器并校验 payload
+   * @private
+   */
+  private check(validators: ValidatorMap<any> | undefined, data: any): ValidationResult {
+    // 只校验带有 type 字段的对象消息
+    if (!validators || !data || typeof data !== 'object' || typeof data.type !== 'string') {
+      return { valid: true, data };
+    }
+
+    const validator = validators[data.type] as Validator | undefined;
+    if (!validator) {
+      return this.options.rejectUnknown
+        ? { valid: false, issues: [{ message: `未知的消息类型: ${data.type}` }] }
+        : { valid: true, data };
+    }
+
+    const result = runValidator(validator, data.payload);
+    if (!result.valid) {
+      return result;
+    }
+
+    return result.value === data.payload
+      ? { valid: true, data }
+      : { valid: true, data: { ...data, payload: result.value } };
+  }
+}
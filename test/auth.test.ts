@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { ConnectionState } from '../src/index.js';
+import { useSetup } from './helpers.js';
+
+describe('认证与令牌刷新', () => {
+  const env = useSetup();
+
+  it('每次连接前获取令牌，默认以 token 参数附加到地址', async () => {
+    const calls: boolean[] = [];
+    env.create({
+      reconnectInterval: 100,
+      auth: { getToken: refresh => { calls.push(refresh); return `t${calls.length}`; } }
+    });
+    await env.clock.advance(0);
+    expect(env.server.lastConnection!.url).toBe('ws://mock?token=t1');
+
+    env.server.lastConnection!.close(1006);
+    await env.clock.advance(1000);
+    expect(env.server.lastConnection!.url).toBe('ws://mock?token=t2');
+    expect(calls).toEqual([false, false]);
+  });
+
+  it('tokenParam 修改参数名或不附加令牌，getUrl 可以替换地址', async () => {
+    env.create({ auth: { getToken: () => 'a b', tokenParam: 'access_token', getUrl: () => 'ws://mock/v2?x=1' } });
+    await env.clock.advance(0);
+    expect(env.server.lastConnection!.url).toBe('ws://mock/v2?x=1&access_token=a%20b');
+
+    env.create({ auth: { getToken: () => 'secret', tokenParam: false } });
+    await env.clock.advance(0);
+    expect(env.server.lastConnection!.url).toBe('ws://mock');
+  });
+
+  it('配置 authMessage 时收到认证成功帧才触发 open，之后发送队列中的消息', async () => {
+    env.server.handle('auth', data => data.payload.token === 'good' ? { type: 'auth_ok' } : null);
+    const socket = env.create({
+      auth: {
+        getToken: () => 'good',
+        authMessage: token => ({ type: 'auth', payload: { token } })
+      }
+    });
+    const events: string[] = [];
+    socket.on('open', () => events.push('open'));
+    socket.send({ type: 'chat' });
+    await env.clock.advance(0);
+
+    const connection = env.server.lastConnection!;
+    expect(connection.url).toBe('ws://mock');
+    expect(connection.messages).toEqual([{ type: 'auth', payload: { token: 'good' } }, { type: 'chat' }]);
+    expect(events).toEqual(['open']);
+    expect(socket.connectionState).toBe(ConnectionState.OPEN);
+  });
+
+  it('收到认证失败帧时刷新令牌并立即重试一次，不消耗重连次数', async () => {
+    env.server.handle('auth', data => ({ type: data.token === 'fresh' ? 'auth_ok' : 'auth_error' }));
+    const calls: boolean[] = [];
+    const socket = env.create({
+      reconnectInterval: 5000,
+      auth: {
+        getToken: refresh => { calls.push(refresh); return refresh ? 'fresh' : 'stale'; },
+        authMessage: token => ({ type: 'auth', token })
+      }
+    });
+    const errors: any[] = [];
+    socket.on('error', error => errors.push(error.code));
+    await env.clock.advance(0);
+
+    expect(calls).toEqual([false, true]);
+    expect(env.server.connections).toHaveLength(2);
+    expect(errors).toEqual(['HANDSHAKE_FAILED']);
+    expect(socket.connectionState).toBe(ConnectionState.OPEN);
+    expect(socket.getStats().reconnectAttempts).toBe(0);
+  });
+
+  it('以 failureCodes 中的代码关闭时刷新后重试，再次失败时交给关闭代码策略', async () => {
+    const calls: boolean[] = [];
+    const socket = env.create({
+      reconnectInterval: 100,
+      auth: { getToken: refresh => { calls.push(refresh); return 'token'; }, failureCodes: [4003, 4001] }
+    });
+    await env.clock.advance(0);
+
+    env.server.lastConnection!.close(4003, 'expired');
+    await env.clock.advance(0);
+    expect(calls).toEqual([false, true]);
+    expect(env.server.connections).toHaveLength(2);
+
+    // 刷新后仍然失败，默认策略下 4001 不再重连
+    env.server.lastConnection!.close(4001, 'invalid');
+    await env.clock.advance(60000);
+    expect(calls).toEqual([false, true]);
+    expect(env.server.connections).toHaveLength(2);
+    expect(socket.connectionState).toBe(ConnectionState.CLOSED);
+  });
+
+  it('没有认证帧时收到服务端消息后视为认证通过，之后的认证失败可以再次刷新重试', async () => {
+    const calls: boolean[] = [];
+    env.create({ auth: { getToken: refresh => { calls.push(refresh); return 'token'; } } });
+    await env.clock.advance(0);
+    env.server.lastConnection!.close(4001);
+    await env.clock.advance(0);
+
+    env.server.broadcast({ type: 'welcome' });
+    await env.clock.advance(0);
+    env.server.lastConnection!.close(4001);
+    await env.clock.advance(0);
+    expect(calls).toEqual([false, true, true]);
+    expect(env.server.connections).toHaveLength(3);
+  });
+
+  it('没有收到认证结果时超时关闭并重连', async () => {
+    const socket = env.create({
+      reconnectInterval: 100,
+      auth: { authMessage: () => ({ type: 'auth' }), authTimeout: 1000 }
+    });
+    const errors: string[] = [];
+    socket.on('error', error => errors.push(error.message));
+    await env.clock.advance(999);
+    expect(socket.connectionState).toBe(ConnectionState.CONNECTING);
+
+    await env.clock.advance(1);
+    expect(errors).toEqual(['认证超时']);
+    await env.clock.advance(1000);
+    expect(env.server.connections).toHaveLength(2);
+  });
+
+  it('连接超时包括等待令牌的时间，超时后忽略迟到的令牌', async () => {
+    const pending: Array<(token: string) => void> = [];
+    const socket = env.create({
+      connectionTimeout: 1000,
+      reconnectInterval: 100,
+      auth: { getToken: () => new Promise<string>(resolve => pending.push(resolve)) }
+    });
+    const timeouts: any[] = [];
+    socket.on('connectionTimeout', event => timeouts.push(event));
+    await env.clock.advance(1000);
+    expect(timeouts).toEqual([{ url: 'ws://mock', timeout: 1000 }]);
+
+    // 第一次的令牌在超时后才返回，不再使用
+    pending[0]('late');
+    await env.clock.advance(100);
+    expect(pending).toHaveLength(2);
+    expect(env.server.connections).toHaveLength(0);
+
+    pending[1]('fresh');
+    await env.clock.advance(0);
+    expect(env.server.connections.map(connection => connection.url)).toEqual(['ws://mock?token=fresh']);
+    expect(socket.connectionState).toBe(ConnectionState.OPEN);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { useSetup } from './helpers.js';
+
+describe('频道订阅', () => {
+  const env = useSetup();
+
+  it('同一频道的多个订阅者只订阅一次，最后一个退订时才通知服务端', async () => {
+    const socket = env.create();
+    await env.clock.advance(0);
+    const connection = env.server.lastConnection!;
+
+    const first = socket.subscribe('prices', () => {});
+    const second = socket.subscribe('prices', () => {});
+    await env.clock.advance(0);
+    expect(connection.messages).toEqual([{ type: 'subscribe', channel: 'prices' }]);
+    expect(socket.subscriptions).toEqual(['prices']);
+
+    first.unsubscribe();
+    first.unsubscribe();
+    await env.clock.advance(0);
+    expect(connection.messages).toHaveLength(1);
+    second.unsubscribe();
+    await env.clock.advance(0);
+    expect(connection.messages).toEqual([
+      { type: 'subscribe', channel: 'prices' },
+      { type: 'unsubscribe', channel: 'prices' }
+    ]);
+    expect(socket.subscriptions).toEqual([]);
+  });
+
+  it('连接前的订阅在连接后发送，重连后带参数重新订阅', async () => {
+    const socket = env.create({ reconnectInterval: 100 });
+    socket.subscribe('room', () => {}, { since: 5 });
+    await env.clock.advance(0);
+    expect(env.server.lastConnection!.messages).toEqual([{ type: 'subscribe', channel: 'room', params: { since: 5 } }]);
+
+    env.server.lastConnection!.close(1006);
+    const next = env.server.waitForConnection(true);
+    await env.clock.advance(1000);
+    const connection = await next;
+    expect(connection.messages).toEqual([{ type: 'subscribe', channel: 'room', params: { since: 5 } }]);
+  });
+
+  it('按 channelKey 分发给对应频道，处理函数出错不影响其他订阅者', async () => {
+    const socket = env.create({
+      channels: {
+        joinMessage: channel => ({ type: 'join', topic: channel }),
+        leaveMessage: channel => ({ type: 'leave', topic: channel }),
+        channelKey: 'topic'
+      }
+    });
+    const news: any[] = [];
+    const messages: any[] = [];
+    socket.subscribe('news', () => { throw new Error('handler failed'); });
+    socket.subscribe('news', data => news.push(data.payload));
+    socket.on('message', data => messages.push(data.payload));
+    await env.clock.advance(0);
+    expect(env.server.lastConnection!.messages).toEqual([{ type: 'join', topic: 'news' }]);
+
+    env.server.broadcast({ type: 'post', topic: 'news', payload: 1 });
+    env.server.broadcast({ type: 'post', topic: 'sports', payload: 2 });
+    env.server.broadcast({ type: 'post', channel: 'news', payload: 3 });
+    await env.clock.advance(0);
+    expect(news).toEqual([1]);
+    expect(messages).toEqual([1, 2, 3]);
+
+    socket.unsubscribe('news');
+    await env.clock.advance(0);
+    expect(env.server.lastConnection!.messages).toContainEqual({ type: 'leave', topic: 'news' });
+  });
+});
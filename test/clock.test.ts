@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { ConnectionState, TimeoutError } from '../src/index.js';
+import { setup, useSetup } from './helpers.js';
+
+describe('注入的时钟', () => {
+  const env = useSetup();
+
+  it('ready() 的超时由时钟计时', async () => {
+    env.server.refuse();
+    const socket = env.create({ autoReconnect: false, autoConnect: false });
+    let error: any = null;
+    socket.ready({ timeout: 1000 }).catch(e => { error = e; });
+
+    await env.clock.advance(999);
+    expect(error).toBeNull();
+    await env.clock.advance(1);
+    expect(error).toBeInstanceOf(TimeoutError);
+  });
+
+  it('丢弃心跳响应后按时钟判定超时并重连', async () => {
+    env.server.dropPongs(1);
+    const socket = env.create({ heartbeatInterval: 1000, heartbeatTimeout: 500, reconnectInterval: 100 });
+    const timeouts: any[] = [];
+    socket.on('heartbeatTimeout', event => timeouts.push(event));
+    await env.clock.advance(0);
+
+    await env.clock.advance(1499);
+    expect(timeouts).toHaveLength(0);
+    await env.clock.advance(1);
+    expect(timeouts).toHaveLength(1);
+
+    await env.clock.advance(1000);
+    expect(env.server.connections).toHaveLength(2);
+    expect(socket.connectionState).toBe(ConnectionState.OPEN);
+  });
+
+  it('队列中的消息按时钟过期', async () => {
+    const slow = setup({ latency: 100 });
+    try {
+      const socket = slow.create({ queue: { ttl: 50 } });
+      const dropped: any[] = [];
+      socket.on('queueDrop', event => dropped.push(event));
+      socket.send({ type: 'chat', payload: 'late' });
+
+      await slow.clock.advance(200);
+      expect(dropped).toEqual([{ data: { type: 'chat', payload: 'late' }, priority: 'normal', reason: 'expired' }]);
+      expect(slow.server.lastConnection!.messages).toEqual([]);
+    } finally {
+      slow.cleanup();
+    }
+  });
+
+  it('可靠投递按时钟重发未确认的消息', async () => {
+    const socket = env.create({ reliable: { ackTimeout: 1000 } });
+    await env.clock.advance(0);
+    socket.send({ type: 'order', payload: 1 }, { reliable: true });
+    await env.clock.advance(0);
+    const connection = env.server.lastConnection!;
+    expect(connection.messages).toHaveLength(1);
+
+    await env.clock.advance(999);
+    expect(connection.messages).toHaveLength(1);
+    await env.clock.advance(1);
+    expect(connection.messages).toHaveLength(2);
+    expect(connection.messages[1].seq).toBe(connection.messages[0].seq);
+  });
+
+  it('速率限制按时钟补充令牌', async () => {
+    const socket = env.create({ flowControl: { rateLimit: { messagesPerSecond: 1 } } });
+    await env.clock.advance(0);
+    socket.send({ type: 'a' });
+    socket.send({ type: 'b' });
+    await env.clock.advance(0);
+    const connection = env.server.lastConnection!;
+    expect(connection.messages.map(m => m.type)).toEqual(['a']);
+
+    await env.clock.advance(1000);
+    expect(connection.messages.map(m => m.type)).toEqual(['a', 'b']);
+  });
+
+  it('文件传输的确认超时由时钟计时', async () => {
+    const socket = env.create();
+    await env.clock.advance(0);
+    let result: boolean | null = null;
+    socket.sendFile(new Uint8Array([1, 2, 3]), { ackTimeout: 500, maxRetries: 0 }).then(ok => { result = ok; });
+
+    await env.clock.advance(499);
+    expect(result).toBeNull();
+    await env.clock.advance(1);
+    expect(result).toBe(false);
+  });
+
+  it('地址的冷却时间由时钟计时', async () => {
+    env.server.refuse(1);
+    const socket = env.create({
+      url: undefined,
+      urls: ['ws://a', 'ws://b'],
+      endpoints: { failureThreshold: 1, cooldown: 1000 },
+      reconnectInterval: 10
+    });
+    await env.clock.advance(0);
+    const [first] = socket.endpointStatus;
+    expect(first.healthy).toBe(false);
+    expect(first.cooldownUntil).toBe(env.clock.now() + 1000);
+
+    await env.clock.advance(1000);
+    expect(socket.endpointStatus[0].healthy).toBe(true);
+  });
+});
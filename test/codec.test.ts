@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { CborCodec, JsonCodec, MessagePackCodec, MessagePackExtension } from '../src/index.js';
+import { useSetup } from './helpers.js';
+
+const sample = {
+  type: 'quote',
+  payload: {
+    symbol: 'BTC',
+    name: '比特币',
+    price: 67123.45,
+    volume: 4294967296,
+    change: -12,
+    tags: ['a', 'b'],
+    live: true,
+    note: null,
+    raw: new Uint8Array([0, 255])
+  }
+};
+
+describe('编解码器', () => {
+  const env = useSetup();
+
+  it('MessagePack 和 CBOR 编码后可以原样解码', () => {
+    [MessagePackCodec, CborCodec].forEach(codec => {
+      const encoded = codec.encode(sample);
+      expect(encoded).toBeInstanceOf(Uint8Array);
+      expect(codec.decode(encoded)).toEqual(sample);
+    });
+    expect(JsonCodec.decode(JsonCodec.encode({ type: 'a', payload: 1 }))).toEqual({ type: 'a', payload: 1 });
+  });
+
+  it('编码结果与标准格式一致', () => {
+    expect(Array.from(MessagePackCodec.encode({ a: 1 }) as Uint8Array)).toEqual([0x81, 0xa1, 0x61, 0x01]);
+    expect(Array.from(CborCodec.encode({ a: 1 }) as Uint8Array)).toEqual([0xa1, 0x61, 0x61, 0x01]);
+    expect(MessagePackCodec.decode(new Uint8Array([0x92, 0xc3, 0xff]))).toEqual([true, -1]);
+    expect(CborCodec.decode(new Uint8Array([0x82, 0xf5, 0x20]))).toEqual([true, -1]);
+  });
+
+  it('使用二进制编解码器时按 type 分发消息并识别心跳响应', async () => {
+    env.server.on('message', ({ connection, data }) => {
+      const frame = MessagePackCodec.decode(data);
+      if (frame.type === 'ping') {
+        connection.send(MessagePackCodec.encode({ type: 'pong', time: frame.time }));
+      }
+    });
+    const socket = env.create({
+      codec: MessagePackCodec,
+      heartbeatInterval: 1000,
+      heartbeatTimeout: 500
+    });
+    const quotes: any[] = [];
+    const timeouts: any[] = [];
+    socket.on('quote', (data: any) => quotes.push(data));
+    socket.on('heartbeatTimeout', event => timeouts.push(event));
+    await env.clock.advance(0);
+
+    socket.send({ type: 'hello' });
+    await env.clock.advance(0);
+    const connection = env.server.lastConnection!;
+    expect(MessagePackCodec.decode(connection.messages[0])).toEqual({ type: 'hello' });
+
+    connection.send(MessagePackCodec.encode(sample));
+    await env.clock.advance(3000);
+    expect(quotes).toEqual([sample]);
+    expect(connection.messages.filter(m => MessagePackCodec.decode(m).type === 'ping')).toHaveLength(3);
+    expect(timeouts).toEqual([]);
+  });
+
+  it('__proto__ 键作为普通属性解码，不修改原型', () => {
+    // { "__proto__": { "polluted": true } }
+    const key = [0x5f, 0x5f, 0x70, 0x72, 0x6f, 0x74, 0x6f, 0x5f, 0x5f];
+    const inner = [0x70, 0x6f, 0x6c, 0x6c, 0x75, 0x74, 0x65, 0x64];
+    const msgpack = MessagePackCodec.decode(new Uint8Array([0x81, 0xa9, ...key, 0x81, 0xa8, ...inner, 0xc3]));
+    const cbor = CborCodec.decode(new Uint8Array([0xa1, 0x69, ...key, 0xa1, 0x68, ...inner, 0xf5]));
+
+    [msgpack, cbor].forEach(decoded => {
+      expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+      expect(Object.keys(decoded)).toEqual(['__proto__']);
+      expect(decoded.polluted).toBeUndefined();
+    });
+    expect(({} as any).polluted).toBeUndefined();
+  });
+
+  it('MessagePack 扩展类型：时间戳解码为 Date，其他类型原样保留', () => {
+    // 32 位：1 秒；64 位：2 秒 + 5 毫秒；96 位：-1 秒
+    expect(MessagePackCodec.decode(new Uint8Array([0xd6, 0xff, 0, 0, 0, 1]))).toEqual(new Date(1000));
+    const ns = 5000000 * 4;
+    expect(MessagePackCodec.decode(new Uint8Array([
+      0xd7, 0xff, (ns >>> 24) & 0xff, (ns >>> 16) & 0xff, (ns >>> 8) & 0xff, ns & 0xff, 0, 0, 0, 2
+    ]))).toEqual(new Date(2005));
+    expect(MessagePackCodec.decode(new Uint8Array([
+      0xc7, 12, 0xff, 0, 0, 0, 0, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff
+    ]))).toEqual(new Date(-1000));
+
+    const ext = new MessagePackExtension(7, new Uint8Array([1, 2, 3]));
+    const encoded = MessagePackCodec.encode({ ext }) as Uint8Array;
+    expect(Array.from(encoded.slice(-6))).toEqual([0xc7, 3, 7, 1, 2, 3]);
+    expect(MessagePackCodec.decode(encoded)).toEqual({ ext });
+    expect(MessagePackCodec.decode(new Uint8Array([0xd4, 0x05, 0x09]))).toEqual(new MessagePackExtension(5, new Uint8Array([9])));
+  });
+});
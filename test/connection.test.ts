@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { ConnectionState } from '../src/index.js';
+import { useSetup } from './helpers.js';
+
+describe('连接', () => {
+  const env = useSetup();
+
+  it('连接建立后收发消息', async () => {
+    const socket = env.create();
+    await env.clock.advance(0);
+    expect(socket.connectionState).toBe(ConnectionState.OPEN);
+
+    const connection = await env.server.waitForConnection();
+    socket.send({ type: 'hello', payload: 1 });
+    expect(await connection.waitForMessage('hello')).toEqual({ type: 'hello', payload: 1 });
+
+    const received: any[] = [];
+    socket.on('notice', data => received.push(data));
+    connection.send({ type: 'notice', payload: 'hi' });
+    await env.clock.advance(0);
+    expect(received).toEqual([{ type: 'notice', payload: 'hi' }]);
+  });
+
+  it('连接建立前的消息在连接后发送', async () => {
+    const socket = env.create();
+    socket.send({ type: 'early' });
+    await env.clock.advance(0);
+    const connection = await env.server.waitForConnection();
+    expect(await connection.waitForMessage('early')).toEqual({ type: 'early' });
+  });
+});
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EndpointChangeReason } from '../src/index.js';
+import { MockServer, MockWebSocket } from '../src/testing.js';
+import { useSetup } from './helpers.js';
+
+describe('多地址切换', () => {
+  const env = useSetup();
+  let servers: Map<string, MockServer>;
+
+  /**
+   * 每个地址对应一个模拟服务端，按地址的 host 路由连接
+   */
+  class RoutedWebSocket extends MockWebSocket {
+    constructor(url: string, protocols?: string | string[], options?: any) {
+      super(servers.get(new URL(url).host)!, url, protocols, options);
+    }
+  }
+
+  beforeEach(() => {
+    servers = new Map(['a', 'b', 'c'].map(host => [host, new MockServer({ clock: env.clock })]));
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const urls = ['ws://a', 'ws://b', 'ws://c'];
+  const server = (host: string) => servers.get(host)!;
+
+  const create = (options: Parameters<typeof env.create>[0] = {}) => {
+    const socket = env.create({ url: undefined, urls, WebSocketImpl: RoutedWebSocket, reconnectInterval: 100, ...options });
+    const changes: Array<[string | null, string, EndpointChangeReason]> = [];
+    socket.on('endpointChange', ({ from, to, reason }) => changes.push([from, to, reason]));
+    return { socket, changes };
+  };
+
+  it('failover：连接失败后使用下一个地址', async () => {
+    server('a').refuse();
+    const { socket, changes } = create();
+    await env.clock.advance(1000);
+
+    expect(socket.currentUrl).toBe('ws://b');
+    expect(server('b').clients).toHaveLength(1);
+    expect(changes).toEqual([[null, 'ws://a', 'initial'], ['ws://a', 'ws://b', 'failure']]);
+    expect(socket.endpointStatus.map(status => status.failures)).toEqual([1, 0, 0]);
+  });
+
+  it('round-robin：每次重连都切换到下一个地址', async () => {
+    const { socket, changes } = create({ endpoints: { strategy: 'round-robin' } });
+    await env.clock.advance(0);
+    server('a').closeAll(1006);
+    await env.clock.advance(1000);
+    server('b').closeAll(1006);
+    await env.clock.advance(1000);
+
+    expect(socket.currentUrl).toBe('ws://c');
+    expect(changes.map(change => change[2])).toEqual(['initial', 'rotation', 'rotation']);
+  });
+
+  it('random：随机选择地址', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.99);
+    const { socket } = create({ endpoints: { strategy: 'random' } });
+    await env.clock.advance(0);
+
+    expect(socket.currentUrl).toBe('ws://c');
+    expect(server('c').clients).toHaveLength(1);
+  });
+
+  it('lowest-latency：选择时延最低的地址，更快的地址出现后切换', async () => {
+    const latencies: Record<string, number> = { 'ws://a': 80, 'ws://b': 20, 'ws://c': 50 };
+    const { socket, changes } = create({
+      endpoints: { strategy: 'lowest-latency', recheckInterval: 5000, probe: async url => latencies[url] }
+    });
+    await env.clock.advance(0);
+    expect(socket.currentUrl).toBe('ws://b');
+
+    // 时延没有低于当前地址的 80% 时不切换
+    latencies['ws://c'] = 17;
+    await env.clock.advance(5000);
+    expect(socket.currentUrl).toBe('ws://b');
+
+    latencies['ws://c'] = 10;
+    await env.clock.advance(5000);
+    expect(socket.currentUrl).toBe('ws://c');
+    expect(server('b').clients).toHaveLength(0);
+    expect(server('c').clients).toHaveLength(1);
+    expect(changes).toEqual([[null, 'ws://b', 'initial'], ['ws://b', 'ws://c', 'latency']]);
+    expect(socket.endpointStatus.map(status => status.latency)).toEqual([80, 20, 10]);
+  });
+
+  it('failover：首选地址冷却结束并恢复后切换回去', async () => {
+    server('a').refuse();
+    const { socket, changes } = create({ endpoints: { failureThreshold: 1, cooldown: 3000, recheckInterval: 2000 } });
+    await env.clock.advance(1000);
+    expect(socket.currentUrl).toBe('ws://b');
+    expect(socket.endpointStatus[0]).toMatchObject({ healthy: false, failures: 1, cooldownUntil: 3000 });
+
+    // 冷却期内不检查首选地址
+    await env.clock.advance(2000);
+    expect(server('a').connections).toHaveLength(0);
+
+    server('a').refuse(0);
+    await env.clock.advance(2000);
+    expect(socket.currentUrl).toBe('ws://a');
+    expect(server('a').clients).toHaveLength(1);
+    expect(server('b').clients).toHaveLength(0);
+    expect(changes.slice(-1)).toEqual([['ws://b', 'ws://a', 'recovered']]);
+  });
+});
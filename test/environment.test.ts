@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConnectionState } from '../src/index.js';
+import { useSetup } from './helpers.js';
+
+describe('网络状态和页面可见性', () => {
+  const env = useSetup();
+  const browser = {
+    window: new EventTarget(),
+    document: Object.assign(new EventTarget(), { visibilityState: 'visible' }),
+    navigator: { onLine: true }
+  };
+
+  beforeEach(() => {
+    browser.window = new EventTarget();
+    browser.document = Object.assign(new EventTarget(), { visibilityState: 'visible' });
+    browser.navigator = { onLine: true };
+    Object.entries(browser).forEach(([name, value]) => vi.stubGlobal(name, value));
+  });
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const setOnline = (online: boolean) => {
+    browser.navigator.onLine = online;
+    browser.window.dispatchEvent(new Event(online ? 'online' : 'offline'));
+  };
+
+  const setHidden = (hidden: boolean) => {
+    browser.document.visibilityState = hidden ? 'hidden' : 'visible';
+    browser.document.dispatchEvent(new Event('visibilitychange'));
+  };
+
+  const pings = () => env.server.lastConnection!.messages.filter(m => m.type === 'ping').length;
+
+  it('离线时暂停重连，恢复在线时立即重连', async () => {
+    const socket = env.create({ environment: {}, reconnectInterval: 1000 });
+    const events: string[] = [];
+    socket.on('offline', () => events.push('offline'));
+    socket.on('online', () => events.push('online'));
+    socket.on('reconnecting', () => events.push('reconnecting'));
+    await env.clock.advance(0);
+
+    setOnline(false);
+    env.server.lastConnection!.close(1006);
+    await env.clock.advance(60000);
+    expect(env.server.connections).toHaveLength(1);
+    expect(socket.connectionState).toBe(ConnectionState.RECONNECTING);
+
+    setOnline(true);
+    await env.clock.advance(0);
+    expect(env.server.connections).toHaveLength(2);
+    expect(socket.connectionState).toBe(ConnectionState.OPEN);
+    expect(events).toEqual(['offline', 'online']);
+  });
+
+  it('离线时取消等待中的重连', async () => {
+    const socket = env.create({ environment: {}, reconnectInterval: 1000 });
+    await env.clock.advance(0);
+
+    env.server.lastConnection!.close(1006);
+    await env.clock.advance(500);
+    setOnline(false);
+    await env.clock.advance(60000);
+    expect(env.server.connections).toHaveLength(1);
+
+    setOnline(true);
+    await env.clock.advance(0);
+    expect(env.server.connections).toHaveLength(2);
+    expect(socket.currentReconnectAttempt).toBe(0);
+  });
+
+  it('页面隐藏时降低心跳频率，恢复可见时立即发送心跳', async () => {
+    const socket = env.create({
+      heartbeatInterval: 1000,
+      environment: { hiddenHeartbeatInterval: 5000 }
+    });
+    const events: string[] = [];
+    socket.on('hidden', () => events.push('hidden'));
+    socket.on('visible', () => events.push('visible'));
+    await env.clock.advance(2000);
+    expect(pings()).toBe(2);
+
+    setHidden(true);
+    await env.clock.advance(4999);
+    expect(pings()).toBe(2);
+    await env.clock.advance(1);
+    expect(pings()).toBe(3);
+
+    setHidden(false);
+    await env.clock.advance(0);
+    expect(pings()).toBe(4);
+    await env.clock.advance(1000);
+    expect(pings()).toBe(5);
+    expect(events).toEqual(['hidden', 'visible']);
+  });
+
+  it('suspend 模式下页面隐藏时暂停心跳', async () => {
+    env.create({
+      heartbeatInterval: 1000,
+      environment: { hiddenHeartbeat: 'suspend', pingOnVisible: false }
+    });
+    await env.clock.advance(1000);
+    expect(pings()).toBe(1);
+
+    setHidden(true);
+    await env.clock.advance(60000);
+    expect(pings()).toBe(1);
+
+    setHidden(false);
+    await env.clock.advance(0);
+    expect(pings()).toBe(1);
+    await env.clock.advance(1000);
+    expect(pings()).toBe(2);
+  });
+});
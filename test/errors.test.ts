@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { Codec, DecodeError, SupaSocketError, TimeoutError } from '../src/index.js';
+import { useSetup } from './helpers.js';
+
+describe('错误类型', () => {
+  const env = useSetup();
+
+  it('格式错误的JSON触发 DecodeError，纯文本按原样分发', async () => {
+    const socket = env.create();
+    const errors: any[] = [];
+    const messages: any[] = [];
+    socket.on('error', error => errors.push(error));
+    socket.on('message', data => messages.push(data));
+    await env.clock.advance(0);
+
+    env.server.broadcast('{"type": broken');
+    env.server.broadcast('plain text');
+    await env.clock.advance(0);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toBeInstanceOf(DecodeError);
+    expect(errors[0].code).toBe('DECODE_FAILED');
+    expect(errors[0].raw).toBe('{"type": broken');
+    expect(messages).toEqual(['plain text']);
+  });
+
+  it('编解码器出错时触发 DecodeError', async () => {
+    const codec: Codec = {
+      name: 'strict',
+      binary: false,
+      encode: data => JSON.stringify(data),
+      decode: () => {
+        throw new Error('bad frame');
+      }
+    };
+    const socket = env.create({ codec });
+    const errors: any[] = [];
+    socket.on('error', error => errors.push(error));
+    await env.clock.advance(0);
+
+    env.server.broadcast('anything');
+    await env.clock.advance(0);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toBeInstanceOf(DecodeError);
+    expect((errors[0].cause as Error).message).toBe('bad frame');
+  });
+
+  it('等待超时以带 code 的 TimeoutError 拒绝', async () => {
+    env.server.refuse();
+    const socket = env.create({ autoReconnect: false, autoConnect: false });
+    const waiting = socket.waitFor('open', undefined, { timeout: 10 }).catch(e => e);
+    await env.clock.advance(10);
+    const error = await waiting;
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error).toBeInstanceOf(SupaSocketError);
+    expect(error.code).toBe('WAIT_TIMEOUT');
+    expect(error.name).toBe('TimeoutError');
+  });
+});
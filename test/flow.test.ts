@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { useSetup } from './helpers.js';
+
+describe('发送流量控制', () => {
+  const env = useSetup();
+
+  it('updateOptions 替换流量控制后，等待中的 sendAsync 按新配置继续', async () => {
+    const socket = env.create({ flowControl: { highWaterMark: 10, lowWaterMark: 5 } });
+    await env.clock.advance(0);
+    (socket as any).ws.bufferedAmount = 100;
+
+    let sent = false;
+    const pending = socket.sendAsync({ type: 'chat', payload: 'hi' }).then(() => { sent = true; });
+    await env.clock.advance(0);
+    expect(sent).toBe(false);
+
+    socket.updateOptions({ flowControl: { highWaterMark: 1000, lowWaterMark: 500 } });
+    await env.clock.advance(0);
+    await pending;
+    expect(sent).toBe(true);
+    expect(env.server.lastConnection!.messages).toContainEqual({ type: 'chat', payload: 'hi' });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { LatencySample } from '../src/index.js';
+import { useSetup } from './helpers.js';
+
+describe('心跳时延测量', () => {
+  const env = useSetup();
+
+  const pings = () => env.server.lastConnection!.messages.filter(m => m.type === 'ping').length;
+
+  it('按心跳响应计算往返时延和平滑往返时延', async () => {
+    const socket = env.create({ heartbeatInterval: 1000 });
+    const samples: LatencySample[] = [];
+    socket.on('latency', sample => samples.push(sample));
+    await env.clock.advance(0);
+    expect(socket.latency).toBeNull();
+    expect(socket.smoothedRtt).toBeNull();
+
+    env.server.latency = 50;
+    await env.clock.advance(1100);
+    env.server.latency = 150;
+    await env.clock.advance(1300);
+
+    expect(samples).toEqual([
+      { rtt: 100, srtt: 100, rttvar: 50 },
+      { rtt: 300, srtt: 125, rttvar: 87.5 }
+    ]);
+    expect(socket.latency).toBe(300);
+    expect(socket.smoothedRtt).toBe(125);
+  });
+
+  it('heartbeatSkipOnTraffic 时一个心跳间隔内收到过消息则跳过心跳', async () => {
+    env.create({ heartbeatInterval: 1000, heartbeatSkipOnTraffic: true });
+    await env.clock.advance(500);
+    env.server.broadcast({ type: 'news' });
+    await env.clock.advance(500);
+    expect(pings()).toBe(0);
+
+    await env.clock.advance(1000);
+    expect(pings()).toBe(1);
+  });
+
+  it('heartbeatMaxMissed 次连续未收到响应才判定心跳超时', async () => {
+    env.server.dropPongs();
+    const socket = env.create({
+      heartbeatInterval: 1000,
+      heartbeatTimeout: 500,
+      heartbeatMaxMissed: 3,
+      reconnectInterval: 100
+    });
+    const timeouts: any[] = [];
+    socket.on('heartbeatTimeout', event => timeouts.push(event));
+    await env.clock.advance(2500);
+    expect(timeouts).toEqual([]);
+    expect(env.server.connections).toHaveLength(1);
+
+    await env.clock.advance(1000);
+    expect(timeouts).toEqual([{ time: 3500, missed: 3 }]);
+    await env.clock.advance(1000);
+    expect(env.server.connections).toHaveLength(2);
+  });
+
+  it('收到心跳响应后重新计算连续丢失次数', async () => {
+    env.server.dropPongs(2);
+    const socket = env.create({ heartbeatInterval: 1000, heartbeatTimeout: 500, heartbeatMaxMissed: 3 });
+    const timeouts: any[] = [];
+    socket.on('heartbeatTimeout', event => timeouts.push(event));
+    await env.clock.advance(3000);
+
+    env.server.dropPongs(2);
+    await env.clock.advance(2000);
+    expect(timeouts).toEqual([]);
+    expect(env.server.connections).toHaveLength(1);
+  });
+});
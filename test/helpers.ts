@@ -0,0 +1,68 @@
+import { afterEach, beforeEach } from 'vitest';
+import SupaSocket from '../src/index.js';
+import { ManualClock, MockServer, MockServerOptions } from '../src/testing.js';
+import { SupaSocketServer, SupaSocketServerOptions } from '../src/server.js';
+
+type SocketOptions = ConstructorParameters<typeof SupaSocket>[0];
+
+/**
+ * 创建手动时钟、模拟服务端和连接到该服务端的 SupaSocket，测试结束时调用 cleanup 销毁所有实例
+ * @param serverOptions 模拟服务端配置
+ */
+export function setup(serverOptions: MockServerOptions = {}) {
+  const clock = new ManualClock();
+  const server = new MockServer({ clock, ...serverOptions });
+  const sockets: SupaSocket[] = [];
+
+  const create = (options: Partial<SocketOptions> = {}) => {
+    const socket = new SupaSocket({
+      url: 'ws://mock',
+      WebSocketImpl: server.WebSocket,
+      clock,
+      heartbeatInterval: 0,
+      ...options
+    });
+    sockets.push(socket);
+    return socket;
+  };
+
+  const cleanup = () => {
+    sockets.forEach(socket => socket.destroy());
+    clock.reset();
+  };
+
+  return { clock, server, create, cleanup };
+}
+
+/**
+ * 每个测试前创建新的 setup 环境，测试结束后清理；返回的对象始终指向当前测试的环境
+ * @param serverOptions 模拟服务端配置
+ */
+export function useSetup(serverOptions: MockServerOptions = {}) {
+  const env = {} as ReturnType<typeof setup>;
+  beforeEach(() => {
+    Object.assign(env, setup(serverOptions));
+  });
+  afterEach(() => env.cleanup());
+  return env;
+}
+
+/**
+ * 在随机端口启动 ws 服务端
+ * @param options 服务端配置
+ */
+export async function listen(options: SupaSocketServerOptions = {}) {
+  const server = new SupaSocketServer({ port: 0, ...options });
+  await new Promise(resolve => server.wss.once('listening', resolve));
+  return { server, url: `ws://127.0.0.1:${(server.wss.address() as any).port}` };
+}
+
+/**
+ * 使用真实定时器轮询，直到条件成立（最多约 1 秒）
+ * @param check 条件
+ */
+export async function until(check: () => boolean) {
+  for (let i = 0; i < 100 && !check(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { useSetup } from './helpers.js';
+
+describe('Promise 形式的生命周期', () => {
+  const env = useSetup();
+
+  it('ready() 在连接建立后解析', async () => {
+    const socket = env.create();
+    const ready = socket.ready();
+    await env.clock.advance(0);
+    await expect(ready).resolves.toBeUndefined();
+  });
+
+  it('clearAllListeners() 不影响 ready、waitFor 和 stream', async () => {
+    const socket = env.create();
+    const ready = socket.ready();
+    const notice = socket.waitFor('notice');
+    const stream = socket.stream('tick')[Symbol.asyncIterator]();
+    const removed: any[] = [];
+    socket.on('notice', (data: any) => removed.push(data));
+
+    socket.clearAllListeners();
+    await env.clock.advance(0);
+    await expect(ready).resolves.toBeUndefined();
+
+    env.server.broadcast({ type: 'notice', payload: 1 });
+    env.server.broadcast({ type: 'tick', payload: 2 });
+    await env.clock.advance(0);
+    expect(await notice).toEqual({ type: 'notice', payload: 1 });
+    expect((await stream.next()).value).toEqual({ type: 'tick', payload: 2 });
+    expect(removed).toEqual([]);
+    expect(socket.hasListeners('notice')).toBe(false);
+  });
+
+  it('close() 在收到关闭事件后解析', async () => {
+    const socket = env.create();
+    await env.clock.advance(0);
+    const closed = socket.close(1000, 'bye');
+    await env.clock.advance(0);
+    expect((await closed)?.code).toBe(1000);
+  });
+});
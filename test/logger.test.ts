@@ -0,0 +1,34 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { useSetup } from './helpers.js';
+
+describe('日志', () => {
+  const env = useSetup();
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('未开启 debug 时默认不输出连接错误，只输出监听器错误', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const socket = env.create({ reconnectLimit: 0 });
+    socket.on('open', () => {
+      throw new Error('listener failed');
+    });
+    await env.clock.advance(0);
+    const connection = await env.server.waitForConnection();
+    connection.close(4001, 'kicked');
+    await env.clock.advance(0);
+
+    expect(warn).not.toHaveBeenCalled();
+    expect(error).toHaveBeenCalledTimes(1);
+    expect(error.mock.calls[0][1].code).toBe('LISTENER_ERROR');
+  });
+
+  it('自定义日志输出 info 及以上', async () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    env.create({ logger });
+    await env.clock.advance(0);
+    expect(logger.info.mock.calls.map(call => call[1].code)).toContain('CONNECTED');
+    expect(logger.debug).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { OpenTelemetryAdapter } from '../src/index.js';
+import { useSetup } from './helpers.js';
+
+// 记录 span 的简单 tracer
+function createTracer() {
+  const spans: any[] = [];
+  const tracer = {
+    startSpan(name: string, options: any) {
+      const span = {
+        name,
+        attributes: { ...options?.attributes },
+        status: null as any,
+        ended: false,
+        setAttribute(key: string, value: any) { span.attributes[key] = value; },
+        setStatus(status: any) { span.status = status; },
+        recordException() {},
+        end() { span.ended = true; }
+      };
+      spans.push(span);
+      return span;
+    }
+  };
+  return { tracer, spans };
+}
+
+describe('连接指标', () => {
+  const env = useSetup();
+
+  it('同类型的并发请求乱序完成时结束各自的 span', async () => {
+    const { tracer, spans } = createTracer();
+    const socket = env.create({ metrics: new OpenTelemetryAdapter(tracer as any) });
+    await env.clock.advance(0);
+    const connection = await env.server.waitForConnection();
+
+    const first = socket.request('get', { n: 1 }).catch(() => 'failed');
+    const second = socket.request('get', { n: 2 });
+    await env.clock.advance(0);
+    const [frame1, frame2] = connection.messages.filter(data => data.type === 'get');
+
+    connection.send({ type: 'get', id: frame2.id, payload: 'two' });
+    await env.clock.advance(0);
+    expect(await second).toBe('two');
+
+    const rpcSpans = spans.filter(span => span.name === 'rpc get');
+    expect(rpcSpans[0].ended).toBe(false);
+    expect(rpcSpans[1].ended).toBe(true);
+    expect(rpcSpans[1].status.code).toBe(1);
+
+    connection.send({ type: 'error', id: frame1.id, error: 'nope' });
+    await env.clock.advance(0);
+    expect(await first).toBe('failed');
+    expect(rpcSpans[0].ended).toBe(true);
+    expect(rpcSpans[0].status.code).toBe(2);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import { Middleware, MiddlewareError, SendError } from '../src/index.js';
+import { useSetup } from './helpers.js';
+
+describe('中间件', () => {
+  const env = useSetup();
+
+  const delay = (ms: number) => new Promise<void>(resolve => env.clock.setTimeout(() => resolve(), ms));
+
+  it('按注册顺序执行，next() 之后的代码在写出之后执行', async () => {
+    const socket = env.create();
+    const calls: string[] = [];
+    const trace = (name: string): Middleware => async (ctx, next) => {
+      calls.push(`${name}:${ctx.stage}:before`);
+      await next();
+      calls.push(`${name}:${ctx.stage}:after`);
+    };
+    socket.use(trace('a'), 'outbound').use(trace('b'), 'outbound').use(trace('raw'), 'outbound', 'raw');
+    await env.clock.advance(0);
+
+    socket.send({ type: 'hello' });
+    await env.clock.advance(0);
+    expect(calls).toEqual([
+      'a:message:before', 'b:message:before', 'raw:raw:before',
+      'raw:raw:after', 'b:message:after', 'a:message:after'
+    ]);
+    expect(env.server.lastConnection!.messages).toEqual([{ type: 'hello' }]);
+  });
+
+  it('异步延迟时按顺序处理，前一帧完成后才处理下一帧', async () => {
+    const socket = env.create();
+    socket.use(async (ctx, next) => {
+      await delay(ctx.data.payload);
+      await next();
+    }, 'outbound');
+    await env.clock.advance(0);
+
+    socket.send({ type: 'slow', payload: 100 });
+    socket.send({ type: 'fast', payload: 0 });
+    await env.clock.advance(99);
+    expect(env.server.lastConnection!.messages).toEqual([]);
+
+    await env.clock.advance(1);
+    expect(env.server.lastConnection!.messages.map(message => message.type)).toEqual(['slow', 'fast']);
+  });
+
+  it('修改收发的消息', async () => {
+    const socket = env.create();
+    socket.use((ctx, next) => {
+      ctx.data = { ...ctx.data, [ctx.direction]: true };
+      return next();
+    });
+    const received: any[] = [];
+    socket.on('news', data => received.push(data));
+    await env.clock.advance(0);
+
+    socket.send({ type: 'hello' });
+    env.server.broadcast({ type: 'news' });
+    await env.clock.advance(0);
+    expect(env.server.lastConnection!.messages).toEqual([{ type: 'hello', outbound: true }]);
+    expect(received).toEqual([{ type: 'news', inbound: true }]);
+  });
+
+  it('丢弃的帧不发送，请求和 sendAsync 以发送失败结束', async () => {
+    const socket = env.create();
+    socket.use((ctx, next) => ctx.data.type === 'secret' ? undefined : next(), 'outbound');
+    socket.use((ctx, next) => ctx.data.type === 'noise' ? undefined : next(), 'inbound');
+    const received: string[] = [];
+    socket.on('message', data => received.push(data.type));
+    await env.clock.advance(0);
+
+    expect(socket.send({ type: 'secret' })).toBe(true);
+    const reply = expect(socket.request('secret', 1)).rejects.toMatchObject({ code: 'SEND_FAILED' });
+    const sending = expect(socket.sendAsync({ type: 'secret' })).rejects.toBeInstanceOf(SendError);
+    env.server.broadcast({ type: 'noise' });
+    env.server.broadcast({ type: 'news' });
+    await env.clock.advance(0);
+
+    await reply;
+    await sending;
+    expect(env.server.lastConnection!.messages).toEqual([]);
+    expect(received).toEqual(['news']);
+    expect(socket.pendingRequests).toBe(0);
+  });
+
+  it('raw 阶段在编解码器之外处理原始帧', async () => {
+    const encrypt = (text: string) => `enc:${text.split('').reverse().join('')}`;
+    const decrypt = (text: string) => text.slice(4).split('').reverse().join('');
+    const socket = env.create();
+    socket.use((ctx, next) => {
+      ctx.data = ctx.direction === 'inbound' ? decrypt(ctx.data) : encrypt(ctx.data);
+      return next();
+    }, undefined, 'raw');
+    const received: any[] = [];
+    const errors: any[] = [];
+    socket.on('news', data => received.push(data));
+    socket.on('error', error => errors.push(error));
+    await env.clock.advance(0);
+
+    socket.send({ type: 'hello' });
+    env.server.lastConnection!.send(encrypt(JSON.stringify({ type: 'news', payload: 1 })));
+    await env.clock.advance(0);
+    expect(env.server.lastConnection!.messages).toEqual([encrypt('{"type":"hello"}')]);
+    expect(received).toEqual([{ type: 'news', payload: 1 }]);
+    expect(errors).toEqual([]);
+  });
+
+  it('中间件出错时丢弃该帧并触发 MiddlewareError', async () => {
+    const socket = env.create();
+    socket.use(() => { throw new Error('boom'); }, 'inbound');
+    const errors: any[] = [];
+    const received: any[] = [];
+    socket.on('error', error => errors.push(error));
+    socket.on('message', data => received.push(data));
+    await env.clock.advance(0);
+
+    env.server.broadcast({ type: 'news' });
+    await env.clock.advance(0);
+    expect(received).toEqual([]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toBeInstanceOf(MiddlewareError);
+    expect(errors[0].cause.message).toBe('boom');
+  });
+
+  it('处理期间重连时不写入新的连接，保留的请求在重连后重发', async () => {
+    const socket = env.create({ reconnectInterval: 100 });
+    let first = true;
+    socket.use(async (ctx, next) => {
+      if (first) {
+        first = false;
+        await delay(1000);
+      }
+      await next();
+    }, 'outbound');
+    const errors: any[] = [];
+    socket.on('error', error => errors.push(error));
+    await env.clock.advance(0);
+
+    const reply = socket.request('echo', 1, { retainOnReconnect: true });
+    env.server.lastConnection!.close(1006);
+    await env.clock.advance(1000);
+
+    const connection = env.server.lastConnection!;
+    expect(env.server.connections).toHaveLength(2);
+    expect(connection.messages).toHaveLength(1);
+    expect(errors.some(error => error instanceof SendError)).toBe(true);
+
+    const frame = connection.messages[0];
+    connection.send({ type: 'echo', id: frame.id, payload: 'ok' });
+    await expect(reply).resolves.toBe('ok');
+  });
+});
@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { Readable } from 'stream';
+import WebSocket from 'ws';
+import SupaSocket from '../src/index.js';
+import { SupaSocketServer } from '../src/server.js';
+import { listen, until } from './helpers.js';
+
+type SocketOptions = ConstructorParameters<typeof SupaSocket>[0];
+
+describe('Node.js + ws', () => {
+  let server: SupaSocketServer | null = null;
+  let sockets: SupaSocket[] = [];
+  const create = (options: SocketOptions) => {
+    const socket = new SupaSocket({ WebSocketImpl: WebSocket as any, heartbeatInterval: 0, ...options });
+    sockets.push(socket);
+    return socket;
+  };
+  afterEach(async () => {
+    sockets.forEach(socket => socket.destroy());
+    sockets = [];
+    await server?.close();
+    server = null;
+  });
+
+  it('通过 clientOptions 传入请求头，收发 JSON 和请求', async () => {
+    const started = await listen();
+    server = started.server;
+    server.handle('add', frame => frame.payload.a + frame.payload.b);
+    const headers: any[] = [];
+    server.on('connection', client => headers.push(client.request.headers['authorization']));
+
+    const socket = create({ url: started.url, clientOptions: { headers: { Authorization: 'Bearer t' } } });
+    await socket.ready({ timeout: 1000 });
+    expect(headers).toEqual(['Bearer t']);
+    expect(await socket.request('add', { a: 1, b: 2 })).toBe(3);
+  });
+
+  it('发送 Buffer 和 Uint8Array，收到的二进制为 Uint8Array', async () => {
+    const started = await listen();
+    server = started.server;
+    const received: any[] = [];
+    server.on('message', ({ data }) => received.push(data));
+    server.on('connection', client => client.send(Buffer.from([7, 8])));
+
+    const socket = create({ url: started.url });
+    const binary: any[] = [];
+    socket.on('message', data => binary.push(data));
+    await socket.ready({ timeout: 1000 });
+    socket.sendBinary(Buffer.from('hi'));
+    socket.sendBinary(new Uint8Array([1, 2, 3]));
+
+    await until(() => received.length === 2 && binary.length === 1);
+    expect(received.map(data => Array.from(data))).toEqual([[104, 105], [1, 2, 3]]);
+    expect(new Uint8Array(binary[0])).toEqual(new Uint8Array([7, 8]));
+  });
+
+  it('sendFile 发送 Readable 流', async () => {
+    const started = await listen();
+    server = started.server;
+    const files: any[] = [];
+    server.on('file', ({ file }) => files.push(file));
+
+    const socket = create({ url: started.url });
+    await socket.ready({ timeout: 1000 });
+    const ok = await socket.sendFile(Readable.from([Buffer.from('hello '), Buffer.from('world')]), {
+      fileName: 'greeting.txt',
+      chunkSize: 4
+    });
+
+    expect(ok).toBe(true);
+    await until(() => files.length === 1);
+    expect(files[0].name).toBe('greeting.txt');
+    expect(Buffer.from(files[0].data).toString()).toBe('hello world');
+  });
+
+  it('shared 通过全局 BroadcastChannel 在同一进程的实例之间共享连接', async () => {
+    const started = await listen();
+    server = started.server;
+
+    const name = `node-${Date.now()}`;
+    const leader = create({ url: started.url, shared: { name, leaderHeartbeat: 100 } });
+    await leader.ready({ timeout: 1000 });
+    const follower = create({ url: started.url, shared: { name, leaderHeartbeat: 100 } });
+    const messages: any[] = [];
+    follower.on('notice', (data: any) => messages.push(data));
+    await follower.ready({ timeout: 1000 });
+
+    server.broadcast({ type: 'notice', payload: 1 });
+    await until(() => messages.length === 1);
+    expect(server.clients.size).toBe(1);
+    expect(messages).toEqual([{ type: 'notice', payload: 1 }]);
+  });
+});
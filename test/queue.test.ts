@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { MemoryQueueStorage, QueuedMessage } from '../src/index.js';
+import { useSetup } from './helpers.js';
+
+describe('发送队列', () => {
+  const env = useSetup();
+
+  it('连接建立后按优先级发送', async () => {
+    const socket = env.create();
+    const flushed: any[] = [];
+    socket.on('queueFlush', event => flushed.push(event));
+    socket.send({ type: 'bulk' }, { priority: 'low' });
+    socket.send({ type: 'chat' });
+    socket.send({ type: 'cancel' }, { priority: 'high' });
+
+    await env.clock.advance(0);
+    expect(env.server.lastConnection!.messages.map(m => m.type)).toEqual(['cancel', 'chat', 'bulk']);
+    expect(flushed[0].results.every((result: any) => result.success)).toBe(true);
+  });
+
+  it('超过长度上限时按策略丢弃或拒绝', async () => {
+    const socket = env.create({ queue: { maxLength: 2 } });
+    const dropped: any[] = [];
+    socket.on('queueDrop', event => dropped.push(event));
+    socket.send({ type: 'a' });
+    socket.send({ type: 'b' });
+    socket.send({ type: 'c' });
+
+    await env.clock.advance(0);
+    expect(dropped).toEqual([{ data: { type: 'a' }, priority: 'normal', reason: 'overflow' }]);
+    expect(env.server.lastConnection!.messages.map(m => m.type)).toEqual(['b', 'c']);
+
+    const strict = env.create({ queue: { maxLength: 1, overflow: 'reject' } });
+    expect(strict.send({ type: 'a' })).toBe(true);
+    expect(strict.send({ type: 'b' })).toBe(false);
+  });
+
+  it('持久化存储中的消息由新实例恢复并发送', async () => {
+    const storage = new MemoryQueueStorage();
+    const first = env.create({ autoConnect: false, queue: { storage, queueWhenClosed: true } });
+    first.send({ type: 'order', payload: 1 });
+    first.destroy();
+    await env.clock.advance(0);
+
+    env.create({ queue: { storage } });
+    await env.clock.advance(0);
+    expect(env.server.connections).toHaveLength(1);
+    expect(env.server.lastConnection!.messages).toEqual([{ type: 'order', payload: 1 }]);
+    expect(await storage.load()).toEqual([]);
+  });
+
+  it('恢复期间入队的消息排在恢复的消息之后', async () => {
+    let finishLoad: (messages: QueuedMessage[]) => void = () => {};
+    const storage = {
+      load: () => new Promise<QueuedMessage[]>(resolve => { finishLoad = resolve; }),
+      save: async () => {}
+    };
+    const socket = env.create({ queue: { storage } });
+    await env.clock.advance(0);
+    socket.send({ type: 'new' });
+    await env.clock.advance(0);
+    expect(env.server.lastConnection!.messages).toEqual([]);
+
+    finishLoad([{ id: 1, data: { type: 'old' }, priority: 'normal', enqueuedAt: 0, expiresAt: null, size: 14 }]);
+    await env.clock.advance(0);
+    expect(env.server.lastConnection!.messages.map(m => m.type)).toEqual(['old', 'new']);
+  });
+
+  it('心跳包直接发送，不排在队列中的消息之后，也不会被持久化', async () => {
+    const storage = new MemoryQueueStorage();
+    const socket = env.create({
+      heartbeatInterval: 100,
+      queue: { storage },
+      flowControl: { rateLimit: { messagesPerSecond: 1 } }
+    });
+    await env.clock.advance(0);
+    socket.send({ type: 'chat' });
+    socket.send({ type: 'bulk' });
+
+    await env.clock.advance(100);
+    expect(env.server.lastConnection!.messages.map(m => m.type)).toEqual(['chat', 'ping']);
+    expect((await storage.load()).map(m => m.data.type)).toEqual(['bulk']);
+  });
+});
@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { exponentialBackoff, fixedDelay, linearBackoff } from '../src/index.js';
+import { useSetup } from './helpers.js';
+
+describe('重连策略', () => {
+  const env = useSetup();
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('内置策略的延迟', () => {
+    expect([1, 2, 3].map(attempt => fixedDelay(500)(attempt, null))).toEqual([500, 500, 500]);
+    expect([1, 2, 3, 4].map(attempt => linearBackoff(100, 50, 180)(attempt, null))).toEqual([100, 150, 180, 180]);
+    expect([1, 2, 3, 4].map(attempt => exponentialBackoff(100, 2, 500)(attempt, null))).toEqual([100, 200, 400, 500]);
+
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect(exponentialBackoff(100, 2, 500, 'full')(3, null)).toBe(200);
+    const decorrelated = exponentialBackoff(100, 2, 10000, 'decorrelated');
+    expect([1, 2].map(attempt => decorrelated(attempt, null))).toEqual([200, 350]);
+  });
+
+  it('按策略计算的延迟重连', async () => {
+    const socket = env.create({ reconnectStrategy: { type: 'fixed', initialDelay: 200 } });
+    const attempts: any[] = [];
+    socket.on('reconnecting', event => attempts.push(event));
+    await env.clock.advance(0);
+
+    env.server.lastConnection!.close(1006);
+    await env.clock.advance(199);
+    expect(env.server.connections).toHaveLength(1);
+    await env.clock.advance(1);
+    expect(env.server.connections).toHaveLength(2);
+    expect(attempts).toEqual([{ attempt: 1, limit: 5, delay: 200, reason: 'close:1006' }]);
+  });
+
+  it('自定义策略收到重连次数和关闭事件，返回 null 时放弃', async () => {
+    const calls: any[] = [];
+    env.server.refuse(Infinity, 4003);
+    const socket = env.create({
+      reconnectLimit: Infinity,
+      reconnectStrategy: (attempt, event) => {
+        calls.push([attempt, event?.code]);
+        return attempt < 3 ? 10 : null;
+      }
+    });
+    const failed: any[] = [];
+    socket.on('reconnectFailed', event => failed.push(event));
+
+    await env.clock.advance(100);
+    expect(calls).toEqual([[1, 4003], [2, 4003], [3, 4003]]);
+    expect(failed).toEqual([{ attempts: 2, limit: Infinity, reason: 'closeCode', code: 4003 }]);
+  });
+
+  it('认证失败的关闭代码不重连，服务重启立即重连', async () => {
+    const socket = env.create({ reconnectInterval: 1000 });
+    const failed: any[] = [];
+    socket.on('reconnectFailed', event => failed.push(event));
+    await env.clock.advance(0);
+
+    env.server.lastConnection!.close(1012);
+    await env.clock.advance(0);
+    expect(env.server.connections).toHaveLength(2);
+
+    env.server.lastConnection!.close(4001);
+    await env.clock.advance(60000);
+    expect(env.server.connections).toHaveLength(2);
+    expect(failed).toEqual([{ attempts: 0, limit: 5, reason: 'closeCode', code: 4001 }]);
+  });
+
+  it('reconnectLimit 为 0 时不重连，为 Infinity 时一直重试', async () => {
+    const none = env.create({ reconnectLimit: 0 });
+    await env.clock.advance(0);
+    env.server.lastConnection!.close(1006);
+    await env.clock.advance(60000);
+    expect(env.server.connections).toHaveLength(1);
+    none.destroy();
+
+    env.server.refuse(Infinity);
+    const socket = env.create({ reconnectLimit: Infinity, reconnectStrategy: { type: 'fixed', initialDelay: 10 } });
+    const attempts: number[] = [];
+    socket.on('reconnecting', ({ attempt }) => attempts.push(attempt));
+    await env.clock.advance(200);
+    expect(env.server.connections).toHaveLength(1);
+    expect(attempts.length).toBeGreaterThan(10);
+    expect(attempts.slice(0, 3)).toEqual([1, 2, 3]);
+    expect(socket.currentReconnectAttempt).toBe(attempts[attempts.length - 1]);
+    expect(socket.getStats().reconnectAttempts).toBe(attempts.length);
+  });
+});
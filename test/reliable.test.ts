@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { useSetup } from './helpers.js';
+
+describe('可靠投递', () => {
+  const env = useSetup();
+
+  it('收到确认帧后触发 delivered', async () => {
+    env.server.handle('order', data => ({ type: 'ack', seq: data.seq }));
+    const socket = env.create();
+    const delivered: any[] = [];
+    socket.on('delivered', event => delivered.push(event));
+    await env.clock.advance(0);
+
+    socket.send({ type: 'order', payload: 1 }, { reliable: true });
+    await env.clock.advance(0);
+    expect(delivered).toEqual([{ seq: 1, data: { type: 'order', payload: 1, seq: 1 } }]);
+  });
+
+  it('确认帧的格式可以配置，序列号可以是数组', async () => {
+    env.server.handle('order', data => ({ type: 'received', ids: [data.n] }));
+    const socket = env.create({ reliable: { seqKey: 'n', ackMessage: { type: 'received' }, ackSeqKey: 'ids' } });
+    const delivered: number[] = [];
+    socket.on('delivered', ({ seq }) => delivered.push(seq));
+    await env.clock.advance(0);
+
+    socket.send({ type: 'order' }, { reliable: true });
+    socket.send({ type: 'order' }, { reliable: true });
+    await env.clock.advance(0);
+    expect(delivered).toEqual([1, 2]);
+  });
+
+  it('重连后先重发未确认的消息，再发送队列中的消息', async () => {
+    const socket = env.create({ reconnectInterval: 100, reliable: { ackTimeout: 0 } });
+    await env.clock.advance(0);
+    socket.send({ type: 'order', payload: 1 }, { reliable: true });
+    await env.clock.advance(0);
+
+    env.server.lastConnection!.terminate();
+    await env.clock.advance(0);
+    socket.send({ type: 'chat' });
+
+    const next = env.server.waitForConnection(true);
+    await env.clock.advance(1000);
+    const connection = await next;
+    expect(connection.messages).toEqual([{ type: 'order', payload: 1, seq: 1 }, { type: 'chat' }]);
+  });
+
+  it('多次重发仍未确认时触发 deliveryFailed', async () => {
+    const socket = env.create({ reliable: { ackTimeout: 100, maxRetries: 2 } });
+    const failed: any[] = [];
+    socket.on('deliveryFailed', event => failed.push(event));
+    await env.clock.advance(0);
+
+    socket.send({ type: 'order' }, { reliable: true });
+    await env.clock.advance(1000);
+    expect(env.server.lastConnection!.messages).toHaveLength(3);
+    expect(failed).toEqual([{ seq: 1, data: { type: 'order', seq: 1 }, reason: 'maxRetries' }]);
+  });
+
+  it('没有等待确认的消息时，形状相同的帧照常分发', async () => {
+    const socket = env.create();
+    const acks: any[] = [];
+    socket.on('ack', data => acks.push(data));
+    await env.clock.advance(0);
+
+    env.server.broadcast({ type: 'ack', seq: 3 });
+    await env.clock.advance(0);
+    expect(acks).toEqual([{ type: 'ack', seq: 3 }]);
+
+    env.server.handle('order', data => ({ type: 'ack', seq: data.seq }));
+    socket.send({ type: 'order' }, { reliable: true });
+    await env.clock.advance(0);
+    expect(acks).toHaveLength(1);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { useSetup } from './helpers.js';
+
+describe('断线续传', () => {
+  const env = useSetup();
+
+  it('重连后先发送续传帧，再发送队列中的消息', async () => {
+    const socket = env.create({ resume: {}, reconnectInterval: 100 });
+    await env.clock.advance(0);
+    env.server.broadcast({ type: 'news', eventId: 7 });
+    await env.clock.advance(0);
+    expect(socket.lastEventId).toBe(7);
+
+    env.server.lastConnection!.close(1006);
+    await env.clock.advance(0);
+    socket.send({ type: 'chat' });
+    const next = env.server.waitForConnection(true);
+    await env.clock.advance(100);
+    const connection = await next;
+    expect(connection.messages).toEqual([{ type: 'resume', lastEventId: 7 }, { type: 'chat' }]);
+  });
+
+  it('丢弃重复的消息，跳号时触发 gap', async () => {
+    const socket = env.create({ resume: { getId: data => data.seq } });
+    const news: number[] = [];
+    const gaps: any[] = [];
+    socket.on('news', (data: any) => news.push(data.seq));
+    socket.on('gap', event => gaps.push(event));
+    await env.clock.advance(0);
+
+    [1, 2, 2, 1, 5, 6].forEach(seq => env.server.broadcast({ type: 'news', seq }));
+    await env.clock.advance(0);
+    expect(news).toEqual([1, 2, 5, 6]);
+    expect(gaps).toEqual([{ from: 3, to: 4, missing: 2 }]);
+  });
+
+  it('字符串ID去重，持久化的ID在新实例连接时发送', async () => {
+    let stored: any;
+    const storage = {
+      load: async () => stored,
+      save: async (id: any) => { stored = id; }
+    };
+    const first = env.create({ resume: { storage, resumeMessage: since => ({ type: 'replay', since }) } });
+    const news: string[] = [];
+    first.on('news', (data: any) => news.push(data.eventId));
+    await env.clock.advance(0);
+    ['a', 'b', 'a'].forEach(eventId => env.server.broadcast({ type: 'news', eventId }));
+    await env.clock.advance(0);
+    expect(news).toEqual(['a', 'b']);
+    first.destroy();
+
+    env.create({ resume: { storage, resumeMessage: since => ({ type: 'replay', since }) } });
+    await env.clock.advance(0);
+    expect(env.server.lastConnection!.messages).toEqual([{ type: 'replay', since: 'b' }]);
+  });
+
+  it('恢复事件ID完成后才建立第一次连接', async () => {
+    const storage = {
+      load: () => new Promise<number>(resolve => env.clock.setTimeout(() => resolve(9), 50)),
+      save: async () => {}
+    };
+    env.create({ resume: { storage } });
+    await env.clock.advance(0);
+    expect(env.server.connections).toHaveLength(0);
+
+    await env.clock.advance(50);
+    expect(env.server.lastConnection!.messages).toEqual([{ type: 'resume', lastEventId: 9 }]);
+  });
+
+  it('按顺序保存事件ID，较慢的保存不会覆盖较新的ID', async () => {
+    const saved: any[] = [];
+    const storage = {
+      load: async () => undefined,
+      save: (id: any) => new Promise<void>(resolve => {
+        env.clock.setTimeout(() => { saved.push(id); resolve(); }, id === 1 ? 100 : 10);
+      })
+    };
+    env.create({ resume: { storage } });
+    await env.clock.advance(0);
+    env.server.broadcast({ type: 'news', eventId: 1 });
+    env.server.broadcast({ type: 'news', eventId: 2 });
+    await env.clock.advance(200);
+    expect(saved).toEqual([1, 2]);
+  });
+});
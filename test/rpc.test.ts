@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { useSetup } from './helpers.js';
+
+describe('请求/响应', () => {
+  const env = useSetup();
+
+  it('按关联ID解析回复，回复不再作为普通消息分发', async () => {
+    env.server.handle('add', data => ({ type: 'add', id: data.id, payload: data.payload.a + data.payload.b }));
+    const socket = env.create();
+    const messages: any[] = [];
+    socket.on('message', data => messages.push(data));
+    socket.on('add', data => messages.push(data));
+
+    const result = socket.request('add', { a: 1, b: 2 });
+    await env.clock.advance(0);
+    expect(await result).toBe(3);
+    expect(messages).toEqual([]);
+  });
+
+  it('错误回复不会触发内置 error 事件', async () => {
+    env.server.handle('fail', data => ({ type: 'error', id: data.id, error: 'bad input' }));
+    const socket = env.create();
+    const errors: any[] = [];
+    socket.on('error', error => errors.push(error));
+
+    const result = socket.request('fail', {}).catch(error => error);
+    await env.clock.advance(0);
+    const error = await result;
+    expect(error.code).toBe('REMOTE');
+    expect(error.message).toBe('bad input');
+    expect(errors).toEqual([]);
+  });
+
+  it('与内置事件同名的消息触发 message:<type>', async () => {
+    const socket = env.create();
+    const errors: any[] = [];
+    const namespaced: any[] = [];
+    socket.on('error', error => errors.push(error));
+    socket.on('message:error', (data: any) => namespaced.push(data));
+    await env.clock.advance(0);
+
+    env.server.broadcast({ type: 'error', payload: 'server side' });
+    await env.clock.advance(0);
+    expect(errors).toEqual([]);
+    expect(namespaced).toEqual([{ type: 'error', payload: 'server side' }]);
+  });
+
+  it('请求超时', async () => {
+    const socket = env.create({ requestTimeout: 100 });
+    const result = socket.request('never', {}).catch(error => error.code);
+    await env.clock.advance(100);
+    expect(await result).toBe('TIMEOUT');
+  });
+
+  it('连接失败前只在队列中的请求重连后只发送一次', async () => {
+    env.server.refuse(1);
+    const socket = env.create({ retainRequestsOnReconnect: true, reconnectStrategy: { type: 'fixed' }, reconnectInterval: 100 });
+    socket.request('once', {}).catch(() => {});
+    await env.clock.advance(200);
+
+    const connection = await env.server.waitForConnection();
+    await env.clock.advance(0);
+    expect(connection.messages.filter(data => data.type === 'once')).toHaveLength(1);
+  });
+
+  it('已发出的保留请求在重连后重发并解析', async () => {
+    const socket = env.create({ retainRequestsOnReconnect: true, reconnectStrategy: { type: 'fixed' }, reconnectInterval: 100 });
+    await env.clock.advance(0);
+    const first = await env.server.waitForConnection();
+    const result = socket.request('retry', {});
+    await env.clock.advance(0);
+    expect(first.messages.filter(data => data.type === 'retry')).toHaveLength(1);
+
+    first.terminate();
+    await env.clock.advance(200);
+    const second = await env.server.waitForConnection();
+    await env.clock.advance(0);
+    const frames = second.messages.filter(data => data.type === 'retry');
+    expect(frames).toHaveLength(1);
+
+    second.send({ type: 'retry', id: frames[0].id, payload: 'ok' });
+    await env.clock.advance(0);
+    expect(await result).toBe('ok');
+  });
+});
@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import WebSocket from 'ws';
+import { SupaSocketServer } from '../src/server.js';
+import { encodeChunkFrame } from '../src/index.js';
+import { listen, until } from './helpers.js';
+
+/**
+ * 连接服务端并记录收到的 JSON 消息
+ */
+async function connect(url: string) {
+  const socket = new WebSocket(url);
+  const messages: any[] = [];
+  socket.on('message', raw => messages.push(JSON.parse(raw.toString())));
+  await new Promise(resolve => socket.once('open', resolve));
+  return { socket, messages };
+}
+
+describe('服务端', () => {
+  let server: SupaSocketServer | null = null;
+  afterEach(async () => {
+    await server?.close();
+    server = null;
+  });
+
+  it('回复请求和心跳', async () => {
+    const started = await listen();
+    server = started.server;
+    server.handle('add', frame => frame.payload.a + frame.payload.b);
+    const client = await connect(started.url);
+
+    client.socket.send(JSON.stringify({ type: 'add', id: 1, payload: { a: 1, b: 2 } }));
+    client.socket.send(JSON.stringify({ type: 'ping', time: 5 }));
+    await until(() => client.messages.length === 2);
+
+    expect(client.messages).toContainEqual({ type: 'add', id: 1, payload: 3 });
+    expect(client.messages).toContainEqual({ type: 'pong', time: 5 });
+    client.socket.close();
+  });
+
+  it('上传只接受发起传输的连接发来的帧', async () => {
+    const started = await listen({ files: { idleTimeout: 0 } });
+    server = started.server;
+    const files: any[] = [];
+    server.on('file', event => files.push(event));
+    const owner = await connect(started.url);
+    const other = await connect(started.url);
+    const start = {
+      type: 'file_start', transferId: 't1', fileName: 'a.bin', fileSize: 4, fileType: '',
+      chunkSize: 4, totalChunks: 1, checksum: 'none'
+    };
+
+    owner.socket.send(JSON.stringify(start));
+    await until(() => owner.messages.length === 1);
+
+    // 另一个连接既不能接管，也不能写入数据或结束传输
+    other.socket.send(JSON.stringify(start));
+    other.socket.send(encodeChunkFrame({ id: 't1', index: 0, offset: 0, hash: '' }, new Uint8Array([9, 9, 9, 9])));
+    other.socket.send(JSON.stringify({ type: 'file_end', transferId: 't1', hash: '' }));
+    await until(() => other.messages.length === 1);
+    expect(other.messages).toEqual([{ type: 'file_complete', transferId: 't1', ok: false, error: 'conflict' }]);
+
+    owner.socket.send(encodeChunkFrame({ id: 't1', index: 0, offset: 0, hash: '' }, new Uint8Array([1, 2, 3, 4])));
+    owner.socket.send(JSON.stringify({ type: 'file_end', transferId: 't1', hash: '' }));
+    await until(() => files.length === 1 && owner.messages.some(message => message.type === 'file_complete'));
+
+    expect(Array.from(files[0].file.data)).toEqual([1, 2, 3, 4]);
+    expect(files[0].client.socket.readyState).toBe(WebSocket.OPEN);
+    expect(owner.messages[owner.messages.length - 1]).toEqual({ type: 'file_complete', transferId: 't1', ok: true });
+    owner.socket.close();
+    other.socket.close();
+  });
+
+  it('原连接断开后，新连接可以续传', async () => {
+    const started = await listen({ files: { idleTimeout: 0 } });
+    server = started.server;
+    const files: any[] = [];
+    server.on('file', event => files.push(event));
+    const start = {
+      type: 'file_start', transferId: 't2', fileName: 'b.bin', fileSize: 8, fileType: '',
+      chunkSize: 4, totalChunks: 2, checksum: 'none'
+    };
+
+    const first = await connect(started.url);
+    first.socket.send(JSON.stringify(start));
+    first.socket.send(encodeChunkFrame({ id: 't2', index: 0, offset: 0, hash: '' }, new Uint8Array([1, 2, 3, 4])));
+    await until(() => first.messages.length === 2);
+    first.socket.close();
+    await until(() => server!.clients.size === 0);
+
+    const second = await connect(started.url);
+    second.socket.send(JSON.stringify(start));
+    await until(() => second.messages.length === 1);
+    expect(second.messages[0]).toEqual({ type: 'file_ack', transferId: 't2', offset: 4 });
+
+    second.socket.send(encodeChunkFrame({ id: 't2', index: 1, offset: 4, hash: '' }, new Uint8Array([5, 6, 7, 8])));
+    second.socket.send(JSON.stringify({ type: 'file_end', transferId: 't2', hash: '' }));
+    await until(() => files.length === 1);
+    expect(Array.from(files[0].file.data)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    second.socket.close();
+  });
+});
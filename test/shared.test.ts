@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { ConnectionState } from '../src/index.js';
+import { useSetup } from './helpers.js';
+
+let counter = 0;
+
+describe('多标签页共享连接', () => {
+  const env = useSetup();
+
+  /**
+   * 推进时钟，并等待 BroadcastChannel 的消息送达
+   */
+  const settle = async (ms = 0) => {
+    await env.clock.advance(ms);
+    for (let i = 0; i < 5; i++) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await env.clock.advance(0);
+    }
+  };
+
+  const createPair = async () => {
+    const shared = { name: `shared-test-${++counter}`, leaderHeartbeat: 100 };
+    const leader = env.create({ shared });
+    await settle(100);
+    const follower = env.create({ shared });
+    await settle(100);
+    return { leader, follower, shared };
+  };
+
+  it('只有主实例建立连接，从实例代理收发消息', async () => {
+    const { leader, follower } = await createPair();
+    expect(leader.sharedRole).toBe('leader');
+    expect(follower.sharedRole).toBe('follower');
+    expect(follower.connectionState).toBe(ConnectionState.OPEN);
+    expect(env.server.connections).toHaveLength(1);
+
+    const received: any[] = [];
+    follower.on('notice', (data: any) => received.push(data));
+    follower.send({ type: 'hello', payload: 'from follower' });
+    env.server.broadcast({ type: 'notice', payload: 1 });
+    await settle();
+
+    expect(env.server.lastConnection!.messages).toContainEqual({ type: 'hello', payload: 'from follower' });
+    expect(received).toEqual([{ type: 'notice', payload: 1 }]);
+  });
+
+  it('从实例的订阅由主实例发送，并收到频道消息', async () => {
+    const { follower } = await createPair();
+    const prices: any[] = [];
+    follower.subscribe('prices', data => prices.push(data));
+    await settle();
+
+    const connection = env.server.lastConnection!;
+    expect(connection.messages).toContainEqual({ type: 'subscribe', channel: 'prices' });
+    connection.send({ type: 'price', channel: 'prices', payload: 42 });
+    await settle();
+    expect(prices).toEqual([{ type: 'price', channel: 'prices', payload: 42 }]);
+  });
+
+  it('主实例退出后从实例接任并重新订阅', async () => {
+    const { leader, follower } = await createPair();
+    follower.subscribe('prices', () => {});
+    await settle();
+
+    leader.destroy();
+    await settle(1000);
+
+    expect(follower.sharedRole).toBe('leader');
+    expect(follower.connectionState).toBe(ConnectionState.OPEN);
+    expect(env.server.clients).toHaveLength(1);
+    expect(env.server.lastConnection!.messages).toContainEqual({ type: 'subscribe', channel: 'prices' });
+  });
+
+  it('从实例的可靠消息由主实例确认后在从实例触发 delivered', async () => {
+    env.server.handle('order', data => ({ type: 'ack', seq: data.seq }));
+    const { leader, follower } = await createPair();
+    const delivered: any[] = [];
+    const leaderDelivered: any[] = [];
+    follower.on('delivered', event => delivered.push(event));
+    leader.on('delivered', event => leaderDelivered.push(event));
+
+    follower.send({ type: 'order', payload: 1 }, { reliable: true });
+    await settle();
+    expect(delivered).toEqual([{ seq: 1, data: { type: 'order', payload: 1, seq: 1 } }]);
+    expect(leaderDelivered).toEqual([]);
+  });
+
+  it('主实例退出后，从实例未确认的可靠消息由新的主实例发送', async () => {
+    const { leader, follower } = await createPair();
+    const delivered: any[] = [];
+    const failed: any[] = [];
+    follower.on('delivered', event => delivered.push(event));
+    follower.on('deliveryFailed', event => failed.push(event));
+
+    follower.send({ type: 'order', payload: 1 }, { reliable: true });
+    await settle();
+    expect(env.server.lastConnection!.messages).toEqual([{ type: 'order', payload: 1, seq: 1 }]);
+
+    leader.destroy();
+    await settle(1000);
+    expect(follower.sharedRole).toBe('leader');
+    const connection = env.server.lastConnection!;
+    expect(connection.messages).toEqual([{ type: 'order', payload: 1, seq: 1 }]);
+    expect(failed).toEqual([]);
+
+    connection.send({ type: 'ack', seq: 1 });
+    await settle();
+    expect(delivered).toEqual([{ seq: 1, data: { type: 'order', payload: 1, seq: 1 } }]);
+  });
+
+  it('同时出现两个主实例时，降级的一方关闭连接并交出未确认的可靠消息', async () => {
+    const shared = { name: `shared-test-${++counter}`, leaderHeartbeat: 100 };
+    const first = env.create({ shared });
+    await settle(100);
+    // 同步推进时钟，收不到 BroadcastChannel 消息的第二个实例也会竞选成功
+    const second = env.create({ shared });
+    env.clock.tick(1000);
+    expect([first.sharedRole, second.sharedRole]).toEqual(['leader', 'leader']);
+
+    first.send({ type: 'order', payload: 'first' }, { reliable: true });
+    second.send({ type: 'order', payload: 'second' }, { reliable: true });
+    await settle(100);
+
+    expect([first.sharedRole, second.sharedRole].sort()).toEqual(['follower', 'leader']);
+    expect(first.connectionState).toBe(ConnectionState.OPEN);
+    expect(second.connectionState).toBe(ConnectionState.OPEN);
+    expect(env.server.connections).toHaveLength(2);
+    expect(env.server.clients).toHaveLength(1);
+    const payloads = env.server.clients[0].messages.map(message => message.payload);
+    expect(payloads.sort()).toEqual(['first', 'second']);
+  });
+});
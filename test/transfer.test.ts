@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { FileReceiver, FileTransferError, encodeChunkFrame } from '../src/index.js';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * 创建不做校验的接收方（6 字节、每块 4 字节），记录发出的控制帧、收到的文件和错误
+ */
+function createReceiver(totalChunks = 2) {
+  const sent: any[] = [];
+  const files: any[] = [];
+  const errors: FileTransferError[] = [];
+  const receiver = new FileReceiver({ idleTimeout: 0 }, {
+    sendControl: frame => { sent.push(frame); return true; },
+    onFile: file => files.push(file),
+    onError: error => errors.push(error)
+  });
+  receiver.handleControl({
+    type: 'file_start', transferId: 't1', fileName: 'a.bin', fileSize: 6, fileType: '',
+    chunkSize: 4, totalChunks, checksum: 'none'
+  });
+  return { receiver, sent, files, errors };
+}
+
+const chunk = (index: number, offset: number, bytes: number[]) =>
+  encodeChunkFrame({ id: 't1', index, offset, hash: '' }, new Uint8Array(bytes));
+
+describe('文件接收', () => {
+  it('按顺序拼接数据块', async () => {
+    const { receiver, sent, files } = createReceiver();
+    receiver.handleChunk(chunk(0, 0, [1, 2, 3, 4]));
+    receiver.handleChunk(chunk(1, 4, [5, 6]));
+    receiver.handleControl({ type: 'file_end', transferId: 't1', hash: '' });
+    await flush();
+
+    expect(files).toHaveLength(1);
+    expect(Array.from(files[0].data)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(sent[sent.length - 1]).toEqual({ type: 'file_complete', transferId: 't1', ok: true });
+  });
+
+  it('拒绝超出声明文件大小的数据块', async () => {
+    const { receiver, sent, files, errors } = createReceiver();
+    receiver.handleChunk(chunk(0, 0, [1, 2, 3, 4]));
+    receiver.handleChunk(chunk(1, 4, [5, 6, 7, 8]));
+    await flush();
+
+    expect(sent[sent.length - 1]).toEqual({ type: 'file_complete', transferId: 't1', ok: false, error: 'invalidChunk' });
+    expect(errors).toHaveLength(1);
+    expect(errors[0].reason).toBe('rejected');
+    expect(receiver.size).toBe(0);
+    expect(files).toEqual([]);
+  });
+
+  it('拒绝序号与偏移量不符或超出块数的数据块', async () => {
+    const wrongIndex = createReceiver();
+    wrongIndex.receiver.handleChunk(chunk(5, 0, [1, 2, 3, 4]));
+    await flush();
+    expect(wrongIndex.errors).toHaveLength(1);
+    expect(wrongIndex.receiver.size).toBe(0);
+
+    const { receiver, errors } = createReceiver(1);
+    receiver.handleChunk(chunk(0, 0, [1, 2, 3, 4]));
+    receiver.handleChunk(chunk(1, 4, [5, 6]));
+    await flush();
+    expect(errors).toHaveLength(1);
+    expect(receiver.size).toBe(0);
+  });
+
+  it('缺少数据时要求从已收到的位置重发', async () => {
+    const { receiver, sent, errors } = createReceiver();
+    receiver.handleChunk(chunk(1, 4, [5, 6]));
+    await flush();
+
+    expect(sent[sent.length - 1]).toEqual({ type: 'file_nack', transferId: 't1', offset: 0, reason: 'gap' });
+    expect(errors).toEqual([]);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expectTypeOf, it } from 'vitest';
+import SupaSocket from '../src/index.js';
+
+interface ChatMsg { from: string; text: string }
+interface SendMsg { to: string; text: string }
+
+const createSocket = () => new SupaSocket<{ chat: ChatMsg }, { send: SendMsg }>({ url: 'ws://mock', autoConnect: false });
+
+describe('类型安全的消息', () => {
+  it('on 按 type 推断消息类型，未知事件编译错误', () => {
+    const socket = createSocket();
+    socket.on('chat', msg => {
+      expectTypeOf(msg.type).toEqualTypeOf<'chat'>();
+      expectTypeOf(msg.payload).toEqualTypeOf<ChatMsg>();
+    });
+    socket.on('reconnecting', event => expectTypeOf(event.attempt).toBeNumber());
+    // @ts-expect-error 未在消息映射中的事件
+    socket.on('unknown', () => {});
+  });
+
+  it('send 检查消息的 type 和 payload', () => {
+    const socket = createSocket();
+    socket.send({ type: 'send', payload: { to: 'bob', text: 'hi' } });
+    // @ts-expect-error 未在消息映射中的 type
+    socket.send({ type: 'unknown', payload: {} });
+    // @ts-expect-error payload 类型不匹配
+    socket.send({ type: 'send', payload: { text: 1 } });
+  });
+
+  it('request 只接受发送消息映射中的 type', () => {
+    const socket = createSocket();
+    expectTypeOf(socket.request).parameter(0).toEqualTypeOf<'send'>();
+    // @ts-expect-error 未在消息映射中的 type
+    socket.request('nope', 1);
+  });
+
+  it('不指定类型参数时不做限制', () => {
+    const socket = new SupaSocket({ url: 'ws://mock', autoConnect: false });
+    socket.on('anything', data => expectTypeOf(data).toBeAny());
+    socket.send({ type: 'anything' });
+    expectTypeOf(socket.request).parameter(0).toEqualTypeOf<string>();
+  });
+});
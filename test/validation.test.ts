@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { StandardSchemaV1, ValidationError } from '../src/index.js';
+import { useSetup } from './helpers.js';
+
+/**
+ * 最小的 Standard Schema 实现：校验字符串并转为大写
+ */
+const upperCase: StandardSchemaV1<unknown, string> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: value => typeof value === 'string'
+      ? { value: value.toUpperCase() }
+      : { issues: [{ message: '需要字符串', path: ['payload'] }] }
+  }
+};
+
+describe('消息校验', () => {
+  const env = useSetup();
+
+  it('无效的消息只触发 invalidMessage，不触发 message 和 type 事件', async () => {
+    const socket = env.create({
+      validation: { inbound: { count: (value: unknown) => typeof value === 'number' } }
+    });
+    const counts: any[] = [];
+    const messages: any[] = [];
+    const invalid: any[] = [];
+    socket.on('count', data => counts.push(data.payload));
+    socket.on('message', data => messages.push(data.payload));
+    socket.on('invalidMessage', event => invalid.push(event));
+    await env.clock.advance(0);
+
+    env.server.broadcast({ type: 'count', payload: 1 });
+    env.server.broadcast({ type: 'count', payload: 'two' });
+    env.server.broadcast({ type: 'other', payload: 3 });
+    await env.clock.advance(0);
+    expect(counts).toEqual([1]);
+    expect(messages).toEqual([1, 3]);
+    expect(invalid).toEqual([{ data: { type: 'count', payload: 'two' }, issues: [{ message: '校验未通过' }] }]);
+  });
+
+  it('rejectUnknown 时没有校验器的消息类型视为无效', async () => {
+    const socket = env.create({ validation: { inbound: {}, rejectUnknown: true } });
+    const invalid: any[] = [];
+    socket.on('invalidMessage', ({ issues }) => invalid.push(issues));
+    await env.clock.advance(0);
+
+    env.server.broadcast({ type: 'other' });
+    await env.clock.advance(0);
+    expect(invalid).toEqual([[{ message: '未知的消息类型: other' }]]);
+  });
+
+  it('所有发送方法都在发送前拒绝无效消息', async () => {
+    const socket = env.create({ validation: { outbound: { greet: upperCase } } });
+    const errors: any[] = [];
+    socket.on('error', error => errors.push(error));
+    await env.clock.advance(0);
+
+    expect(socket.send({ type: 'greet', payload: 1 })).toBe(false);
+    expect(socket.sendJson({ type: 'greet', payload: 2 })).toBe(false);
+    await expect(socket.sendAsync({ type: 'greet', payload: 3 })).rejects.toBeInstanceOf(ValidationError);
+    await expect(socket.request('greet', 4)).rejects.toMatchObject({ code: 'VALIDATION_FAILED', direction: 'outbound' });
+    await env.clock.advance(0);
+
+    expect(errors).toHaveLength(4);
+    expect(errors.every(error => error instanceof ValidationError && error.messageType === 'greet')).toBe(true);
+    expect(env.server.lastConnection!.messages).toEqual([]);
+    expect(socket.queueLength).toBe(0);
+    expect(socket.pendingRequests).toBe(0);
+  });
+
+  it('Standard Schema 的输出值替换 payload，问题原样返回', async () => {
+    env.server.handle('greet', data => ({ type: 'greet', id: data.id, payload: data.payload }));
+    const socket = env.create({
+      validation: { inbound: { shout: upperCase }, outbound: { greet: upperCase } }
+    });
+    const shouts: any[] = [];
+    const invalid: any[] = [];
+    socket.on('shout', data => shouts.push(data.payload));
+    socket.on('invalidMessage', ({ issues }) => invalid.push(issues));
+    await env.clock.advance(0);
+
+    socket.send({ type: 'greet', payload: 'hi' });
+    const reply = socket.request('greet', 'there');
+    env.server.broadcast({ type: 'shout', payload: 'hey' });
+    env.server.broadcast({ type: 'shout', payload: 0 });
+    await env.clock.advance(0);
+
+    expect(env.server.lastConnection!.messages[0]).toEqual({ type: 'greet', payload: 'HI' });
+    expect(await reply).toBe('THERE');
+    expect(shouts).toEqual(['HEY']);
+    expect(invalid).toEqual([[{ message: '需要字符串', path: ['payload'] }]]);
+  });
+
+  it('异步的 Standard Schema 视为校验失败', async () => {
+    const asyncSchema: StandardSchemaV1 = {
+      '~standard': { version: 1, vendor: 'test', validate: async value => ({ value }) }
+    };
+    const socket = env.create({ validation: { outbound: { greet: asyncSchema } } });
+    const errors: any[] = [];
+    socket.on('error', error => errors.push(error));
+
+    expect(socket.send({ type: 'greet', payload: 'hi' })).toBe(false);
+    expect(errors[0].issues).toEqual([{ message: '不支持异步校验' }]);
+  });
+});
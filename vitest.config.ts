@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    // *.test-d.ts 中的类型测试使用 test/tsconfig.json 做类型检查
+    typecheck: {
+      enabled: true,
+      tsconfig: './test/tsconfig.json'
+    }
+  }
+});